@@ -22,7 +22,7 @@ class MainWindowManager implements AppModule {
   async enable({ app }: ModuleContext): Promise<void> {
     const mainWindow = await this.#windowManager.init({ app });
 
-    appApi.registerMainHandlers(ipcMain);
+    appApi.registerMainHandlers(ipcMain, { windows: this.#windowManager });
 
     this.createMenus(mainWindow);
 
@@ -1,3 +1,11 @@
 import rollupConfig from '@internal/rollup-config';
 
-export default rollupConfig;
+export default rollupConfig({
+  input: [
+    'src/index.ts',
+    'src/testing/index.ts',
+    'src/contract/index.ts',
+    'src/contract/cli.ts',
+    'src/react/index.ts',
+  ],
+});
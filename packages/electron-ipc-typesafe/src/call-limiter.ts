@@ -0,0 +1,87 @@
+import type { HandlerOptions } from './types';
+
+import { IpcRateLimitError } from './errors';
+
+/**
+ * Tracks the calls of each sender on each channel against the channel's `rateLimit` and
+ * `maxConcurrency`. `acquire` starts a call, returning the function ending it, or the
+ * error to reject it with; rejected calls count towards neither limit. `size` is the
+ * number of sender and channel pairs tracked.
+ */
+export function createCallLimiter(): {
+  acquire: (
+    channel: string,
+    sender: string | number,
+    limits: Pick<HandlerOptions, 'rateLimit' | 'maxConcurrency'>,
+  ) => (() => void) | IpcRateLimitError;
+  size: () => number;
+} {
+  // Start times of the calls within the interval, and the calls still running, by key;
+  // keys are dropped once empty, so senders that come and go are not kept around
+  const startTimes = new Map<string, number[]>();
+  const running = new Map<string, number>();
+  const expiryTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+  // Forget the start times of a key once the last of them has left the interval
+  const expireStartTimes = (key: string, intervalMs: number) => {
+    clearTimeout(expiryTimers.get(key));
+    const timer = setTimeout(() => {
+      startTimes.delete(key);
+      expiryTimers.delete(key);
+    }, intervalMs);
+    // Pending expiries must not keep a process alive
+    (timer as { unref?: () => void }).unref?.();
+    expiryTimers.set(key, timer);
+  };
+
+  const acquire = (
+    channel: string,
+    sender: string | number,
+    { rateLimit, maxConcurrency }: Pick<HandlerOptions, 'rateLimit' | 'maxConcurrency'>,
+  ) => {
+    const key = `${sender}:${channel}`;
+    const now = Date.now();
+
+    if (maxConcurrency !== undefined && (running.get(key) ?? 0) >= maxConcurrency) {
+      return new IpcRateLimitError(channel, 'concurrency');
+    }
+
+    if (rateLimit) {
+      const recent = (startTimes.get(key) ?? []).filter(
+        (time) => time > now - rateLimit.intervalMs,
+      );
+      if (recent.length >= rateLimit.limit) {
+        startTimes.set(key, recent);
+        return new IpcRateLimitError(
+          channel,
+          'rate',
+          recent[0]! + rateLimit.intervalMs - now,
+        );
+      }
+      startTimes.set(key, [...recent, now]);
+      expireStartTimes(key, rateLimit.intervalMs);
+    }
+
+    if (maxConcurrency === undefined) {
+      return () => {};
+    }
+    running.set(key, (running.get(key) ?? 0) + 1);
+    let released = false;
+    return () => {
+      if (released) {
+        return;
+      }
+      released = true;
+      const count = running.get(key)! - 1;
+      if (count > 0) {
+        running.set(key, count);
+      } else {
+        running.delete(key);
+      }
+    };
+  };
+
+  const size = () => new Set([...startTimes.keys(), ...running.keys()]).size;
+
+  return { acquire, size };
+}
@@ -0,0 +1,198 @@
+import type { IpcRenderer } from 'electron';
+import type {
+  CompatibilityMode,
+  IpcChannelRef,
+  IpcSchemaManifest,
+  IpcSchemaSection,
+} from './types';
+
+import { IpcSchemaMismatchError } from './errors';
+import { createIpcErrorResponse } from './ipc-response';
+import { getHandlerOptions } from './schema-options';
+import { serializeError } from './serialize-error';
+
+// Channel main answers with its schema manifest, prefixed like the schema's channels
+export const SCHEMA_CHANNEL = '$schema';
+
+const SECTIONS: IpcSchemaSection[] = [
+  'handlers',
+  'streams',
+  'events',
+  'rendererEvents',
+  'relays',
+  'stores',
+  'rendererHandlers',
+];
+
+// 32-bit FNV-1a, enough to tell schemas apart without a crypto dependency
+const FNV_OFFSET_BASIS = 0x811c9dc5;
+const FNV_PRIME = 0x01000193;
+const HEX_RADIX = 16;
+const HASH_LENGTH = 8;
+
+function hash(text: string): string {
+  let value = FNV_OFFSET_BASIS;
+  for (let index = 0; index < text.length; index++) {
+    value ^= text.charCodeAt(index);
+    value = Math.imul(value, FNV_PRIME);
+  }
+  return (value >>> 0).toString(HEX_RADIX).padStart(HASH_LENGTH, '0');
+}
+
+// Library of a declared validator, as types are erased at runtime and validators are
+// separate objects in main and in the preload
+function describeValidator(validator: unknown): string | null {
+  if (typeof validator !== 'object' || validator === null) {
+    return null;
+  }
+  const props = (validator as { '~standard'?: { vendor?: unknown } })['~standard'];
+  return typeof props?.vendor === 'string' ? props.vendor : 'unknown';
+}
+
+// What a channel's definition tells at runtime: its validators and transfer option.
+// Handlers, events and streams all keep them under the same option names
+function describeChannel(definition: unknown): string {
+  const options = getHandlerOptions(definition);
+  return JSON.stringify([
+    describeValidator(options.args),
+    describeValidator(options.return),
+    options.transfer === true,
+  ]);
+}
+
+/**
+ * Describes a schema by the channels of each section, the declared shape of every
+ * channel and its optional version, with a fingerprint changing whenever any does.
+ */
+export function createSchemaManifest(
+  sections: Partial<Record<IpcSchemaSection, object | undefined>>,
+  version?: string,
+): IpcSchemaManifest {
+  const channels = Object.fromEntries(
+    SECTIONS.map((section) => [section, Object.keys(sections[section] ?? {}).sort()]),
+  ) as Record<IpcSchemaSection, string[]>;
+  const signatures = Object.fromEntries(
+    SECTIONS.map((section) => [
+      section,
+      Object.fromEntries(
+        channels[section].map((channel) => [
+          channel,
+          describeChannel((sections[section] as Record<string, unknown>)[channel]),
+        ]),
+      ),
+    ]),
+  ) as Record<IpcSchemaSection, Record<string, string>>;
+  const fingerprint = hash(JSON.stringify({ version, channels, signatures }));
+  return version === undefined
+    ? { fingerprint, channels, signatures }
+    : { version, fingerprint, channels, signatures };
+}
+
+/**
+ * Channels the local schema declares on top of the remote one and the other way round,
+ * and channels both declare with another shape
+ */
+export function diffSchemaManifests(
+  local: IpcSchemaManifest,
+  remote: IpcSchemaManifest,
+): { added: IpcChannelRef[]; removed: IpcChannelRef[]; changed: IpcChannelRef[] } {
+  const missingFrom = (from: IpcSchemaManifest, other: IpcSchemaManifest) =>
+    SECTIONS.flatMap((section) =>
+      from.channels[section]
+        .filter((channel) => !(other.channels[section] ?? []).includes(channel))
+        .map((channel) => ({ section, channel })),
+    );
+  const changed = SECTIONS.flatMap((section) =>
+    local.channels[section]
+      .filter((channel) => {
+        // Mains built before signatures were added send none to compare
+        const remoteSignature = remote.signatures?.[section]?.[channel];
+        return (
+          remoteSignature !== undefined &&
+          remoteSignature !== local.signatures[section][channel]
+        );
+      })
+      .map((channel) => ({ section, channel })),
+  );
+  return {
+    added: missingFrom(local, remote),
+    removed: missingFrom(remote, local),
+    changed,
+  };
+}
+
+/**
+ * Wraps the preload's ipcRenderer so the first use of the schema fetches main's
+ * manifest and compares it with the preload's. A mismatch is logged as a warning, or in
+ * `'throw'` mode makes every invoke fail with an {@link IpcSchemaMismatchError}.
+ */
+export function withCompatibilityCheck(
+  ipcRenderer: IpcRenderer,
+  options: { channel: string; manifest: IpcSchemaManifest; mode: CompatibilityMode },
+): IpcRenderer {
+  const { channel, manifest, mode } = options;
+  let check: Promise<IpcSchemaMismatchError | null> | null = null;
+
+  const compare = async () => {
+    let remote: IpcSchemaManifest;
+    try {
+      remote = await ipcRenderer.invoke(channel);
+    } catch (error) {
+      console.warn(`Could not verify the IPC schema against main:`, error);
+      return null;
+    }
+
+    if (remote.fingerprint === manifest.fingerprint) {
+      return null;
+    }
+
+    const { added, removed, changed } = diffSchemaManifests(manifest, remote);
+    const error = new IpcSchemaMismatchError(
+      added,
+      removed,
+      { preload: manifest.version, main: remote.version },
+      changed,
+    );
+    if (mode === 'throw') {
+      console.error(error.message);
+      return error;
+    }
+    console.warn(error.message);
+    return null;
+  };
+
+  const ensureCompatible = () => {
+    check ??= compare();
+    return check;
+  };
+
+  const wrapped = {
+    invoke: async (wireChannel: string, ...args: unknown[]) => {
+      const mismatch = await ensureCompatible();
+      // Answered as a failed response so the typed error survives the context bridge
+      if (mismatch) {
+        return createIpcErrorResponse(serializeError(mismatch));
+      }
+      return ipcRenderer.invoke(wireChannel, ...args);
+    },
+    send: (wireChannel: string, ...args: unknown[]) => {
+      void ensureCompatible();
+      ipcRenderer.send(wireChannel, ...args);
+    },
+    postMessage: (wireChannel: string, message: unknown, transfer?: MessagePort[]) => {
+      void ensureCompatible();
+      ipcRenderer.postMessage(wireChannel, message, transfer);
+    },
+    on: (wireChannel: string, listener: (...args: any[]) => void) => {
+      void ensureCompatible();
+      ipcRenderer.on(wireChannel, listener);
+      return wrapped;
+    },
+    removeListener: (wireChannel: string, listener: (...args: any[]) => void) => {
+      ipcRenderer.removeListener(wireChannel, listener);
+      return wrapped;
+    },
+  };
+
+  return wrapped as unknown as IpcRenderer;
+}
@@ -0,0 +1,47 @@
+import type { IpcMainInvokeEvent } from 'electron';
+import type { IpcMainContext } from './ipc-main-context';
+import type { IpcChannelSecurity, IpcSecurityViolation } from './types';
+
+import { requireWindowResolver } from './ipc-main-context';
+
+/**
+ * Checks the sender of a handler call against the security options of its channel,
+ * returning the violation when the call must be rejected. A sender frame that has
+ * navigated away or been destroyed never satisfies an origin or frame restriction.
+ */
+export function checkSender(
+  channel: string,
+  event: IpcMainInvokeEvent,
+  security: IpcChannelSecurity,
+  context: IpcMainContext,
+): IpcSecurityViolation | null {
+  const frame = event.senderFrame;
+  let windowName: string | undefined;
+  const violation = (reason: IpcSecurityViolation['reason']): IpcSecurityViolation => ({
+    channel,
+    reason,
+    origin: frame?.origin,
+    windowName,
+    event,
+  });
+
+  if (security.mainFrameOnly && (!frame || frame.parent !== null)) {
+    return violation('frame');
+  }
+
+  if (
+    security.allowedOrigins &&
+    (!frame || !security.allowedOrigins.includes(frame.origin))
+  ) {
+    return violation('origin');
+  }
+
+  if (security.allowedWindows) {
+    windowName = requireWindowResolver(context).getWindowName(event.sender);
+    if (windowName === undefined || !security.allowedWindows.includes(windowName)) {
+      return violation('window');
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,255 @@
+import type { IpcMain, IpcRenderer } from 'electron';
+
+import type {
+  ComposedIpcSchema,
+  ComposeIpcSchemasConfig,
+  EmptySchema,
+  EventSchema,
+  IpcHandlerSchemas,
+  IpcMainOptions,
+  IpcModule,
+  IpcModuleConfig,
+  IpcModules,
+  IpcStoreSchemas,
+  IpcStreamSchemas,
+  MissingHandlersMode,
+  RelaySchema,
+  RendererEventSchema,
+  RendererHandlerSchemas,
+} from './types';
+
+import { SCHEMA_CHANNEL } from './check-compatibility';
+import { createScopedIpcSchema } from './create-ipc-schema';
+import { BATCH_CHANNEL } from './invoke-transport';
+import { reportMissingHandlers } from './report-missing-handlers';
+import { getEventOptions, getHandlerOptions } from './schema-options';
+import { TRANSFER_CHANNELS } from './transfer-port';
+
+// Keys of the composed schema that module namespaces cannot shadow
+const RESERVED_NAMESPACES = new Set([
+  'exposeInPreload',
+  'registerMainHandlers',
+  'getMissingHandlers',
+  'assertAllHandlersRegistered',
+]);
+
+// Listener tables, in main or in the renderer, the channels of each section are added
+// to; sections sharing a table cannot reuse a wire channel across modules
+const CHANNEL_SECTIONS = {
+  handlers: ['handlers'],
+  streams: ['main'],
+  stores: ['handlers', 'renderer'],
+  rendererEvents: ['main'],
+  relays: ['main', 'renderer'],
+  rendererHandlers: ['main', 'renderer'],
+  events: ['renderer'],
+} as const;
+
+/**
+ * Declares a feature schema to be composed with others under a namespace. Takes the
+ * same options as `createIpcSchema` except `apiKey`, which belongs to the composition.
+ */
+export function defineIpcModule<
+  THandlerSchemas extends IpcHandlerSchemas = EmptySchema,
+  TEventSchema extends EventSchema = EmptySchema,
+  TRendererEventSchema extends RendererEventSchema = EmptySchema,
+  TRelaySchema extends RelaySchema = EmptySchema,
+  TStreamSchemas extends IpcStreamSchemas = EmptySchema,
+  TWindowName extends string = string,
+  TStoreSchemas extends IpcStoreSchemas = EmptySchema,
+  TRendererHandlerSchemas extends RendererHandlerSchemas = EmptySchema,
+>(
+  config: IpcModuleConfig<
+    THandlerSchemas,
+    TEventSchema,
+    TRendererEventSchema,
+    TRelaySchema,
+    TStreamSchemas,
+    TWindowName,
+    TStoreSchemas,
+    TRendererHandlerSchemas
+  >,
+): IpcModule<
+  THandlerSchemas,
+  TEventSchema,
+  TRendererEventSchema,
+  TRelaySchema,
+  TStreamSchemas,
+  TWindowName,
+  TStoreSchemas,
+  TRendererHandlerSchemas
+> {
+  return { config };
+}
+
+// Channels a module listens on for its options rather than its declarations, with the
+// option that adds each
+function getInternalChannels(
+  config: IpcModule['config'],
+): { option: string; channel: string; table: 'handlers' | 'main' }[] {
+  const channels: ReturnType<typeof getInternalChannels> = [];
+  const handlers = Object.values(config.handlers ?? {});
+  const rendererEvents = Object.values(config.rendererEvents ?? {});
+  if (config.compatibility) {
+    channels.push({
+      option: 'compatibility',
+      channel: SCHEMA_CHANNEL,
+      table: 'handlers',
+    });
+  }
+  if (config.batching && handlers.length > 0) {
+    channels.push({ option: 'batching', channel: BATCH_CHANNEL, table: 'handlers' });
+  }
+  if (handlers.some((definition) => getHandlerOptions(definition).transfer)) {
+    channels.push({
+      option: 'transfer',
+      channel: TRANSFER_CHANNELS.handlers,
+      table: 'main',
+    });
+  }
+  if (rendererEvents.some((definition) => getEventOptions(definition).transfer)) {
+    channels.push({
+      option: 'transfer',
+      channel: TRANSFER_CHANNELS.rendererEvents,
+      table: 'main',
+    });
+  }
+  return channels;
+}
+
+function resolveChannelPrefix(namespace: string, module: IpcModule): string | undefined {
+  const { channelPrefix } = module.config;
+  if (channelPrefix === false) {
+    return undefined;
+  }
+  return channelPrefix ?? namespace;
+}
+
+// Throws when two modules would listen on the same wire channel
+function assertNoChannelCollisions(modules: IpcModules): void {
+  const owners = new Map<string, string>();
+
+  for (const [namespace, module] of Object.entries(modules)) {
+    const prefix = resolveChannelPrefix(namespace, module);
+
+    for (const [section, tables] of Object.entries(CHANNEL_SECTIONS)) {
+      const schemas = module.config[section as keyof typeof CHANNEL_SECTIONS];
+      for (const channel of Object.keys(schemas ?? {})) {
+        const wire = prefix === undefined ? channel : `${prefix}:${channel}`;
+        for (const table of tables) {
+          const key = `${table}\0${wire}`;
+          const owner = owners.get(key);
+          if (owner !== undefined && owner !== namespace) {
+            throw new Error(
+              `IPC channel '${wire}' is declared by both modules '${owner}' and '${namespace}'`,
+            );
+          }
+          owners.set(key, namespace);
+        }
+      }
+    }
+
+    for (const { option, channel, table } of getInternalChannels(module.config)) {
+      const wire = prefix === undefined ? channel : `${prefix}:${channel}`;
+      const key = `${table}\0${wire}`;
+      const owner = owners.get(key);
+      if (owner !== undefined && owner !== namespace) {
+        throw new Error(
+          `IPC channel '${wire}' of the ${option} option is used by both modules ` +
+            `'${owner}' and '${namespace}'; give one of them a channelPrefix`,
+        );
+      }
+      owners.set(key, namespace);
+    }
+  }
+}
+
+/**
+ * Composes feature modules into one schema. Each module's API is nested under its
+ * namespace and its channels are prefixed with it, so the whole application needs a
+ * single `exposeInPreload` and a single `registerMainHandlers` call.
+ *
+ * @example
+ * ```typescript
+ * export const api = composeIpcSchemas({
+ *   apiKey: 'api',
+ *   modules: { notifications, settings },
+ * });
+ *
+ * await api.notifications.invoke.show('Hello');
+ * ```
+ */
+export function composeIpcSchemas<TModules extends IpcModules>(
+  config: ComposeIpcSchemasConfig<TModules>,
+): ComposedIpcSchema<TModules> {
+  const { apiKey, modules } = config;
+  const namespaces = Object.keys(modules);
+
+  if (namespaces.length === 0) {
+    throw new Error('At least one module must be provided');
+  }
+
+  for (const namespace of namespaces) {
+    if (RESERVED_NAMESPACES.has(namespace)) {
+      throw new Error(`IPC module namespace '${namespace}' is reserved`);
+    }
+  }
+
+  assertNoChannelCollisions(modules);
+
+  const schemas = namespaces.map((namespace) => {
+    const { channelPrefix: _channelPrefix, ...moduleConfig } = modules[namespace]!.config;
+    const schema = createScopedIpcSchema(moduleConfig, {
+      apiKey,
+      namespace,
+      channelPrefix: resolveChannelPrefix(namespace, modules[namespace]!),
+    });
+    return [namespace, schema] as const;
+  });
+
+  const exposeInPreload = (ipcRenderer: IpcRenderer) => {
+    const api: any = {};
+    for (const [namespace, schema] of schemas) {
+      api[namespace] = schema.exposeInPreload(ipcRenderer);
+    }
+    return api;
+  };
+
+  const getMissingHandlers = () =>
+    schemas.flatMap(([, schema]) => schema.getMissingHandlers());
+
+  const assertAllHandlersRegistered = (mode: MissingHandlersMode = 'throw') => {
+    reportMissingHandlers(getMissingHandlers(), mode);
+  };
+
+  const registerMainHandlers = (ipcMain: IpcMain, options: IpcMainOptions = {}) => {
+    // Checked once for all modules, so every module is registered before reporting
+    const { missingHandlers, ...moduleOptions } = options;
+    for (const [, schema] of schemas) {
+      schema.registerMainHandlers(ipcMain, moduleOptions);
+    }
+    if (missingHandlers) {
+      assertAllHandlersRegistered(missingHandlers);
+    }
+  };
+
+  const result: any = {
+    exposeInPreload,
+    registerMainHandlers,
+    getMissingHandlers,
+    assertAllHandlersRegistered,
+  };
+
+  for (const [namespace, schema] of schemas) {
+    const {
+      exposeInPreload: _exposeInPreload,
+      registerMainHandlers: _registerMainHandlers,
+      getMissingHandlers: _getMissingHandlers,
+      assertAllHandlersRegistered: _assertAllHandlersRegistered,
+      ...moduleApi
+    } = schema;
+    result[namespace] = moduleApi;
+  }
+
+  return result;
+}
@@ -0,0 +1,74 @@
+#!/usr/bin/env node
+import process from 'node:process';
+import { parseArgs } from 'node:util';
+import { writeIpcContract } from './write-ipc-contract';
+
+function showHelp(): void {
+  console.log(`
+Usage: electron-ipc-contract <entry> [options]
+
+Writes the IPC contract of the schemas exported by <entry> as JSON and Markdown.
+
+Options:
+  --export <name>     Schema export to describe, repeatable (default: every schema)
+  --tsconfig <path>   tsconfig resolving the entry's imports (default: nearest one)
+  --out-dir <path>    Directory of the written files (default: .)
+  --name <name>       Base name of the written files (default: ipc-contract)
+  --check             Fail instead of writing when the files are outdated
+  --help              Show this help message
+
+Examples:
+  electron-ipc-contract packages/ipc/src/index.ts --out-dir docs
+  electron-ipc-contract packages/ipc/src/index.ts --out-dir docs --check
+`);
+}
+
+async function main(): Promise<void> {
+  const CLI_ARGS_START_INDEX = 2;
+  const { values, positionals } = parseArgs({
+    args: process.argv.slice(CLI_ARGS_START_INDEX),
+    options: {
+      export: { type: 'string', multiple: true, short: 'e' },
+      tsconfig: { type: 'string', short: 'p' },
+      'out-dir': { type: 'string', short: 'o' },
+      name: { type: 'string' },
+      check: { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+    },
+    allowPositionals: true,
+  });
+
+  const [entry] = positionals;
+  if (values.help || !entry) {
+    showHelp();
+    process.exit(values.help ? 0 : 1);
+  }
+
+  const { files, changed } = await writeIpcContract({
+    entry,
+    exports: values.export,
+    tsconfig: values.tsconfig,
+    outDir: values['out-dir'],
+    name: values.name,
+    check: values.check,
+  });
+
+  if (values.check && changed.length > 0) {
+    console.error(`IPC contract is outdated: ${changed.join(', ')}`);
+    process.exit(1);
+  }
+
+  console.log(
+    values.check
+      ? 'IPC contract is up to date'
+      : `Wrote IPC contract: ${files.join(', ')}`,
+  );
+}
+
+// Auto-run when called directly (e.g., through bin script)
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
+
+export { main };
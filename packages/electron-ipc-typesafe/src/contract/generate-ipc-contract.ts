@@ -0,0 +1,262 @@
+import type {
+  IpcContract,
+  IpcContractArgument,
+  IpcContractChannel,
+  IpcContractChannelKind,
+  IpcContractDirection,
+  IpcContractSchema,
+} from '../types';
+import path from 'node:path';
+import ts from 'typescript';
+
+export interface GenerateIpcContractOptions {
+  /** Module exporting the schemas, e.g. `packages/ipc/src/index.ts` */
+  entry: string;
+  /** Exports to describe; defaults to every exported schema */
+  exports?: string[];
+  /** tsconfig used to resolve the entry's imports; looked up from the entry by default */
+  tsconfig?: string;
+}
+
+// Schema sections in contract order, with the kind and direction of their channels
+const SECTIONS: [
+  section: string,
+  kind: IpcContractChannelKind,
+  direction: IpcContractDirection,
+][] = [
+  ['handlers', 'handler', 'renderer-to-main'],
+  ['streams', 'stream', 'renderer-to-main'],
+  ['events', 'event', 'main-to-renderer'],
+  ['rendererEvents', 'renderer-event', 'renderer-to-main'],
+  ['relays', 'relay', 'renderer-to-renderer'],
+  ['stores', 'store', 'main-to-renderer'],
+  ['rendererHandlers', 'renderer-handler', 'main-to-renderer'],
+];
+
+const TYPE_FORMAT = ts.TypeFormatFlags.NoTruncation | ts.TypeFormatFlags.InTypeAlias;
+
+// Errors declared without the third `defineHandler` type parameter
+const DEFAULT_ERROR_TYPE = 'HandlerErrorShape';
+
+function createProgram(entry: string, tsconfig: string | undefined): ts.Program {
+  const configPath =
+    tsconfig ?? ts.findConfigFile(path.dirname(entry), (file) => ts.sys.fileExists(file));
+  const options: ts.CompilerOptions = {
+    strict: true,
+    target: ts.ScriptTarget.ES2022,
+    module: ts.ModuleKind.ESNext,
+    moduleResolution: ts.ModuleResolutionKind.Bundler,
+    skipLibCheck: true,
+  };
+
+  if (configPath) {
+    const parsed = ts.getParsedCommandLineOfConfigFile(
+      configPath,
+      {},
+      {
+        ...ts.sys,
+        onUnRecoverableConfigFileDiagnostic: (diagnostic) => {
+          throw new Error(ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'));
+        },
+      },
+    );
+    Object.assign(options, parsed?.options);
+  }
+
+  return ts.createProgram([entry], { ...options, noEmit: true });
+}
+
+/**
+ * Describes the IPC surface of the schemas exported by a module: every channel with its
+ * direction and the names and types of its arguments, read from the TypeScript
+ * declarations with the compiler API. Both `createIpcSchema` and `composeIpcSchemas`
+ * results are recognized; modules of a composed schema are listed under their namespace.
+ *
+ * @example
+ * ```typescript
+ * const contract = generateIpcContract({ entry: 'packages/ipc/src/index.ts' });
+ * await fs.writeFile('ipc-contract.json', JSON.stringify(contract, null, 2));
+ * ```
+ */
+export function generateIpcContract(options: GenerateIpcContractOptions): IpcContract {
+  const entry = path.resolve(options.entry);
+  const program = createProgram(entry, options.tsconfig);
+  const checker = program.getTypeChecker();
+  const source = program.getSourceFile(entry);
+  const moduleSymbol = source && checker.getSymbolAtLocation(source);
+
+  if (!source || !moduleSymbol) {
+    throw new Error(
+      `Cannot read IPC schemas from '${options.entry}', it is not a module`,
+    );
+  }
+
+  const typeOf = (symbol: ts.Symbol) => checker.getTypeOfSymbolAtLocation(symbol, source);
+  const propertyType = (type: ts.Type, name: string) => {
+    const property = type.getProperty(name);
+    return property && typeOf(property);
+  };
+  const print = (type: ts.Type) => checker.typeToString(type, undefined, TYPE_FORMAT);
+
+  const describeArgs = (type: ts.Type): IpcContractArgument[] => {
+    if (!checker.isTupleType(type)) {
+      return [{ name: 'args', type: print(type), optional: false, rest: true }];
+    }
+
+    const tuple = (type as ts.TypeReference).target as ts.TupleType;
+    return checker.getTypeArguments(type as ts.TypeReference).map((element, index) => {
+      const declaration = tuple.labeledElementDeclarations?.[index];
+      const flags = tuple.elementFlags[index] ?? ts.ElementFlags.Required;
+      const optional = (flags & ts.ElementFlags.Optional) !== 0;
+      // Optional elements are read as `T | undefined`, the `?` already says as much
+      const type =
+        optional && element.isUnion()
+          ? element.types
+              .filter((member) => !(member.flags & ts.TypeFlags.Undefined))
+              .map(print)
+              .join(' | ')
+          : print(element);
+      // Rest elements are read as their element type
+      const isRest = (flags & ts.ElementFlags.Rest) !== 0;
+      return {
+        name:
+          declaration && ts.isIdentifier(declaration.name)
+            ? declaration.name.text
+            : `arg${index}`,
+        type: isRest ? (/^[\w.]+$/.test(type) ? `${type}[]` : `(${type})[]`) : type,
+        optional,
+        rest: isRest || (flags & ts.ElementFlags.Variadic) !== 0,
+      };
+    });
+  };
+
+  const describeChannel = (
+    channel: string,
+    type: ts.Type,
+    kind: IpcContractChannelKind,
+    direction: IpcContractDirection,
+  ): IpcContractChannel => {
+    if (kind === 'store') {
+      const state = propertyType(type, 'state');
+      return state
+        ? { channel, kind, direction, args: [], state: print(state) }
+        : { channel, kind, direction, args: [] };
+    }
+
+    // Event-like sections declare the argument tuple itself
+    const isHandler = kind === 'handler' || kind === 'renderer-handler';
+    if (!isHandler && kind !== 'stream') {
+      return { channel, kind, direction, args: describeArgs(type) };
+    }
+
+    const args = propertyType(type, 'args');
+    const described: IpcContractChannel = {
+      channel,
+      kind,
+      direction,
+      args: args ? describeArgs(args) : [],
+    };
+    const returns = propertyType(type, isHandler ? 'return' : 'final');
+    if (returns) {
+      described.returns = print(returns);
+    }
+    const chunk = kind === 'stream' ? propertyType(type, 'chunk') : undefined;
+    if (chunk) {
+      described.chunk = print(chunk);
+    }
+    const errors = isHandler ? propertyType(type, 'error') : undefined;
+    if (errors && print(errors) !== DEFAULT_ERROR_TYPE) {
+      described.errors = print(errors);
+    }
+    return described;
+  };
+
+  const describeSchema = (
+    definition: ts.Type,
+    schema: Omit<IpcContractSchema, 'channels'>,
+  ): IpcContractSchema => {
+    const channels = SECTIONS.flatMap(([section, kind, direction]) => {
+      const sectionType = propertyType(definition, section);
+      if (!sectionType) {
+        return [];
+      }
+      return checker
+        .getPropertiesOfType(sectionType)
+        .map((channel) =>
+          describeChannel(channel.name, typeOf(channel), kind, direction),
+        );
+    });
+    return { ...schema, channels };
+  };
+
+  // The string literal passed as `apiKey` where the schema is created
+  const readApiKey = (symbol: ts.Symbol): string | undefined => {
+    const declaration = symbol.valueDeclaration;
+    const call =
+      declaration && ts.isVariableDeclaration(declaration)
+        ? declaration.initializer
+        : undefined;
+    const config = call && ts.isCallExpression(call) ? call.arguments[0] : undefined;
+    if (!config || !ts.isObjectLiteralExpression(config)) {
+      return undefined;
+    }
+
+    const property = config.properties.find(
+      (candidate): candidate is ts.PropertyAssignment =>
+        ts.isPropertyAssignment(candidate) && candidate.name.getText() === 'apiKey',
+    );
+    return property && ts.isStringLiteralLike(property.initializer)
+      ? property.initializer.text
+      : undefined;
+  };
+
+  const schemas: IpcContractSchema[] = [];
+
+  for (const exported of checker.getExportsOfModule(moduleSymbol)) {
+    const exportName = exported.name;
+    if (options.exports && !options.exports.includes(exportName)) {
+      continue;
+    }
+
+    const symbol =
+      exported.flags & ts.SymbolFlags.Alias
+        ? checker.getAliasedSymbol(exported)
+        : exported;
+    const type = typeOf(symbol);
+    const apiKey = readApiKey(symbol);
+    const definition = propertyType(type, 'definition');
+
+    if (definition) {
+      schemas.push(describeSchema(definition, { exportName, apiKey }));
+      continue;
+    }
+
+    // Composed schemas hold one schema API, with its own definition, per namespace
+    if (!type.getProperty('exposeInPreload')) {
+      continue;
+    }
+    for (const property of type.getProperties()) {
+      const moduleDefinition = propertyType(typeOf(property), 'definition');
+      if (moduleDefinition) {
+        schemas.push(
+          describeSchema(moduleDefinition, {
+            exportName,
+            apiKey,
+            namespace: property.name,
+          }),
+        );
+      }
+    }
+  }
+
+  const missing = options.exports?.filter(
+    (name) => !schemas.some((schema) => schema.exportName === name),
+  );
+  if (missing && missing.length > 0) {
+    throw new Error(
+      `No IPC schema exported as ${missing.map((name) => `'${name}'`).join(', ')} from '${options.entry}'`,
+    );
+  }
+
+  return { version: 1, schemas };
+}
@@ -0,0 +1,3 @@
+export * from './generate-ipc-contract';
+export * from './render-ipc-contract-markdown';
+export * from './write-ipc-contract';
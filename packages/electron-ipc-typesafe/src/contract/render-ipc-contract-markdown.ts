@@ -0,0 +1,91 @@
+import type {
+  IpcContract,
+  IpcContractArgument,
+  IpcContractChannel,
+  IpcContractChannelKind,
+  IpcContractSchema,
+} from '../types';
+
+// Section titles and extra columns, in the order sections are rendered
+const KIND_SECTIONS: [
+  kind: IpcContractChannelKind,
+  title: string,
+  columns: ('returns' | 'chunk' | 'errors' | 'state')[],
+][] = [
+  ['handler', 'Handlers (renderer → main)', ['returns', 'errors']],
+  ['stream', 'Streams (renderer → main)', ['chunk', 'returns']],
+  ['event', 'Events (main → renderer)', []],
+  ['renderer-event', 'Renderer events (renderer → main)', []],
+  ['relay', 'Relays (renderer → renderer)', []],
+  ['store', 'Stores (main → renderer)', ['state']],
+  ['renderer-handler', 'Renderer handlers (main → renderer)', ['returns', 'errors']],
+];
+
+const COLUMN_TITLES = {
+  returns: 'Returns',
+  chunk: 'Chunk',
+  errors: 'Errors',
+  state: 'State',
+};
+
+// Types are printed in code spans inside table cells, where pipes and newlines would
+// break the table
+function code(text: string): string {
+  return `\`${text.replace(/\s*\n\s*/g, ' ').replace(/\|/g, '\\|')}\``;
+}
+
+function formatArgument(argument: IpcContractArgument): string {
+  const name = `${argument.rest ? '...' : ''}${argument.name}${argument.optional ? '?' : ''}`;
+  return `${name}: ${argument.type}`;
+}
+
+function renderTable(
+  channels: IpcContractChannel[],
+  columns: (keyof typeof COLUMN_TITLES)[],
+) {
+  const titles = [
+    'Channel',
+    'Arguments',
+    ...columns.map((column) => COLUMN_TITLES[column]),
+  ];
+  const rows = channels.map((channel) => [
+    code(channel.channel),
+    channel.args.length > 0 ? code(channel.args.map(formatArgument).join(', ')) : '—',
+    ...columns.map((column) => {
+      const value = channel[column];
+      return value === undefined ? '—' : code(value);
+    }),
+  ]);
+
+  return [titles, titles.map(() => '---'), ...rows]
+    .map((cells) => `| ${cells.join(' | ')} |`)
+    .join('\n');
+}
+
+function renderSchema(schema: IpcContractSchema): string {
+  const title = schema.namespace
+    ? `${schema.exportName}.${schema.namespace}`
+    : schema.exportName;
+  const parts = [`## ${title}`];
+
+  if (schema.apiKey) {
+    parts.push(`API key: ${code(schema.apiKey)}`);
+  }
+
+  for (const [kind, sectionTitle, columns] of KIND_SECTIONS) {
+    const channels = schema.channels.filter((channel) => channel.kind === kind);
+    if (channels.length > 0) {
+      parts.push(`### ${sectionTitle}`, renderTable(channels, columns));
+    }
+  }
+
+  return parts.join('\n\n');
+}
+
+/**
+ * Renders a contract as Markdown, one section per schema and one table per kind of
+ * channel, for reviewing IPC changes in pull requests.
+ */
+export function renderIpcContractMarkdown(contract: IpcContract): string {
+  return `${['# IPC Contract', ...contract.schemas.map(renderSchema)].join('\n\n')}\n`;
+}
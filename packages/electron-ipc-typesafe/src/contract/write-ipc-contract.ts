@@ -0,0 +1,62 @@
+import type { GenerateIpcContractOptions } from './generate-ipc-contract';
+import { readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { generateIpcContract } from './generate-ipc-contract';
+import { renderIpcContractMarkdown } from './render-ipc-contract-markdown';
+
+export interface WriteIpcContractOptions extends GenerateIpcContractOptions {
+  /** Directory receiving `<name>.json` and `<name>.md`; defaults to the working directory */
+  outDir?: string;
+  /** Base name of the written files, `ipc-contract` by default */
+  name?: string;
+  /** Compares with the files on disk instead of writing them */
+  check?: boolean;
+}
+
+export interface WriteIpcContractResult {
+  files: string[];
+  /** Files whose content differs from the generated one (all of them when writing) */
+  changed: string[];
+}
+
+async function readExisting(file: string): Promise<string | undefined> {
+  try {
+    return await readFile(file, 'utf8');
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Generates the contract of the schemas exported by `entry` and writes it as JSON and
+ * Markdown. With `check`, nothing is written and `changed` lists the outdated files, so
+ * CI can fail when the IPC surface changed without the contract being updated.
+ */
+export async function writeIpcContract(
+  options: WriteIpcContractOptions,
+): Promise<WriteIpcContractResult> {
+  const {
+    outDir = '.',
+    name = 'ipc-contract',
+    check = false,
+    ...generateOptions
+  } = options;
+  const contract = generateIpcContract(generateOptions);
+  const outputs: [file: string, content: string][] = [
+    [path.resolve(outDir, `${name}.json`), `${JSON.stringify(contract, null, 2)}\n`],
+    [path.resolve(outDir, `${name}.md`), renderIpcContractMarkdown(contract)],
+  ];
+
+  const changed: string[] = [];
+  for (const [file, content] of outputs) {
+    if ((await readExisting(file)) === content) {
+      continue;
+    }
+    changed.push(file);
+    if (!check) {
+      await writeFile(file, content);
+    }
+  }
+
+  return { files: outputs.map(([file]) => file), changed };
+}
@@ -1,49 +1,135 @@
-import type { BrowserWindow, IpcRenderer } from 'electron';
+import type { BrowserWindow, IpcRenderer, WebContents } from 'electron';
+import type { IpcMainContext } from './ipc-main-context';
+import type { IpcScope } from './ipc-scope';
 import type {
+  BroadcastFilter,
   EventSchema,
+  EventSchemaToBroadcasters,
   EventSchemaToSenders,
   EventSchemaToSubscribers,
+  EventSchemaToWebContentsSenders,
+  IpcSerializer,
 } from './types';
 import { camelCase } from 'change-case';
-import { getIpcApi } from './get-ipc-api';
+import { deserializeArgs, serializeArgs } from './create-ipc-serializer';
+import { selectWindowContents } from './ipc-main-context';
+import { resolveScope } from './ipc-scope';
+import { startTrace } from './ipc-trace';
+import { getEventOptions } from './schema-options';
+import { validateSchema } from './validate-schema';
 
 // Overload 1: Using event schema (recommended)
 export function createIpcEvents<TEventSchema extends EventSchema>(
-  apiKey: string,
+  scope: IpcScope | string,
   events: TEventSchema,
+  context?: IpcMainContext,
+  exposeKey?: string,
+  serializer?: IpcSerializer,
 ): {
   exposeInPreload: (ipcRenderer: IpcRenderer) => any;
   send: EventSchemaToSenders<TEventSchema>;
+  sendTo: EventSchemaToWebContentsSenders<TEventSchema>;
+  broadcast: EventSchemaToBroadcasters<TEventSchema>;
+  broadcastTo: (filter: BroadcastFilter) => EventSchemaToBroadcasters<TEventSchema>;
   listeners: EventSchemaToSubscribers<TEventSchema>;
 };
 
 // Implementation
 export function createIpcEvents<TEventSchema extends EventSchema>(
-  apiKey: string,
+  scope: IpcScope | string,
   events: TEventSchema,
+  context: IpcMainContext = {},
+  // Key the preload part is exposed under, where renderer listeners look it up
+  exposeKey = 'events',
+  serializer?: IpcSerializer,
 ): any {
+  const { wire, api: getApi } = resolveScope(scope);
   const eventEntries = Object.entries(events);
 
+  // Send to one webContents, traced when a tracer was passed to registerMainHandlers
+  const deliver = (webContents: WebContents, channel: string, data: unknown[]) => {
+    const finishTrace = startTrace(context, {
+      channel: wire(channel),
+      kind: 'event',
+      direction: 'main-to-renderer',
+      webContents,
+      args: data,
+    });
+    try {
+      webContents.send(wire(channel), ...serializeArgs(serializer, data));
+    } catch (error) {
+      finishTrace({ error });
+      throw error;
+    }
+    finishTrace();
+  };
+
   // Create send object for main process use
   const send = {} as any;
   eventEntries.forEach(([channel]) => {
     (send as any)[camelCase(channel)] = (win: BrowserWindow, ...data: any[]) => {
-      win.webContents.send(channel, ...data);
+      deliver(win.webContents, channel, data);
+    };
+  });
+
+  // Create sendTo object for webContents that are not BrowserWindows (webviews, ...)
+  const sendTo = {} as any;
+  eventEntries.forEach(([channel]) => {
+    sendTo[camelCase(channel)] = (webContents: WebContents, ...data: any[]) => {
+      deliver(webContents, channel, data);
     };
   });
 
+  const createBroadcasters = (filter?: BroadcastFilter) => {
+    const broadcasters = {} as any;
+    eventEntries.forEach(([channel]) => {
+      broadcasters[camelCase(channel)] = (...data: any[]) => {
+        const targets = selectWindowContents(context, filter);
+        targets.forEach((webContents) => deliver(webContents, channel, data));
+        return targets.length;
+      };
+    });
+    return broadcasters;
+  };
+
+  // Create broadcast object sending to every open window
+  const broadcast = createBroadcasters();
+
+  // Wrap a callback so it gets the payload decoded and checked against the channel's
+  // validator; payloads failing either are dropped rather than delivered
+  const toListener =
+    (channel: string, callback: (...data: any[]) => void) =>
+    (...data: unknown[]) => {
+      const argsSchema = getEventOptions(events[channel]).args;
+      let args: unknown[];
+      try {
+        args = deserializeArgs(serializer, data);
+      } catch (error) {
+        console.error(error);
+        return;
+      }
+      if (!argsSchema) {
+        callback(...args);
+        return;
+      }
+      validateSchema(argsSchema, args, { channel, target: 'args' }).then(
+        (parsed) => callback(...parsed),
+        (error) => console.error(error),
+      );
+    };
+
   // Create listener methods for renderer use
   const listeners = {} as any;
   eventEntries.forEach(([channel]) => {
     const onMethodName = `on${camelCase(channel).charAt(0).toUpperCase() + camelCase(channel).slice(1)}`;
     (listeners as any)[onMethodName] = (callback: (...data: any[]) => void) => {
-      const api = getIpcApi(apiKey);
-      if (!api) {
-        throw new Error(
-          `IPC with API key ${apiKey} not available, make sure you are in an Electron renderer process, and exposeInPreload has been called in the preload script and '${apiKey}' key exported`,
-        );
+      const preload = getApi()[exposeKey];
+      // Payloads are decoded on this side of the context bridge, which would otherwise
+      // strip values of the serializer's types down to plain objects
+      if (typeof preload.$on === 'function') {
+        return preload.$on(channel, toListener(channel, callback));
       }
-      return (api as any)[onMethodName](callback);
+      return preload[onMethodName](callback);
     };
   });
 
@@ -51,26 +137,43 @@ export function createIpcEvents<TEventSchema extends EventSchema>(
   const exposeInPreload = (ipcRenderer: IpcRenderer) => {
     const api: any = {};
 
+    // Subscribe a listener to a channel, calling it with the payload as received
+    const subscribe = (channel: string, callback: (...data: any[]) => void) => {
+      const listener = (_event: any, ...args: any[]) => callback(...args);
+      ipcRenderer.on(wire(channel), listener);
+
+      // Return unsubscribe function
+      return () => {
+        ipcRenderer.removeListener(wire(channel), listener);
+      };
+    };
+
     // Add listeners for renderer events
     eventEntries.forEach(([channel]) => {
       const onMethodName = `on${camelCase(channel).charAt(0).toUpperCase() + camelCase(channel).slice(1)}`;
-      api[onMethodName] = (callback: (...data: any[]) => void) => {
-        const listener = (_event: any, ...args: any[]) => callback(...args);
-        ipcRenderer.on(channel, listener);
-
-        // Return unsubscribe function
-        return () => {
-          ipcRenderer.removeListener(channel, listener);
-        };
-      };
+      api[onMethodName] = (callback: (...data: any[]) => void) =>
+        subscribe(channel, toListener(channel, callback));
     });
 
+    // Raw subscription leaving decoding and validation to the page, used by `listeners`
+    if (serializer) {
+      api.$on = (channel: string, callback: (...data: any[]) => void) => {
+        if (!Object.hasOwn(events, channel)) {
+          throw new Error(`Unknown IPC channel '${channel}'`);
+        }
+        return subscribe(channel, callback);
+      };
+    }
+
     return api;
   };
 
   return {
     exposeInPreload,
     send,
+    sendTo,
+    broadcast,
+    broadcastTo: createBroadcasters,
     listeners,
   };
 }
@@ -1,30 +1,380 @@
-import type { IpcMain, IpcRenderer } from 'electron';
+import type { IpcMain, IpcMainInvokeEvent, IpcRenderer, WebContents } from 'electron';
+import type { IpcMainContext } from './ipc-main-context';
+import type { IpcScope } from './ipc-scope';
 
 import type {
+  InvokeObject,
+  InvokeOptions,
+  IpcChannelSecurity,
   IpcHandlerSchemas,
+  IpcMiddleware,
+  IpcPort,
+  IpcRateLimitViolation,
+  IpcSecurityViolation,
+  IpcSerializer,
   SchemaToHandler,
   TransformSchemasToInvokers,
+  UseMiddleware,
 } from './types';
 import { camelCase } from 'change-case';
 
-import { getIpcApi } from './get-ipc-api';
+import { createCallLimiter } from './call-limiter';
+import { checkSender } from './check-sender';
+import { deserializeArgs, serializeArgs } from './create-ipc-serializer';
+import { IpcError, IpcRateLimitError, IpcSecurityError, IpcTimeoutError } from './errors';
+import { BATCH_CHANNEL, createInvokeTransport, isBatchedCall } from './invoke-transport';
+import { invokeWithOptions, isIpcRequest } from './ipc-request';
+import {
+  createIpcErrorResponse,
+  createIpcResponse,
+  unwrapIpcResponse,
+} from './ipc-response';
+import { resolveScope } from './ipc-scope';
+import { startTrace } from './ipc-trace';
+import { createPortCaller, servePort } from './port-rpc';
+import { runMiddleware } from './run-middleware';
+import { getHandlerOptions } from './schema-options';
+import { serializeError } from './serialize-error';
+import {
+  createTransferClient,
+  offerTransferPort,
+  serveTransferPorts,
+  TRANSFER_CHANNELS,
+} from './transfer-port';
+import { validateSchema } from './validate-schema';
+
+// Marks the events of calls made in main itself or over a served port, which have no
+// renderer behind them, holding an id that tells their callers apart
+const LOCAL_CALLER = Symbol('localCaller');
+let nextLocalCaller = 0;
+
+function createLocalEvent(): IpcMainInvokeEvent {
+  return {
+    sender: null,
+    senderFrame: null,
+    processId: 0,
+    frameId: 0,
+    [LOCAL_CALLER]: `local-${nextLocalCaller++}`,
+  } as unknown as IpcMainInvokeEvent;
+}
+
+// Identifies the frame a call came from, so one frame cannot abort another's calls
+function getFrameKey(event: IpcMainInvokeEvent): string {
+  return `${event.sender.id}:${event.processId}:${event.frameId}`;
+}
+
+// The timeout a call asks for comes from the renderer, so it is only taken when it is a
+// usable number and may shorten the configured timeout, never extend it
+function resolveTimeout(
+  requested: unknown,
+  configured: number | undefined,
+): number | undefined {
+  if (typeof requested !== 'number' || !Number.isFinite(requested) || requested <= 0) {
+    return configured;
+  }
+  return configured === undefined ? requested : Math.min(requested, configured);
+}
 
 export function createIpcHandlers<THandlerSchemas extends IpcHandlerSchemas>(
-  apiKey: string,
+  scope: IpcScope | string,
   handlers: THandlerSchemas,
+  schemaOptions: {
+    timeoutMs?: number;
+    middleware?: IpcMiddleware[];
+    security?: Record<string, IpcChannelSecurity | undefined>;
+    batching?: boolean;
+    serializer?: IpcSerializer;
+  } = {},
+  mainContext: IpcMainContext = {},
 ): {
   registerHandler: <K extends keyof THandlerSchemas>(
     channel: K,
     handler: SchemaToHandler<THandlerSchemas[K]>,
   ) => () => void;
+  use: UseMiddleware<THandlerSchemas>;
   registerMainHandlers: (ipcMain: IpcMain) => void;
+  getMissingHandlers: () => string[];
   registerInvokers: (ipcRenderer: IpcRenderer) => any;
-  getInvokeObject: () => TransformSchemasToInvokers<THandlerSchemas>;
+  getInvokeObject: () => InvokeObject<THandlerSchemas>;
   getExposeInPreloadHandlersPart: (ipcRenderer: IpcRenderer) => any;
+  createDirectClient: () => InvokeObject<THandlerSchemas>;
+  serveHandlers: (port: IpcPort) => () => void;
+  createPortClient: (port: IpcPort | Promise<IpcPort>) => InvokeObject<THandlerSchemas>;
 } {
+  const { wire, api: getApi } = resolveScope(scope);
+  const { serializer } = schemaOptions;
+
   // Store registered handlers
   const registeredHandlers: Record<string, any> = {};
   let ipcMainInstance: IpcMain | null = null;
+  // Controllers of in-flight cancellable calls, keyed by sender, channel and call id
+  const pendingCalls = new Map<string, AbortController>();
+  // Controllers of every in-flight call per renderer, with their channel
+  const senderCalls = new Map<
+    WebContents,
+    { calls: Map<AbortController, string>; unwatch: () => void }
+  >();
+  // Middleware added at runtime with `use`, global and per channel
+  const globalMiddleware: IpcMiddleware[] = [...(schemaOptions.middleware ?? [])];
+  const channelMiddleware = new Map<string, IpcMiddleware<any, any>[]>();
+  // Calls of each window per channel, checked against the rate and concurrency limits
+  const limiter = createCallLimiter();
+  // Whether any handler moves its buffers, needing a transfer port
+  const hasTransfer = Object.keys(handlers).some(
+    (channel) => getHandlerOptions(handlers[channel]).transfer,
+  );
+
+  const createCancelledError = (channel: string) =>
+    new IpcError(`Call to '${channel}' was cancelled`, { code: 'IPC_CANCELLED' });
+
+  // Track a renderer's call until it settles. A reloaded, navigated, crashed or
+  // destroyed page waits for none of its calls, so their handlers are aborted
+  const trackSenderCall = (
+    webContents: WebContents,
+    channel: string,
+    controller: AbortController,
+  ): (() => void) => {
+    // Stand-in senders without events, e.g. in unit tests, cannot be watched
+    if (typeof webContents?.on !== 'function') {
+      return () => {};
+    }
+    let watched = senderCalls.get(webContents);
+    if (!watched) {
+      const calls = new Map<AbortController, string>();
+      const onPageGone = () => {
+        calls.forEach((name, pending) => pending.abort(createCancelledError(name)));
+      };
+      webContents.on('did-navigate', onPageGone);
+      webContents.on('render-process-gone', onPageGone);
+      webContents.on('destroyed', onPageGone);
+      // Listeners are only kept while the renderer has calls in flight
+      const unwatch = () => {
+        senderCalls.delete(webContents);
+        webContents.removeListener('did-navigate', onPageGone);
+        webContents.removeListener('render-process-gone', onPageGone);
+        webContents.removeListener('destroyed', onPageGone);
+      };
+      watched = { calls, unwatch };
+      senderCalls.set(webContents, watched);
+    }
+
+    const { calls, unwatch } = watched;
+    calls.set(controller, channel);
+    return () => {
+      calls.delete(controller);
+      if (calls.size === 0) {
+        unwatch();
+      }
+    };
+  };
+
+  // Wrap a handler so its result, or the error it throws, travels back as a
+  // response envelope the renderer can unwrap into a value or a typed error
+  const createMainHandler = (channel: string, handler: (...args: any[]) => any) => {
+    const options = getHandlerOptions(handlers[channel]);
+    const argsSchema = options.args;
+    const returnSchema = options.return;
+    const security = schemaOptions.security?.[channel];
+    const hasLimits =
+      options.rateLimit !== undefined || options.maxConcurrency !== undefined;
+
+    // Reject unwanted senders before their arguments are even parsed
+    const assertAllowedSender = (event: IpcMainInvokeEvent) => {
+      const violation = security && checkSender(channel, event, security, mainContext);
+      if (violation) {
+        reportViolation(violation);
+        throw new IpcSecurityError(channel, violation.reason);
+      }
+    };
+
+    return async (event: IpcMainInvokeEvent, ...data: unknown[]) => {
+      // Cancellable calls arrive wrapped in a request envelope carrying their id
+      const request = data.length === 1 && isIpcRequest(data[0]) ? data[0] : null;
+      // Trusted callers in main have no sender to check or trace
+      const localCaller = (event as any)[LOCAL_CALLER] as string | undefined;
+      const callKey = request
+        ? `${localCaller ?? getFrameKey(event)}:${channel}:${request.id}`
+        : null;
+
+      if (request && 'abort' in request) {
+        try {
+          if (!localCaller) {
+            assertAllowedSender(event);
+          }
+        } catch (error) {
+          return createIpcErrorResponse(serializeError(error, channel));
+        }
+        pendingCalls.get(callKey!)?.abort(createCancelledError(channel));
+        return createIpcResponse(undefined);
+      }
+
+      const payload = request ? request.args : data;
+      const finishTrace = localCaller
+        ? () => {}
+        : startTrace(mainContext, {
+            channel: wire(channel),
+            kind: 'invoke',
+            direction: 'renderer-to-main',
+            webContents: event.sender,
+            args: payload,
+          });
+      const controller = new AbortController();
+      if (callKey) {
+        pendingCalls.set(callKey, controller);
+      }
+      const untrackCall = localCaller
+        ? () => {}
+        : trackSenderCall(event.sender, channel, controller);
+
+      let endCall = () => {};
+      let failure: { error: unknown } | undefined;
+      try {
+        if (!localCaller) {
+          assertAllowedSender(event);
+        }
+        if (hasLimits && !localCaller) {
+          const acquired = limiter.acquire(channel, event.sender.id, options);
+          if (acquired instanceof IpcRateLimitError) {
+            reportRateLimit({
+              channel,
+              reason: acquired.reason,
+              limit:
+                acquired.reason === 'rate'
+                  ? options.rateLimit!.limit
+                  : options.maxConcurrency!,
+              windowName: mainContext.windows?.getWindowName(event.sender),
+              event,
+            });
+            throw acquired;
+          }
+          endCall = acquired;
+        }
+
+        const decoded = deserializeArgs(serializer, payload);
+        const args = argsSchema
+          ? await validateSchema(argsSchema, decoded, { channel, target: 'args' })
+          : decoded;
+        const timeoutMs = resolveTimeout(
+          request && 'args' in request ? request.timeoutMs : undefined,
+          options.timeoutMs ?? schemaOptions.timeoutMs,
+        );
+        const handlerEvent = Object.assign(event, { signal: controller.signal });
+        const context = {
+          channel,
+          args,
+          event: handlerEvent,
+          senderFrame: event.senderFrame,
+        };
+        const middleware = [
+          ...globalMiddleware,
+          ...(options.middleware ?? []),
+          ...(channelMiddleware.get(channel) ?? []),
+        ];
+        const pending = runMiddleware(middleware, context, () =>
+          handler(handlerEvent, ...context.args),
+        );
+        // The call keeps its concurrency slot until the handler settles, even when it
+        // outlives its timeout
+        const releaseSlot = endCall;
+        endCall = () => {};
+        void pending.then(releaseSlot, releaseSlot);
+        const result = await (timeoutMs === undefined
+          ? pending
+          : withTimeout(channel, pending, timeoutMs, controller));
+        const value = returnSchema
+          ? await validateSchema(returnSchema, result, { channel, target: 'return' })
+          : result;
+        return createIpcResponse(serializer ? serializer.serialize(value) : value);
+      } catch (error) {
+        failure = { error };
+        // Keep Electron's default logging for failures raised by handler code, unless
+        // the handler merely gave up after being cancelled
+        if (!(error instanceof IpcError) && !controller.signal.aborted) {
+          console.error(`Error occurred in handler for '${channel}':`, error);
+        }
+        return createIpcErrorResponse(serializeError(error, channel));
+      } finally {
+        endCall();
+        if (callKey) {
+          pendingCalls.delete(callKey);
+        }
+        untrackCall();
+        // Traced once the response is settled, so the tracer cannot change it
+        finishTrace(failure);
+      }
+    };
+  };
+
+  // A failing audit hook must not turn a rejection into an unexpected error
+  const reportViolation = (violation: IpcSecurityViolation) => {
+    try {
+      mainContext.onSecurityViolation?.(violation);
+    } catch (error) {
+      console.error(
+        `Error occurred in onSecurityViolation for '${violation.channel}':`,
+        error,
+      );
+    }
+  };
+
+  // A failing logging hook must not turn a rejection into an unexpected error
+  const reportRateLimit = (violation: IpcRateLimitViolation) => {
+    try {
+      mainContext.onRateLimit?.(violation);
+    } catch (error) {
+      console.error(`Error occurred in onRateLimit for '${violation.channel}':`, error);
+    }
+  };
+
+  // Settle with an IpcTimeoutError once the handler runs too long, aborting its signal
+  const withTimeout = async (
+    channel: string,
+    pending: Promise<unknown>,
+    timeoutMs: number,
+    controller: AbortController,
+  ) => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_resolve, reject) => {
+      timer = setTimeout(() => {
+        const error = new IpcTimeoutError(channel, timeoutMs);
+        console.error(`Handler for '${channel}' timed out after ${timeoutMs}ms`);
+        controller.abort(error);
+        reject(error);
+      }, timeoutMs);
+    });
+    // The handler may still fail after the timeout, with nobody left to report to
+    pending.catch(() => {});
+
+    try {
+      return await Promise.race([pending, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+
+  // Per-channel middleware added with `use`, created on first use
+  const channelMiddlewareFor = (channel: string) => {
+    if (!channelMiddleware.has(channel)) {
+      channelMiddleware.set(channel, []);
+    }
+    return channelMiddleware.get(channel)!;
+  };
+
+  // Add middleware for every channel, or for one channel when one is given
+  const use = ((...params: [IpcMiddleware] | [string, IpcMiddleware]) => {
+    const [channel, middleware] =
+      params.length === 1 ? [null, params[0]] : [params[0], params[1]];
+    const list = channel === null ? globalMiddleware : channelMiddlewareFor(channel);
+    list.push(middleware);
+
+    // Return cleanup function
+    return () => {
+      const index = list.indexOf(middleware);
+      if (index !== -1) {
+        list.splice(index, 1);
+      }
+    };
+  }) as UseMiddleware<THandlerSchemas>;
 
   // Register a handler implementation
   const registerHandler = <K extends keyof THandlerSchemas>(
@@ -32,11 +382,12 @@ export function createIpcHandlers<THandlerSchemas extends IpcHandlerSchemas>(
     handler: SchemaToHandler<THandlerSchemas[K]>,
   ): (() => void) => {
     const channelStr = channel as string;
-    registeredHandlers[channelStr] = handler;
+    const mainHandler = createMainHandler(channelStr, handler);
+    registeredHandlers[channelStr] = mainHandler;
 
     // If main IPC is already registered, immediately register this handler
     if (ipcMainInstance) {
-      ipcMainInstance.handle(channelStr, handler);
+      ipcMainInstance.handle(wire(channelStr), mainHandler);
     }
 
     // Return cleanup function
@@ -46,71 +397,246 @@ export function createIpcHandlers<THandlerSchemas extends IpcHandlerSchemas>(
 
       // Remove from ipcMain if it's registered
       if (ipcMainInstance) {
-        ipcMainInstance.removeHandler(channelStr);
+        ipcMainInstance.removeHandler(wire(channelStr));
       }
     };
   };
 
+  // Run a call arriving in a batch or over a port, or made in main, answering with its
+  // response
+  const runCall = async (event: IpcMainInvokeEvent, channel: string, args: unknown[]) => {
+    const handler = Object.hasOwn(registeredHandlers, channel)
+      ? registeredHandlers[channel]
+      : null;
+    if (!handler) {
+      const error = new Error(`No handler registered for '${wire(channel)}'`);
+      return createIpcErrorResponse(serializeError(error, channel));
+    }
+    // Each call gets its own event, as handlers attach their signal to it
+    return handler(Object.create(event), ...args);
+  };
+
+  // Run the calls of a batch side by side, answering each with its own response
+  const handleBatch = async (event: IpcMainInvokeEvent, calls: unknown) => {
+    if (!Array.isArray(calls)) {
+      throw new TypeError('Expected an array of batched calls');
+    }
+    return Promise.all(
+      calls.map(async (call: unknown) => {
+        if (!isBatchedCall(call)) {
+          return createIpcErrorResponse(
+            serializeError(new TypeError('Malformed batched call')),
+          );
+        }
+        return runCall(event, call.channel, call.args);
+      }),
+    );
+  };
+
   // Register all handlers with IpcMain
   const registerMainHandlers = (ipcMain: IpcMain) => {
     ipcMainInstance = ipcMain;
 
     // Register any already-registered handlers
     Object.entries(registeredHandlers).forEach(([channel, handler]) => {
-      ipcMain.handle(channel, handler);
+      ipcMain.handle(wire(channel), handler);
     });
+
+    if (schemaOptions.batching) {
+      ipcMain.handle(wire(BATCH_CHANNEL), handleBatch);
+    }
+    if (hasTransfer) {
+      serveTransferPorts(ipcMain, wire(TRANSFER_CHANNELS.handlers), async (event, call) =>
+        runCall(event, call.channel, call.args),
+      );
+    }
+  };
+
+  // Unwraps a response, decoding the value when the schema has a serializer
+  const receive = (response: unknown) => {
+    const value = unwrapIpcResponse(response);
+    return serializer ? serializer.deserialize(value) : value;
   };
 
+  // Preload-side sender shared by every invoker of a renderer
+  const createTransport = (ipcRenderer: IpcRenderer) =>
+    createInvokeTransport(ipcRenderer, {
+      wire,
+      batching: schemaOptions.batching ?? false,
+      isIdempotent: (channel) => getHandlerOptions(handlers[channel]).idempotent === true,
+    });
+
+  // Wire channels of declared handlers without an implementation
+  const getMissingHandlers = () =>
+    Object.keys(handlers)
+      .filter((channel) => !Object.hasOwn(registeredHandlers, channel))
+      .map(wire);
+
   // Register invokers in preload (legacy support)
   const registerInvokers = (ipcRenderer: IpcRenderer) => {
     const invokerEntries: any = {};
+    const transport = createTransport(ipcRenderer);
 
     Object.keys(handlers).forEach((channel) => {
-      invokerEntries[camelCase(channel)] = (...data: any[]) =>
-        ipcRenderer.invoke(channel, ...data);
+      invokerEntries[camelCase(channel)] = async (...data: any[]) =>
+        receive(await transport(channel, serializeArgs(serializer, data)));
     });
 
     return invokerEntries;
   };
 
-  // Get invoke object for renderer use
-  const getInvokeObject = (): TransformSchemasToInvokers<THandlerSchemas> => {
-    const invoke = {} as TransformSchemasToInvokers<THandlerSchemas>;
-    Object.keys(handlers).forEach((channel) => {
-      (invoke as any)[camelCase(channel)] = (...data: any) => {
-        const api = getIpcApi(apiKey);
-        if (!api)
-          throw new Error(
-            `IPC with API key ${apiKey} not available, make sure you are in an Electron renderer process, and exposeInPreload has been called in the preload script and '${apiKey}' key exported`,
+  // Typed invokers sending each call with `send`, which resolves with the raw response
+  const createClient = (
+    send: (channel: string, args: unknown[]) => Promise<unknown>,
+  ): InvokeObject<THandlerSchemas> => {
+    const createInvokers = (options: InvokeOptions = {}) => {
+      const invoke: any = {};
+      Object.keys(handlers).forEach((channel) => {
+        invoke[camelCase(channel)] = async (...data: any[]) => {
+          const sendCall = async (...args: unknown[]) => send(channel, args);
+          return receive(
+            await invokeWithOptions(sendCall, serializeArgs(serializer, data), options),
           );
-        return (api as any)[camelCase(channel)](...data);
-      };
-    });
-    return invoke;
+        };
+      });
+      return invoke;
+    };
+
+    return Object.assign(createInvokers(), { withOptions: createInvokers });
+  };
+
+  // Invokers calling the handlers registered in this process, without IPC but through
+  // the same validation, middleware and timeouts
+  const createDirectClient = () => {
+    const event = createLocalEvent();
+    return createClient(async (channel, args) => runCall(event, channel, args));
+  };
+
+  // Answer the calls arriving on a port, e.g. from a utility process
+  const serveHandlers = (port: IpcPort) => {
+    const event = createLocalEvent();
+    return servePort(port, async (call) => runCall(event, call.channel, call.args));
+  };
+
+  // Milliseconds the caller of a port waits for an answer, as long as main lets the
+  // handler run; abort requests are answered right away
+  const getPortTimeout = (channel: string, args: unknown[]) => {
+    const request = args.length === 1 && isIpcRequest(args[0]) ? args[0] : null;
+    if (request && 'abort' in request) {
+      return undefined;
+    }
+    return resolveTimeout(
+      request?.timeoutMs,
+      getHandlerOptions(handlers[channel]).timeoutMs ?? schemaOptions.timeoutMs,
+    );
+  };
+
+  // Invokers for the other end of a port passed to `serveHandlers`
+  const createPortClient = (port: IpcPort | Promise<IpcPort>) => {
+    const caller = createPortCaller(async () => port);
+    return createClient(async (channel, args) =>
+      caller.call(channel, args, getPortTimeout(channel, args)),
+    );
+  };
+
+  // Page side of the port carrying transferable calls, opened on first use
+  let transferClient: ReturnType<typeof createTransferClient> | null = null;
+  const getTransferClient = () => {
+    transferClient ??= createTransferClient((nonce) => getApi().$invokePort(nonce));
+    return transferClient;
+  };
+
+  // Get invoke object for renderer use
+  const getInvokeObject = (): InvokeObject<THandlerSchemas> => {
+    const createInvokers = (options: InvokeOptions = {}) => {
+      const invoke = {} as TransformSchemasToInvokers<THandlerSchemas>;
+      Object.keys(handlers).forEach((channel) => {
+        const transfer = getHandlerOptions(handlers[channel]).transfer === true;
+        (invoke as any)[camelCase(channel)] = (...data: any) => {
+          const api = getApi();
+          // Transferable calls skip the context bridge, which would copy their buffers
+          if (transfer && typeof api.$invokePort === 'function') {
+            const send = async (...args: unknown[]) =>
+              getTransferClient().call(channel, args, getPortTimeout(channel, args));
+            return invokeWithOptions(send, serializeArgs(serializer, data), options).then(
+              receive,
+            );
+          }
+          // Prefer the raw transport so typed errors, and values of the serializer's
+          // types, are rebuilt on this side of the context bridge, which would otherwise
+          // strip them down to plain objects
+          if (typeof api.$invoke === 'function') {
+            const send = async (...args: unknown[]) => api.$invoke(channel, ...args);
+            return invokeWithOptions(send, serializeArgs(serializer, data), options).then(
+              receive,
+            );
+          }
+          return api[camelCase(channel)](...data);
+        };
+      });
+      return invoke;
+    };
+
+    return Object.assign(createInvokers(), { withOptions: createInvokers });
   };
 
   // Get the handlers part for exposeInPreload
   const getExposeInPreloadHandlersPart = (ipcRenderer: IpcRenderer) => {
     const api: any = {};
     const invokeObj: any = {};
+    const transport = createTransport(ipcRenderer);
 
     Object.keys(handlers).forEach((channel) => {
-      const invoker = (...data: any[]) => ipcRenderer.invoke(channel, ...data);
+      const invoker = async (...data: any[]) =>
+        receive(await transport(channel, serializeArgs(serializer, data)));
       api[camelCase(channel)] = invoker;
       invokeObj[camelCase(channel)] = invoker;
     });
 
+    // Options-bound invokers; signals cannot cross the context bridge, so this is
+    // only usable from preload code
+    invokeObj.withOptions = (options: InvokeOptions) => {
+      const bound: any = {};
+      Object.keys(handlers).forEach((channel) => {
+        const send = async (...args: unknown[]) => transport(channel, args);
+        bound[camelCase(channel)] = async (...data: any[]) =>
+          receive(
+            await invokeWithOptions(send, serializeArgs(serializer, data), options),
+          );
+      });
+      return bound;
+    };
+
     // Add the invoke object for structured access (backward compatibility)
     api.invoke = invokeObj;
 
+    // Raw access returning the response untouched, used by `getInvokeObject`
+    api.$invoke = (channel: string, ...data: any[]) => {
+      if (!Object.hasOwn(handlers, channel)) {
+        return Promise.reject(new Error(`Unknown IPC channel '${channel}'`));
+      }
+      return transport(channel, data);
+    };
+
+    // Hands the page a port for transferable calls, see `createTransferClient`
+    if (hasTransfer) {
+      api.$invokePort = (nonce: string) =>
+        offerTransferPort(ipcRenderer, wire(TRANSFER_CHANNELS.handlers), String(nonce));
+    }
+
     return api;
   };
 
   return {
     registerHandler,
+    use,
     registerMainHandlers,
+    getMissingHandlers,
     registerInvokers,
     getInvokeObject,
     getExposeInPreloadHandlersPart,
+    createDirectClient,
+    serveHandlers,
+    createPortClient,
   };
 }
@@ -0,0 +1,135 @@
+import type { IpcMain, IpcMainEvent, IpcRenderer } from 'electron';
+import type { IpcMainContext } from './ipc-main-context';
+import type { IpcScope } from './ipc-scope';
+import type {
+  EventSchemaToEmitters,
+  EventSchemaToSubscribers,
+  IpcSerializer,
+  RelaySchema,
+  RelayTarget,
+} from './types';
+import { camelCase } from 'change-case';
+import { createIpcEvents } from './create-ipc-events';
+import { deserializeArgs, serializeArgs } from './create-ipc-serializer';
+import { selectWindowContents } from './ipc-main-context';
+import { resolveScope } from './ipc-scope';
+import { getEventOptions } from './schema-options';
+import { validateSchema } from './validate-schema';
+
+// Targets arrive from an untrusted renderer, so their shape is checked before use
+function parseTarget(target: unknown, windowNames?: readonly string[]): string[] | '*' {
+  if (target === '*') {
+    return '*';
+  }
+  const names = Array.isArray(target) ? target : [target];
+  if (
+    names.length === 0 ||
+    !names.every((name) => typeof name === 'string') ||
+    (windowNames && !names.every((name) => windowNames.includes(name)))
+  ) {
+    throw new Error(`Invalid relay target: ${JSON.stringify(target)}`);
+  }
+  return names;
+}
+
+export function createIpcRelays<TRelaySchema extends RelaySchema>(
+  scope: IpcScope | string,
+  relays: TRelaySchema,
+  context: IpcMainContext,
+  windowNames?: readonly string[],
+  serializer?: IpcSerializer,
+): {
+  registerMainRelays: (ipcMain: IpcMain) => void;
+  relayTo: (target: RelayTarget) => EventSchemaToEmitters<TRelaySchema>;
+  listeners: EventSchemaToSubscribers<TRelaySchema>;
+  getExposeInPreloadRelayPart: (ipcRenderer: IpcRenderer) => { relay: any; relays: any };
+} {
+  // Delivery to the receiving renderer works exactly like a main-to-renderer event
+  const receiver = createIpcEvents(scope, relays, context, 'relays', serializer);
+  const { wire, api: getApi } = resolveScope(scope);
+  let registered = false;
+
+  // Forward a relayed message to the addressed windows
+  const forward = async (channel: string, event: IpcMainEvent, data: unknown[]) => {
+    const [target, ...payload] = data;
+    try {
+      const names = parseTarget(target, windowNames);
+      const argsSchema = getEventOptions(relays[channel]).args;
+      const decoded = deserializeArgs(serializer, payload);
+      const args = argsSchema
+        ? await validateSchema(argsSchema, decoded, { channel, target: 'args' })
+        : decoded;
+      const encoded = serializeArgs(serializer, [...args]);
+
+      // '*' reaches every window except the sender
+      const targets = selectWindowContents(
+        context,
+        names === '*'
+          ? { predicate: (webContents) => webContents !== event.sender }
+          : { windows: names },
+      );
+      targets.forEach((webContents) => webContents.send(wire(channel), ...encoded));
+    } catch (error) {
+      console.error(`Dropped relay message on '${channel}':`, error);
+    }
+  };
+
+  // Attach one ipcMain listener per declared relay channel
+  const registerMainRelays = (ipcMain: IpcMain) => {
+    if (registered) {
+      return;
+    }
+    registered = true;
+
+    Object.keys(relays).forEach((channel) => {
+      ipcMain.on(wire(channel), (event, ...data) => {
+        void forward(channel, event, data);
+      });
+    });
+  };
+
+  // Get relay emitters for renderer use
+  const relayTo = (target: RelayTarget): EventSchemaToEmitters<TRelaySchema> => {
+    const emit = {} as any;
+    Object.keys(relays).forEach((channel) => {
+      emit[camelCase(channel)] = (...data: any[]) => {
+        const relay = getApi().relay;
+        // Payloads are encoded on this side of the context bridge, which would otherwise
+        // strip values of the serializer's types down to plain objects
+        if (typeof relay.$send === 'function') {
+          relay.$send(channel, target, ...serializeArgs(serializer, data));
+          return;
+        }
+        relay[camelCase(channel)](target, ...data);
+      };
+    });
+    return emit;
+  };
+
+  // Get the relay part for exposeInPreload
+  const getExposeInPreloadRelayPart = (ipcRenderer: IpcRenderer) => {
+    const relay: any = {};
+    Object.keys(relays).forEach((channel) => {
+      relay[camelCase(channel)] = (target: RelayTarget, ...data: any[]) => {
+        ipcRenderer.send(wire(channel), target, ...serializeArgs(serializer, data));
+      };
+    });
+    // Raw sender for payloads the page already encoded, used by `relayTo`
+    if (serializer) {
+      relay.$send = (channel: string, target: RelayTarget, ...data: unknown[]) => {
+        if (!Object.hasOwn(relays, channel)) {
+          throw new Error(`Unknown IPC channel '${channel}'`);
+        }
+        ipcRenderer.send(wire(channel), target, ...data);
+      };
+    }
+    return { relay, relays: receiver.exposeInPreload(ipcRenderer) };
+  };
+
+  return {
+    registerMainRelays,
+    relayTo,
+    listeners: receiver.listeners,
+    getExposeInPreloadRelayPart,
+  };
+}
@@ -0,0 +1,175 @@
+import type { IpcMain, IpcMainEvent, IpcRenderer } from 'electron';
+import type { IpcScope } from './ipc-scope';
+import type {
+  EventSchemaToEmitters,
+  RendererEventListener,
+  IpcSerializer,
+  RendererEventSchema,
+} from './types';
+import { camelCase } from 'change-case';
+import { deserializeArgs, serializeArgs } from './create-ipc-serializer';
+import { resolveScope } from './ipc-scope';
+import { getEventOptions } from './schema-options';
+import {
+  createTransferClient,
+  offerTransferPort,
+  serveTransferPorts,
+  TRANSFER_CHANNELS,
+} from './transfer-port';
+import { validateSchema } from './validate-schema';
+
+export function createIpcRendererEvents<TEventSchema extends RendererEventSchema>(
+  scope: IpcScope | string,
+  events: TEventSchema,
+  serializer?: IpcSerializer,
+): {
+  onRendererEvent: <K extends keyof TEventSchema>(
+    channel: K,
+    listener: RendererEventListener<TEventSchema[K]>,
+  ) => () => void;
+  registerMainListeners: (ipcMain: IpcMain) => void;
+  getEmitObject: () => EventSchemaToEmitters<TEventSchema>;
+  getExposeInPreloadEmitPart: (ipcRenderer: IpcRenderer) => any;
+} {
+  const { wire, api: getApi } = resolveScope(scope);
+
+  // Listeners registered in main, keyed by channel
+  const listeners = new Map<string, Set<(...args: any[]) => void>>();
+  let ipcMainInstance: IpcMain | null = null;
+  // Channels whose payloads are moved to main over a transfer port
+  const transferChannels = new Set(
+    Object.keys(events).filter((channel) => getEventOptions(events[channel]).transfer),
+  );
+
+  // Dispatch an incoming event to every listener of its channel
+  const dispatch = async (channel: string, event: IpcMainEvent, data: unknown[]) => {
+    const channelListeners = listeners.get(channel);
+    if (!channelListeners || channelListeners.size === 0) {
+      return;
+    }
+
+    // Renderers are untrusted, so payloads failing decoding or validation are dropped
+    const argsSchema = getEventOptions(events[channel]).args;
+    let args: unknown[];
+    try {
+      args = deserializeArgs(serializer, data);
+      if (argsSchema) {
+        args = [...(await validateSchema(argsSchema, args, { channel, target: 'args' }))];
+      }
+    } catch (error) {
+      console.error(error);
+      return;
+    }
+
+    channelListeners.forEach((listener) => {
+      try {
+        listener(event, ...args);
+      } catch (error) {
+        console.error(`Error occurred in listener for '${channel}':`, error);
+      }
+    });
+  };
+
+  // Subscribe to a renderer event in main
+  const onRendererEvent = <K extends keyof TEventSchema>(
+    channel: K,
+    listener: RendererEventListener<TEventSchema[K]>,
+  ): (() => void) => {
+    const channelStr = channel as string;
+    if (!listeners.has(channelStr)) {
+      listeners.set(channelStr, new Set());
+    }
+    listeners.get(channelStr)!.add(listener as (...args: any[]) => void);
+
+    // Return unsubscribe function
+    return () => {
+      listeners.get(channelStr)?.delete(listener as (...args: any[]) => void);
+    };
+  };
+
+  // Attach one ipcMain listener per declared channel
+  const registerMainListeners = (ipcMain: IpcMain) => {
+    if (ipcMainInstance) {
+      return;
+    }
+    ipcMainInstance = ipcMain;
+
+    Object.keys(events).forEach((channel) => {
+      ipcMain.on(wire(channel), (event, ...data) => {
+        void dispatch(channel, event, data);
+      });
+    });
+    if (transferChannels.size > 0) {
+      serveTransferPorts(
+        ipcMain,
+        wire(TRANSFER_CHANNELS.rendererEvents),
+        async (event, message) => {
+          if (transferChannels.has(message.channel)) {
+            await dispatch(message.channel, event, message.args);
+          }
+        },
+      );
+    }
+  };
+
+  // Get emit object for renderer use
+  const getEmitObject = (): EventSchemaToEmitters<TEventSchema> => {
+    const emit = {} as any;
+    let transferClient: ReturnType<typeof createTransferClient> | null = null;
+    Object.keys(events).forEach((channel) => {
+      emit[camelCase(channel)] = (...data: any[]) => {
+        const preloadEmit = getApi().emit;
+        // Transferable events skip the context bridge, which would copy their buffers
+        if (transferChannels.has(channel) && typeof preloadEmit.$port === 'function') {
+          transferClient ??= createTransferClient((nonce) => getApi().emit.$port(nonce));
+          transferClient.post(channel, serializeArgs(serializer, data));
+          return;
+        }
+        // Payloads are encoded on this side of the context bridge, which would otherwise
+        // strip values of the serializer's types down to plain objects
+        if (typeof preloadEmit.$send === 'function') {
+          preloadEmit.$send(channel, ...serializeArgs(serializer, data));
+          return;
+        }
+        preloadEmit[camelCase(channel)](...data);
+      };
+    });
+    return emit;
+  };
+
+  // Get the emit part for exposeInPreload
+  const getExposeInPreloadEmitPart = (ipcRenderer: IpcRenderer) => {
+    const emit: any = {};
+    Object.keys(events).forEach((channel) => {
+      emit[camelCase(channel)] = (...data: any[]) => {
+        ipcRenderer.send(wire(channel), ...serializeArgs(serializer, data));
+      };
+    });
+    // Raw sender for payloads the page already encoded, used by `getEmitObject`
+    if (serializer) {
+      emit.$send = (channel: string, ...data: unknown[]) => {
+        if (!Object.hasOwn(events, channel)) {
+          throw new Error(`Unknown IPC channel '${channel}'`);
+        }
+        ipcRenderer.send(wire(channel), ...data);
+      };
+    }
+    // Hands the page a port for transferable events, see `createTransferClient`
+    if (transferChannels.size > 0) {
+      emit.$port = (nonce: string) =>
+        offerTransferPort(
+          ipcRenderer,
+          wire(TRANSFER_CHANNELS.rendererEvents),
+          String(nonce),
+        );
+    }
+    return emit;
+  };
+
+  return {
+    onRendererEvent,
+    registerMainListeners,
+    getEmitObject,
+    getExposeInPreloadEmitPart,
+  };
+}
@@ -0,0 +1,268 @@
+import type { IpcMain, IpcRenderer, WebContents } from 'electron';
+import type { IpcMainContext } from './ipc-main-context';
+import type { IpcResponse } from './ipc-response';
+import type { IpcScope } from './ipc-scope';
+import type {
+  AskObject,
+  AskTarget,
+  InvokeOptions,
+  IpcSerializer,
+  RendererHandler,
+  RendererHandlerSchemas,
+} from './types';
+import { camelCase } from 'change-case';
+
+import { deserializeArgs, serializeArgs } from './create-ipc-serializer';
+import { IpcTimeoutError, IpcWindowGoneError } from './errors';
+import {
+  createIpcErrorResponse,
+  createIpcResponse,
+  unwrapIpcResponse,
+} from './ipc-response';
+import { resolveScope } from './ipc-scope';
+import { startTrace } from './ipc-trace';
+import { getHandlerOptions } from './schema-options';
+import { serializeError } from './serialize-error';
+import { validateSchema } from './validate-schema';
+
+// Renderers may hang or never register an answer, so calls always end eventually
+const DEFAULT_TIMEOUT_MS = 30_000;
+
+// A call main makes on a renderer handler's channel, and the answer sent back on it
+interface AskRequest {
+  id: number;
+  args: unknown[];
+}
+
+interface AskReply {
+  id: number;
+  response: IpcResponse;
+}
+
+function isAskReply(value: unknown): value is AskReply {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as AskReply).id === 'number' &&
+    typeof (value as AskReply).response === 'object'
+  );
+}
+
+export function createIpcRendererHandlers<
+  TRendererHandlerSchemas extends RendererHandlerSchemas,
+>(
+  scope: IpcScope | string,
+  handlers: TRendererHandlerSchemas,
+  schemaOptions: { timeoutMs?: number; serializer?: IpcSerializer },
+  context: IpcMainContext,
+): {
+  registerMainListeners: (ipcMain: IpcMain) => void;
+  answer: <K extends keyof TRendererHandlerSchemas>(
+    channel: K,
+    handler: RendererHandler<TRendererHandlerSchemas[K]>,
+  ) => () => void;
+  getAskObject: () => AskObject<TRendererHandlerSchemas>;
+  getExposeInPreloadAnswerPart: (ipcRenderer: IpcRenderer) => any;
+} {
+  const { wire, api: getApi } = resolveScope(scope);
+  const { serializer } = schemaOptions;
+  // Calls waiting for their answer, keyed by id
+  const pendingCalls = new Map<
+    number,
+    {
+      channel: string;
+      webContents: WebContents;
+      resolve: (response: IpcResponse) => void;
+    }
+  >();
+  let nextCallId = 0;
+  let registered = false;
+
+  // Send a call to the renderer and wait for its answer, the window going away, the
+  // timeout or the signal, whichever comes first
+  const ask = async (
+    channel: string,
+    target: AskTarget,
+    args: unknown[],
+    callOptions: InvokeOptions,
+  ) => {
+    if (!registered) {
+      throw new Error(
+        `Cannot call renderer handler '${channel}' before registerMainHandlers is called`,
+      );
+    }
+    // A destroyed window throws on any access to its webContents
+    if (target.isDestroyed()) {
+      throw new IpcWindowGoneError(channel);
+    }
+    const webContents = 'webContents' in target ? target.webContents : target;
+    if (webContents.isDestroyed()) {
+      throw new IpcWindowGoneError(channel);
+    }
+
+    const { signal } = callOptions;
+    signal?.throwIfAborted();
+    const options = getHandlerOptions(handlers[channel]);
+    const timeoutMs =
+      callOptions.timeoutMs ??
+      options.timeoutMs ??
+      schemaOptions.timeoutMs ??
+      DEFAULT_TIMEOUT_MS;
+    const finishTrace = startTrace(context, {
+      channel: wire(channel),
+      kind: 'ask',
+      direction: 'main-to-renderer',
+      webContents,
+      args,
+    });
+
+    const id = nextCallId++;
+    let cleanup = () => {};
+    let failure: { error: unknown } | undefined;
+    try {
+      const response = await new Promise<IpcResponse>((resolve, reject) => {
+        const onGone = () => reject(new IpcWindowGoneError(channel));
+        const onAbort = () => reject(signal!.reason);
+        const timer = setTimeout(
+          () => reject(new IpcTimeoutError(channel, timeoutMs)),
+          timeoutMs,
+        );
+        cleanup = () => {
+          clearTimeout(timer);
+          pendingCalls.delete(id);
+          webContents.removeListener('destroyed', onGone);
+          webContents.removeListener('render-process-gone', onGone);
+          signal?.removeEventListener('abort', onAbort);
+        };
+
+        pendingCalls.set(id, { channel, webContents, resolve });
+        webContents.on('destroyed', onGone);
+        webContents.on('render-process-gone', onGone);
+        signal?.addEventListener('abort', onAbort, { once: true });
+        const request: AskRequest = { id, args: serializeArgs(serializer, args) };
+        webContents.send(wire(channel), request);
+      });
+
+      // Answers come from a renderer, so their shape is checked like handler arguments
+      const encoded = unwrapIpcResponse(response);
+      const value = serializer ? serializer.deserialize(encoded) : encoded;
+      return options.return
+        ? await validateSchema(options.return, value, { channel, target: 'return' })
+        : value;
+    } catch (error) {
+      failure = { error };
+      throw error;
+    } finally {
+      cleanup();
+      finishTrace(failure);
+    }
+  };
+
+  // Attach one ipcMain listener per channel, settling calls with the answers of the
+  // webContents they were sent to
+  const registerMainListeners = (ipcMain: IpcMain) => {
+    if (registered) {
+      return;
+    }
+    registered = true;
+
+    Object.keys(handlers).forEach((channel) => {
+      ipcMain.on(wire(channel), (event, reply: unknown) => {
+        const call = isAskReply(reply) ? pendingCalls.get(reply.id) : undefined;
+        if (call && call.channel === channel && call.webContents === event.sender) {
+          call.resolve((reply as AskReply).response);
+        }
+      });
+    });
+  };
+
+  // Get the callers for main, addressed to a window or webContents
+  const getAskObject = (): AskObject<TRendererHandlerSchemas> => {
+    const createAskers = (options: InvokeOptions = {}) => {
+      const askers: any = {};
+      Object.keys(handlers).forEach((channel) => {
+        askers[camelCase(channel)] = async (target: AskTarget, ...args: unknown[]) =>
+          ask(channel, target, args, options);
+      });
+      return askers;
+    };
+
+    return Object.assign(createAskers(), { withOptions: createAskers });
+  };
+
+  // Implement a renderer handler, replacing the window's previous implementation. With
+  // a serializer, values are decoded and encoded on this side of the context bridge
+  const answer = <K extends keyof TRendererHandlerSchemas>(
+    channel: K,
+    handler: RendererHandler<TRendererHandlerSchemas[K]>,
+  ): (() => void) =>
+    getApi().$answer(
+      channel,
+      serializer
+        ? async (...args: unknown[]) =>
+            serializer.serialize(
+              await (handler as (...args: unknown[]) => unknown)(
+                ...deserializeArgs(serializer, args),
+              ),
+            )
+        : handler,
+    );
+
+  // Get the answering part for exposeInPreload. The preload answers every call, with
+  // an error when the renderer has no implementation, so main does not wait in vain
+  const getExposeInPreloadAnswerPart = (ipcRenderer: IpcRenderer) => {
+    const implementations = new Map<string, (...args: any[]) => unknown>();
+
+    const reply = async (channel: string, request: AskRequest) => {
+      let response: IpcResponse;
+      try {
+        const handler = implementations.get(channel);
+        if (!handler) {
+          throw new Error(`No renderer handler registered for '${wire(channel)}'`);
+        }
+        response = createIpcResponse(await handler(...request.args));
+      } catch (error) {
+        response = createIpcErrorResponse(serializeError(error, channel));
+      }
+      try {
+        const message: AskReply = { id: request.id, response };
+        ipcRenderer.send(wire(channel), message);
+      } catch (error) {
+        // The result could not be cloned, which main still has to hear about
+        const message: AskReply = {
+          id: request.id,
+          response: createIpcErrorResponse(serializeError(error, channel)),
+        };
+        ipcRenderer.send(wire(channel), message);
+      }
+    };
+
+    Object.keys(handlers).forEach((channel) => {
+      ipcRenderer.on(wire(channel), (_event, request: AskRequest) => {
+        void reply(channel, request);
+      });
+    });
+
+    const api: any = {};
+    api.$answer = (channel: string, handler: (...args: any[]) => unknown) => {
+      if (!Object.hasOwn(handlers, channel)) {
+        throw new Error(`Unknown IPC channel '${channel}'`);
+      }
+      implementations.set(channel, handler);
+      return () => {
+        if (implementations.get(channel) === handler) {
+          implementations.delete(channel);
+        }
+      };
+    };
+
+    return api;
+  };
+
+  return {
+    registerMainListeners,
+    answer,
+    getAskObject,
+    getExposeInPreloadAnswerPart,
+  };
+}
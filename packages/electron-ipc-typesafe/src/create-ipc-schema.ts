@@ -1,142 +1,351 @@
 import type { IpcMain, IpcRenderer } from 'electron';
+import type { IpcMainContext } from './ipc-main-context';
+import type { IpcScope } from './ipc-scope';
 
 import type {
+  EmptySchema,
   EventSchema,
-  EventSchemaToSenders,
-  EventSchemaToSubscribers,
   IpcHandlerSchemas,
-  SchemaToHandler,
-  TransformSchemasToInvokers,
+  IpcMainOptions,
+  IpcSchema,
+  IpcSchemaConfig,
+  IpcStoreSchemas,
+  IpcStreamSchemas,
+  MissingHandlersMode,
+  RelaySchema,
+  RendererEventSchema,
+  RendererHandlerSchemas,
 } from './types';
 
+import {
+  createSchemaManifest,
+  SCHEMA_CHANNEL,
+  withCompatibilityCheck,
+} from './check-compatibility';
 import { createIpcEvents } from './create-ipc-events';
 import { createIpcHandlers } from './create-ipc-handlers';
+import { createIpcRelays } from './create-ipc-relays';
+import { createIpcRendererEvents } from './create-ipc-renderer-events';
+import { createIpcRendererHandlers } from './create-ipc-renderer-handlers';
+import { createIpcStores } from './create-ipc-stores';
+import { createIpcStreams } from './create-ipc-streams';
+import { resolveScope } from './ipc-scope';
+import { reportMissingHandlers } from './report-missing-handlers';
 
-// Overload 1: Both handler schemas and events provided
-export function createIpcSchema<
-  THandlerSchemas extends IpcHandlerSchemas,
-  TEventSchema extends EventSchema,
->(config: {
-  apiKey: string;
-  handlers: THandlerSchemas;
-  events: TEventSchema;
-}): {
-  registerHandler: <K extends keyof THandlerSchemas>(
-    channel: K,
-    handler: SchemaToHandler<THandlerSchemas[K]>,
-  ) => () => void;
-  registerMainHandlers: (ipcMain: IpcMain) => void;
-  exposeInPreload: (ipcRenderer: IpcRenderer) => any;
-  invoke: TransformSchemasToInvokers<THandlerSchemas>;
-  send: EventSchemaToSenders<TEventSchema>;
-  events: EventSchemaToSubscribers<TEventSchema>;
-};
-
-// Overload 2: Only handler schemas provided
-export function createIpcSchema<THandlerSchemas extends IpcHandlerSchemas>(config: {
-  apiKey: string;
-  handlers: THandlerSchemas;
-  events?: never;
-}): {
-  registerHandler: <K extends keyof THandlerSchemas>(
-    channel: K,
-    handler: SchemaToHandler<THandlerSchemas[K]>,
-  ) => () => void;
-  registerMainHandlers: (ipcMain: IpcMain) => void;
-  exposeInPreload: (ipcRenderer: IpcRenderer) => any;
-  invoke: TransformSchemasToInvokers<THandlerSchemas>;
-  send: Record<string, never>;
-};
-
-// Overload 3: Only events provided
-export function createIpcSchema<TEventSchema extends EventSchema>(config: {
-  apiKey: string;
-  handlers?: never;
-  events: TEventSchema;
-}): {
-  registerHandler?: never;
-  registerMainHandlers?: never;
-  exposeInPreload: (ipcRenderer: IpcRenderer) => any;
-  invoke?: never;
-  send: EventSchemaToSenders<TEventSchema>;
-  events: EventSchemaToSubscribers<TEventSchema>;
-};
-
-// Implementation
-export function createIpcSchema<
-  THandlerSchemas extends IpcHandlerSchemas = Record<string, never>,
-  TEventSchema extends EventSchema = Record<string, never>,
->(config: { apiKey: string; handlers?: THandlerSchemas; events?: TEventSchema }): any {
-  const { apiKey, handlers, events } = config;
+function hasEntries(schema: object | undefined): schema is object {
+  return schema !== undefined && Object.keys(schema).length > 0;
+}
+
+// Builds a schema living in a scope, either standalone or as a module of a composed schema
+export function createScopedIpcSchema<
+  THandlerSchemas extends IpcHandlerSchemas = EmptySchema,
+  TEventSchema extends EventSchema = EmptySchema,
+  TRendererEventSchema extends RendererEventSchema = EmptySchema,
+  TRelaySchema extends RelaySchema = EmptySchema,
+  TStreamSchemas extends IpcStreamSchemas = EmptySchema,
+  TWindowName extends string = string,
+  TStoreSchemas extends IpcStoreSchemas = EmptySchema,
+  TRendererHandlerSchemas extends RendererHandlerSchemas = EmptySchema,
+>(
+  config: Omit<
+    IpcSchemaConfig<
+      THandlerSchemas,
+      TEventSchema,
+      TRendererEventSchema,
+      TRelaySchema,
+      TStreamSchemas,
+      TWindowName,
+      TStoreSchemas,
+      TRendererHandlerSchemas
+    >,
+    'apiKey'
+  >,
+  scope: IpcScope,
+): IpcSchema<
+  THandlerSchemas,
+  TEventSchema,
+  TRendererEventSchema,
+  TRelaySchema,
+  TStreamSchemas,
+  TWindowName,
+  TStoreSchemas,
+  TRendererHandlerSchemas
+> {
+  const {
+    windowNames,
+    handlers,
+    timeoutMs,
+    batching,
+    middleware,
+    security,
+    serializer,
+    events,
+    rendererEvents,
+    relays,
+    streams,
+    stores,
+    rendererHandlers,
+    version,
+    compatibility,
+  } = config;
+  const mainContext: IpcMainContext = {};
 
   if (
-    (!handlers || Object.keys(handlers).length === 0) &&
-    (!events || Object.keys(events).length === 0)
+    !hasEntries(handlers) &&
+    !hasEntries(events) &&
+    !hasEntries(rendererEvents) &&
+    !hasEntries(relays) &&
+    !hasEntries(streams) &&
+    !hasEntries(stores) &&
+    !hasEntries(rendererHandlers)
   ) {
     throw new Error('At least one of handlers or events must be provided');
   }
 
-  const handlersApi =
-    handlers && Object.keys(handlers).length > 0
-      ? createIpcHandlers(apiKey, handlers)
-      : null;
+  const handlersApi = hasEntries(handlers)
+    ? createIpcHandlers(
+        scope,
+        handlers,
+        { timeoutMs, middleware, security, batching, serializer },
+        mainContext,
+      )
+    : null;
+
+  const streamsApi = hasEntries(streams)
+    ? createIpcStreams(scope, streams, serializer)
+    : null;
+
+  const storesApi = hasEntries(stores)
+    ? createIpcStores(scope, stores, serializer)
+    : null;
 
   // Create events API if events are provided
-  const eventsApi =
-    events && Object.keys(events).length > 0 ? createIpcEvents(apiKey, events) : null;
+  const eventsApi = hasEntries(events)
+    ? createIpcEvents(scope, events, mainContext, 'events', serializer)
+    : null;
+
+  const rendererEventsApi = hasEntries(rendererEvents)
+    ? createIpcRendererEvents(scope, rendererEvents, serializer)
+    : null;
+
+  const relaysApi = hasEntries(relays)
+    ? createIpcRelays(scope, relays, mainContext, windowNames, serializer)
+    : null;
+
+  const rendererHandlersApi = hasEntries(rendererHandlers)
+    ? createIpcRendererHandlers(
+        scope,
+        rendererHandlers,
+        { timeoutMs, serializer },
+        mainContext,
+      )
+    : null;
+
+  const manifest = createSchemaManifest(
+    { handlers, streams, events, rendererEvents, relays, stores, rendererHandlers },
+    version,
+  );
+  const schemaChannel = resolveScope(scope).wire(SCHEMA_CHANNEL);
 
   // Enhanced preload exposure
-  const exposeInPreload = (ipcRenderer: IpcRenderer) => {
+  const exposeInPreload = (transport: IpcRenderer) => {
     const api: any = {};
+    const ipcRenderer = compatibility
+      ? withCompatibilityCheck(transport, {
+          channel: schemaChannel,
+          manifest,
+          mode: compatibility,
+        })
+      : transport;
 
     // Add invokers for handler schemas
     if (handlersApi) {
       Object.assign(api, handlersApi.getExposeInPreloadHandlersPart(ipcRenderer));
     }
 
+    // Add the port-based starter for streaming handlers
+    if (streamsApi) {
+      Object.assign(api, streamsApi.getExposeInPreloadStreamsPart(ipcRenderer));
+    }
+
+    // Add the subscription to the state stores owned by main
+    if (storesApi) {
+      Object.assign(api, storesApi.getExposeInPreloadStoresPart(ipcRenderer));
+    }
+
     // Add listeners for renderer events
     if (eventsApi) {
       const eventsPreload = eventsApi.exposeInPreload(ipcRenderer);
       api.events = eventsPreload;
     }
 
+    // Add emitters for renderer-to-main events
+    if (rendererEventsApi) {
+      api.emit = rendererEventsApi.getExposeInPreloadEmitPart(ipcRenderer);
+    }
+
+    // Add relay senders and listeners for window-to-window messages
+    if (relaysApi) {
+      Object.assign(api, relaysApi.getExposeInPreloadRelayPart(ipcRenderer));
+    }
+
+    // Add the answering of calls main makes to renderer handlers
+    if (rendererHandlersApi) {
+      Object.assign(api, rendererHandlersApi.getExposeInPreloadAnswerPart(ipcRenderer));
+    }
+
     return api;
   };
 
-  const invoke = handlersApi ? handlersApi.getInvokeObject() : ({} as any);
+  const getMissingHandlers = () => [
+    ...(handlersApi?.getMissingHandlers() ?? []),
+    ...(streamsApi?.getMissingStreams() ?? []),
+    ...(storesApi?.getMissingStores() ?? []),
+  ];
+
+  const assertAllHandlersRegistered = (mode: MissingHandlersMode = 'throw') => {
+    reportMissingHandlers(getMissingHandlers(), mode);
+  };
+
+  const registerMainHandlers = (ipcMain: IpcMain, options: IpcMainOptions = {}) => {
+    if (options.windows) {
+      mainContext.windows = options.windows;
+    }
+    if (options.onSecurityViolation) {
+      mainContext.onSecurityViolation = options.onSecurityViolation;
+    }
+    if (options.onRateLimit) {
+      mainContext.onRateLimit = options.onRateLimit;
+    }
+    if (options.tracer) {
+      mainContext.tracer = options.tracer;
+    }
+    handlersApi?.registerMainHandlers(ipcMain);
+    streamsApi?.registerMainStreams(ipcMain);
+    storesApi?.registerMainStores(ipcMain);
+    rendererEventsApi?.registerMainListeners(ipcMain);
+    relaysApi?.registerMainRelays(ipcMain);
+    rendererHandlersApi?.registerMainListeners(ipcMain);
+    // Answers the preload's compatibility check
+    if (compatibility) {
+      ipcMain.handle(schemaChannel, () => manifest);
+    }
+    if (options.missingHandlers) {
+      assertAllHandlersRegistered(options.missingHandlers);
+    }
+  };
 
   // Build the final API object
   const result: any = {
     exposeInPreload,
+    registerMainHandlers,
+    getMissingHandlers,
+    assertAllHandlersRegistered,
+    fingerprint: manifest.fingerprint,
+    definition: {
+      apiKey: scope.apiKey,
+      namespace: scope.namespace,
+      channelPrefix: scope.channelPrefix,
+      handlers: handlers ?? {},
+      events: events ?? {},
+      rendererEvents: rendererEvents ?? {},
+      relays: relays ?? {},
+      streams: streams ?? {},
+      stores: stores ?? {},
+      rendererHandlers: rendererHandlers ?? {},
+      serializer,
+    },
   };
 
-  const hasHandlers = handlers && Object.keys(handlers).length > 0;
-  const hasEvents = eventsApi !== null;
-
   // Add handler-related properties if handlers are provided
-  if (hasHandlers) {
-    result.registerHandler = handlersApi!.registerHandler;
-    result.registerMainHandlers = handlersApi!.registerMainHandlers;
-    result.registerInvokers = handlersApi!.registerInvokers;
-    result.invoke = invoke;
+  if (handlersApi) {
+    result.registerHandler = handlersApi.registerHandler;
+    result.use = handlersApi.use;
+    result.registerInvokers = handlersApi.registerInvokers;
+    result.invoke = handlersApi.getInvokeObject();
+    result.createDirectClient = handlersApi.createDirectClient;
+    result.serveHandlers = handlersApi.serveHandlers;
+    result.createPortClient = handlersApi.createPortClient;
   } else {
     // Always provide no-op functions for backward compatibility
     result.registerInvokers = () => ({});
-    result.registerMainHandlers = () => {};
-    // Only add invoke if it's not an events-only scenario
-    if (!hasEvents) {
-      result.invoke = {};
-    }
+  }
+
+  // Add streaming handler properties if streams are provided
+  if (streamsApi) {
+    result.registerStream = streamsApi.registerStream;
+    result.stream = streamsApi.getStreamObject();
+  }
+
+  // Add state store properties if stores are provided
+  if (storesApi) {
+    result.registerStore = storesApi.registerStore;
+    result.store = storesApi.getStoreObject();
   }
 
   // Add event-related properties if events are provided
   if (eventsApi) {
     result.send = eventsApi.send;
+    result.sendTo = eventsApi.sendTo;
+    result.broadcast = eventsApi.broadcast;
+    result.broadcastTo = eventsApi.broadcastTo;
     result.events = eventsApi.listeners;
   } else {
     result.send = {};
     result.events = {};
   }
 
+  // Add renderer-to-main event properties if provided
+  if (rendererEventsApi) {
+    result.onRendererEvent = rendererEventsApi.onRendererEvent;
+    result.emit = rendererEventsApi.getEmitObject();
+  }
+
+  // Add window-to-window relay properties if provided
+  if (relaysApi) {
+    result.relayTo = relaysApi.relayTo;
+    result.relays = relaysApi.listeners;
+  }
+
+  // Add main-to-renderer call properties if renderer handlers are provided
+  if (rendererHandlersApi) {
+    result.ask = rendererHandlersApi.getAskObject();
+    result.answer = rendererHandlersApi.answer;
+  }
+
   return result;
 }
+
+export function createIpcSchema<
+  THandlerSchemas extends IpcHandlerSchemas = EmptySchema,
+  TEventSchema extends EventSchema = EmptySchema,
+  TRendererEventSchema extends RendererEventSchema = EmptySchema,
+  TRelaySchema extends RelaySchema = EmptySchema,
+  TStreamSchemas extends IpcStreamSchemas = EmptySchema,
+  TWindowName extends string = string,
+  TStoreSchemas extends IpcStoreSchemas = EmptySchema,
+  TRendererHandlerSchemas extends RendererHandlerSchemas = EmptySchema,
+>(
+  config: IpcSchemaConfig<
+    THandlerSchemas,
+    TEventSchema,
+    TRendererEventSchema,
+    TRelaySchema,
+    TStreamSchemas,
+    TWindowName,
+    TStoreSchemas,
+    TRendererHandlerSchemas
+  >,
+): IpcSchema<
+  THandlerSchemas,
+  TEventSchema,
+  TRendererEventSchema,
+  TRelaySchema,
+  TStreamSchemas,
+  TWindowName,
+  TStoreSchemas,
+  TRendererHandlerSchemas
+> {
+  const { apiKey, ...schemaConfig } = config;
+  return createScopedIpcSchema(schemaConfig, { apiKey });
+}
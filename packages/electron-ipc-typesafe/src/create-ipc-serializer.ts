@@ -0,0 +1,207 @@
+import type { IpcCodec, IpcSerializer, IpcSerializerOptions } from './types';
+
+import { defineCodec } from './define-codec';
+
+type Path = (string | number)[];
+
+// What crosses IPC: the encoded value, and the codecs to decode parts of it with, by
+// path, deepest parts first
+interface SerializedValue {
+  value: unknown;
+  types: [path: Path, codec: string][];
+}
+
+const builtInCodecs: IpcCodec[] = [
+  defineCodec({
+    name: 'Date',
+    is: (value) => value instanceof Date,
+    encode: (date: Date) => date.getTime(),
+    decode: (time) => new Date(time),
+  }),
+  defineCodec({
+    name: 'Map',
+    is: (value) => value instanceof Map,
+    encode: (map: Map<unknown, unknown>) => [...map],
+    decode: (entries) => new Map(entries),
+  }),
+  defineCodec({
+    name: 'Set',
+    is: (value) => value instanceof Set,
+    encode: (set: Set<unknown>) => [...set],
+    decode: (values) => new Set(values),
+  }),
+  defineCodec({
+    name: 'BigInt',
+    is: (value) => typeof value === 'bigint',
+    encode: (value: bigint) => value.toString(),
+    decode: (digits) => BigInt(digits),
+  }),
+  defineCodec({
+    name: 'RegExp',
+    is: (value) => value instanceof RegExp,
+    encode: ({ source, flags }: RegExp) => ({ source, flags }),
+    decode: ({ source, flags }) => new RegExp(source, flags),
+  }),
+];
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+const unsafeKeys = new Set(['__proto__', 'constructor', 'prototype']);
+
+// Whether a path part names an own entry of a decoded array or plain object
+function isOwnPathPart(
+  container: unknown,
+  part: unknown,
+): container is Record<string | number, unknown> {
+  return (
+    (Array.isArray(container) || isPlainObject(container)) &&
+    (typeof part === 'string' || typeof part === 'number') &&
+    !unsafeKeys.has(String(part)) &&
+    Object.hasOwn(container, part)
+  );
+}
+
+function isSerializedValue(value: unknown): value is SerializedValue {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    'value' in value &&
+    Array.isArray((value as SerializedValue).types)
+  );
+}
+
+/**
+ * Creates a serializer for `createIpcSchema({ serializer })`, carrying Dates, Maps, Sets,
+ * BigInts, RegExps and the types of the given codecs across IPC intact, nested at any
+ * depth in arrays and plain objects. Other values are passed on as they are, so they
+ * are structured cloned like without a serializer.
+ *
+ * @example
+ * ```typescript
+ * export const appApi = createIpcSchema({
+ *   apiKey: 'appApi',
+ *   serializer: createIpcSerializer({ codecs: [moneyCodec] }),
+ *   handlers: {
+ *     'get-balance': defineHandler<[since: Date], Map<string, Money>>(),
+ *   },
+ * });
+ * ```
+ */
+export function createIpcSerializer(options: IpcSerializerOptions = {}): IpcSerializer {
+  const customCodecs = options.codecs ?? [];
+  const codecsByName = new Map<string, IpcCodec>();
+  customCodecs.forEach((codec) => {
+    if (codecsByName.has(codec.name)) {
+      throw new Error(`Codec '${codec.name}' is registered twice`);
+    }
+    codecsByName.set(codec.name, codec);
+  });
+  const codecs = [
+    ...customCodecs,
+    ...builtInCodecs.filter((codec) => !codecsByName.has(codec.name)),
+  ];
+  codecs.forEach((codec) => codecsByName.set(codec.name, codec));
+
+  // Copy a value with its rich parts encoded, recording the codec of each by path
+  const encode = (
+    value: unknown,
+    path: Path,
+    types: SerializedValue['types'],
+    ancestors: Set<unknown>,
+  ): unknown => {
+    const codec = codecs.find((candidate) => candidate.is(value));
+    if (codec) {
+      const unsafeKey = path.find((part) => unsafeKeys.has(String(part)));
+      if (unsafeKey !== undefined) {
+        throw new TypeError(
+          `Cannot serialize a ${codec.name} under the key '${unsafeKey}'`,
+        );
+      }
+      // Parts of the encoded value are recorded first, so they are decoded first
+      const encoded = encode(codec.encode(value), path, types, ancestors);
+      types.push([path, codec.name]);
+      return encoded;
+    }
+    if (!Array.isArray(value) && !isPlainObject(value)) {
+      return value;
+    }
+    if (ancestors.has(value)) {
+      throw new TypeError('Cannot serialize a circular structure');
+    }
+    ancestors.add(value);
+    const copy = Array.isArray(value)
+      ? value.map((item, index) => encode(item, [...path, index], types, ancestors))
+      : Object.fromEntries(
+          Object.entries(value).map(([key, item]) => [
+            key,
+            encode(item, [...path, key], types, ancestors),
+          ]),
+        );
+    ancestors.delete(value);
+    return copy;
+  };
+
+  const serialize = (value: unknown): SerializedValue => {
+    const types: SerializedValue['types'] = [];
+    return { value: encode(value, [], types, new Set()), types };
+  };
+
+  // Decodes the parts of a freshly received value in place, the value itself last
+  const deserialize = (serialized: unknown): unknown => {
+    if (!isSerializedValue(serialized)) {
+      throw new TypeError('Received a value the serializer did not encode');
+    }
+    const root: Record<string, unknown> = { value: serialized.value };
+    serialized.types.forEach(([path, name]) => {
+      const codec = codecsByName.get(name);
+      if (!codec) {
+        throw new TypeError(`No codec registered for '${name}'`);
+      }
+      const keys = ['value', ...path];
+      const key = keys.pop()!;
+      // Paths come from the other process, so they may only lead through its own data
+      // and never to a prototype
+      const parent = keys.reduce<unknown>((container, part) => {
+        if (!isOwnPathPart(container, part)) {
+          throw new TypeError(
+            `Invalid path in serialized value: ${JSON.stringify(path)}`,
+          );
+        }
+        return container[part];
+      }, root);
+      if (!isOwnPathPart(parent, key)) {
+        throw new TypeError(`Invalid path in serialized value: ${JSON.stringify(path)}`);
+      }
+      Object.defineProperty(parent, key, {
+        value: codec.decode(parent[key]),
+        writable: true,
+        enumerable: true,
+        configurable: true,
+      });
+    });
+    return root.value;
+  };
+
+  return { serialize, deserialize };
+}
+
+// Encodes each argument of a call or event, when the schema has a serializer
+export function serializeArgs(
+  serializer: IpcSerializer | undefined,
+  args: unknown[],
+): unknown[] {
+  return serializer ? args.map((arg) => serializer.serialize(arg)) : args;
+}
+
+export function deserializeArgs(
+  serializer: IpcSerializer | undefined,
+  args: unknown[],
+): unknown[] {
+  return serializer ? args.map((arg) => serializer.deserialize(arg)) : args;
+}
@@ -0,0 +1,254 @@
+import type { IpcMain, IpcMainInvokeEvent, IpcRenderer, WebContents } from 'electron';
+import type { IpcScope } from './ipc-scope';
+import type {
+  IpcSerializer,
+  IpcStoreSchemas,
+  MainStore,
+  RendererStore,
+  StoreMessage,
+  StorePatch,
+  StoreSchemasToRendererStores,
+} from './types';
+import { camelCase } from 'change-case';
+
+import { resolveScope } from './ipc-scope';
+import { applyPatches, diffState } from './store-patches';
+
+// Requests a renderer sends on a store's channel
+type StoreRequest = 'subscribe' | 'unsubscribe';
+
+export function createIpcStores<TStoreSchemas extends IpcStoreSchemas>(
+  scope: IpcScope | string,
+  stores: TStoreSchemas,
+  serializer?: IpcSerializer,
+): {
+  registerStore: <K extends keyof TStoreSchemas>(
+    channel: K,
+    initialState: TStoreSchemas[K]['state'],
+  ) => MainStore<TStoreSchemas[K]['state']>;
+  registerMainStores: (ipcMain: IpcMain) => void;
+  getMissingStores: () => string[];
+  getStoreObject: () => StoreSchemasToRendererStores<TStoreSchemas>;
+  getExposeInPreloadStoresPart: (ipcRenderer: IpcRenderer) => any;
+} {
+  const { wire, api: getApi } = resolveScope(scope);
+
+  // Snapshots and patches are encoded whole, as the state and patch values may hold any
+  // type the serializer knows
+  const encode = (message: StoreMessage): unknown =>
+    serializer ? serializer.serialize(message) : message;
+  const decode = (message: unknown) =>
+    (serializer ? serializer.deserialize(message) : message) as StoreMessage;
+
+  // Main-side state of registered stores, with the number of subscriptions per renderer
+  const registeredStores = new Map<
+    string,
+    { store: MainStore<any>; version: number; subscribers: Map<WebContents, number> }
+  >();
+
+  // Renderers whose page is watched, to drop its subscriptions once it is gone
+  const watchedSenders = new Set<WebContents>();
+
+  // A reloaded or navigated page subscribes anew, and a crashed or destroyed one never
+  // will, so either way the subscriptions of the old page end
+  const watchSender = (webContents: WebContents) => {
+    if (watchedSenders.has(webContents)) {
+      return;
+    }
+    watchedSenders.add(webContents);
+    const onPageGone = () => {
+      watchedSenders.delete(webContents);
+      webContents.removeListener('did-navigate', onPageGone);
+      webContents.removeListener('render-process-gone', onPageGone);
+      webContents.removeListener('destroyed', onPageGone);
+      registeredStores.forEach((entry) => entry.subscribers.delete(webContents));
+    };
+    webContents.on('did-navigate', onPageGone);
+    webContents.on('render-process-gone', onPageGone);
+    webContents.on('destroyed', onPageGone);
+  };
+
+  // Register the initial state of a declared store, returning its main-side handle
+  const registerStore = <K extends keyof TStoreSchemas>(
+    channel: K,
+    initialState: TStoreSchemas[K]['state'],
+  ): MainStore<TStoreSchemas[K]['state']> => {
+    const channelStr = channel as string;
+    if (registeredStores.has(channelStr)) {
+      throw new Error(`Store '${channelStr}' is already registered`);
+    }
+
+    let state = initialState;
+    const listeners = new Set<(state: any, patches: StorePatch[]) => void>();
+
+    const store: MainStore<TStoreSchemas[K]['state']> = {
+      getState: () => state,
+      setState: (next) => {
+        const previous = state;
+        state = typeof next === 'function' ? (next as (state: any) => any)(state) : next;
+        const patches = diffState(previous, state);
+        if (patches.length === 0) {
+          return;
+        }
+
+        entry.version += 1;
+        const message: StoreMessage = { type: 'patch', version: entry.version, patches };
+        const encoded = encode(message);
+        for (const webContents of entry.subscribers.keys()) {
+          if (webContents.isDestroyed()) {
+            entry.subscribers.delete(webContents);
+          } else {
+            webContents.send(wire(channelStr), encoded);
+          }
+        }
+        listeners.forEach((listener) => listener(state, patches));
+      },
+      subscribe: (listener) => {
+        listeners.add(listener);
+        return () => {
+          listeners.delete(listener);
+        };
+      },
+    };
+
+    const entry = { store, version: 0, subscribers: new Map<WebContents, number>() };
+    registeredStores.set(channelStr, entry);
+    return store;
+  };
+
+  // Answer subscriptions with the current state, and track who to send patches to
+  const createStoreHandler =
+    (channel: string) => (event: IpcMainInvokeEvent, request: StoreRequest) => {
+      const entry = registeredStores.get(channel);
+      if (!entry) {
+        throw new Error(`No store registered for '${wire(channel)}'`);
+      }
+
+      const count = entry.subscribers.get(event.sender) ?? 0;
+      if (request === 'unsubscribe') {
+        if (count <= 1) {
+          entry.subscribers.delete(event.sender);
+        } else {
+          entry.subscribers.set(event.sender, count - 1);
+        }
+        return null;
+      }
+
+      entry.subscribers.set(event.sender, count + 1);
+      watchSender(event.sender);
+      const snapshot: StoreMessage = {
+        type: 'snapshot',
+        version: entry.version,
+        state: entry.store.getState(),
+      };
+      return encode(snapshot);
+    };
+
+  const registerMainStores = (ipcMain: IpcMain) => {
+    Object.keys(stores).forEach((channel) => {
+      ipcMain.handle(wire(channel), createStoreHandler(channel));
+    });
+  };
+
+  // Wire channels of declared stores without an initial state
+  const getMissingStores = () =>
+    Object.keys(stores)
+      .filter((channel) => !registeredStores.has(channel))
+      .map(wire);
+
+  // Renderer-side mirrors sharing one subscription per store, opened on first use
+  const getStoreObject = (): StoreSchemasToRendererStores<TStoreSchemas> => {
+    const storeObject: any = {};
+
+    Object.keys(stores).forEach((channel) => {
+      const listeners = new Set<(state: any) => void>();
+      let state: unknown;
+      let version = -1;
+      let disconnect: (() => void) | null = null;
+
+      const onMessage = (received: unknown) => {
+        const message = decode(received);
+        if (message.type === 'snapshot') {
+          state = message.state;
+          version = message.version;
+        } else if (message.version === version + 1) {
+          state = applyPatches(state, message.patches);
+          version = message.version;
+        } else {
+          // A patch was missed; start over from a fresh snapshot
+          if (message.version > version + 1 && version !== -1) {
+            reconnect();
+          }
+          return;
+        }
+        listeners.forEach((listener) => listener(state));
+      };
+
+      const connect = () => {
+        disconnect = getApi().$store(channel, onMessage);
+      };
+
+      const reconnect = () => {
+        disconnect?.();
+        version = -1;
+        connect();
+      };
+
+      const store: RendererStore<any> = {
+        getSnapshot: () => state as any,
+        subscribe: (listener) => {
+          listeners.add(listener);
+          if (!disconnect) {
+            connect();
+          } else if (version !== -1) {
+            listener(state);
+          }
+
+          return () => {
+            listeners.delete(listener);
+            if (listeners.size === 0 && disconnect) {
+              disconnect();
+              disconnect = null;
+            }
+          };
+        },
+      };
+      storeObject[camelCase(channel)] = store;
+    });
+
+    return storeObject;
+  };
+
+  // Get the stores part for exposeInPreload. The preload forwards the snapshot and the
+  // patches of a store to the renderer's callback
+  const getExposeInPreloadStoresPart = (ipcRenderer: IpcRenderer) => {
+    const api: any = {};
+
+    api.$store = (channel: string, onMessage: (message: unknown) => void) => {
+      if (!Object.hasOwn(stores, channel)) {
+        throw new Error(`Unknown IPC channel '${channel}'`);
+      }
+
+      const listener = (_event: unknown, message: unknown) => onMessage(message);
+      ipcRenderer.on(wire(channel), listener);
+      ipcRenderer.invoke(wire(channel), 'subscribe').then(onMessage, (error) => {
+        console.error(`Could not subscribe to store '${channel}':`, error);
+      });
+
+      return () => {
+        ipcRenderer.removeListener(wire(channel), listener);
+        ipcRenderer.invoke(wire(channel), 'unsubscribe').catch(() => {});
+      };
+    };
+
+    return api;
+  };
+
+  return {
+    registerStore,
+    registerMainStores,
+    getMissingStores,
+    getStoreObject,
+    getExposeInPreloadStoresPart,
+  };
+}
@@ -0,0 +1,255 @@
+import type { IpcMain, IpcMainEvent, IpcRenderer, MessagePortMain } from 'electron';
+import type { IpcScope } from './ipc-scope';
+import type { StreamControlMessage, StreamMessage } from './ipc-stream';
+import type {
+  IpcSerializer,
+  IpcStreamSchemas,
+  SchemaToStreamHandler,
+  StreamSchemasToInvokers,
+} from './types';
+import { camelCase } from 'change-case';
+
+import { deserializeArgs, serializeArgs } from './create-ipc-serializer';
+import { IpcError } from './errors';
+import { resolveScope } from './ipc-scope';
+import {
+  createIpcStream,
+  createStreamCancelledError,
+  isStreamControlMessage,
+} from './ipc-stream';
+import { getStreamOptions } from './schema-options';
+import { serializeError } from './serialize-error';
+import { validateSchema } from './validate-schema';
+
+// Chunks main may send before the renderer has consumed any of them
+const DEFAULT_HIGH_WATER_MARK = 16;
+
+function isAsyncIterable(value: unknown): value is AsyncIterable<unknown> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as AsyncIterable<unknown>)[Symbol.asyncIterator] === 'function'
+  );
+}
+
+export function createIpcStreams<TStreamSchemas extends IpcStreamSchemas>(
+  scope: IpcScope | string,
+  streams: TStreamSchemas,
+  serializer?: IpcSerializer,
+): {
+  registerStream: <K extends keyof TStreamSchemas>(
+    channel: K,
+    handler: SchemaToStreamHandler<TStreamSchemas[K]>,
+  ) => () => void;
+  registerMainStreams: (ipcMain: IpcMain) => void;
+  getMissingStreams: () => string[];
+  getStreamObject: () => StreamSchemasToInvokers<TStreamSchemas>;
+  getExposeInPreloadStreamsPart: (ipcRenderer: IpcRenderer) => any;
+} {
+  const { wire, api: getApi } = resolveScope(scope);
+
+  const encode = (value: unknown) => (serializer ? serializer.serialize(value) : value);
+  const decode = (value: unknown) => (serializer ? serializer.deserialize(value) : value);
+
+  // Store registered stream handlers
+  const registeredHandlers = new Map<string, (...args: any[]) => unknown>();
+  let registered = false;
+
+  // Run one stream request, talking to the renderer over the transferred port
+  const runStream = async (channel: string, event: IpcMainEvent, data: unknown[]) => {
+    const port: MessagePortMain | undefined = event.ports[0];
+    if (!port) {
+      return;
+    }
+
+    const options = getStreamOptions(streams[channel]);
+    const controller = new AbortController();
+    const { signal } = controller;
+    let credits = options.highWaterMark ?? DEFAULT_HIGH_WATER_MARK;
+    let waiters: (() => void)[] = [];
+
+    const wakeWriters = () => {
+      const current = waiters;
+      waiters = [];
+      current.forEach((wake) => wake());
+    };
+    const abort = () => {
+      controller.abort(createStreamCancelledError(channel));
+      wakeWriters();
+    };
+
+    port.on('message', ({ data: message }: { data: unknown }) => {
+      if (!isStreamControlMessage(message)) {
+        return;
+      }
+      if (message.type === 'ack') {
+        credits += 1;
+        wakeWriters();
+      } else if (message.type === 'cancel') {
+        abort();
+      }
+    });
+    // The port closes when the renderer goes away
+    port.on('close', abort);
+    port.start();
+
+    const post = (message: StreamMessage) => port.postMessage(message);
+
+    // Send a chunk once the renderer has room for it
+    const write = async (chunk: unknown) => {
+      while (credits <= 0 && !signal.aborted) {
+        await new Promise<void>((resolve) => waiters.push(resolve));
+      }
+      signal.throwIfAborted();
+      credits -= 1;
+      post({ type: 'chunk', value: encode(chunk) });
+    };
+
+    try {
+      const handler = registeredHandlers.get(channel);
+      if (!handler) {
+        throw new IpcError(`No handler registered for stream '${channel}'`, {
+          code: 'IPC_NO_HANDLER',
+        });
+      }
+      const decoded = deserializeArgs(serializer, data);
+      const args = options.args
+        ? await validateSchema(options.args, decoded, { channel, target: 'args' })
+        : decoded;
+
+      const result = handler({ event, signal, write }, ...args);
+      let final: unknown;
+      if (isAsyncIterable(result)) {
+        // Drive generators manually to keep their return value as the final value
+        const iterator = result[Symbol.asyncIterator]();
+        try {
+          for (;;) {
+            const step = await iterator.next();
+            if (step.done) {
+              final = step.value;
+              break;
+            }
+            await write(step.value);
+          }
+        } catch (error) {
+          await iterator.return?.();
+          throw error;
+        }
+      } else {
+        final = await result;
+      }
+
+      signal.throwIfAborted();
+      post({ type: 'end', value: encode(final) });
+    } catch (error) {
+      // A cancelled stream has nobody left to report to
+      if (!signal.aborted) {
+        if (!(error instanceof IpcError)) {
+          console.error(`Error occurred in stream handler for '${channel}':`, error);
+        }
+        post({ type: 'error', error: serializeError(error, channel) });
+      }
+    } finally {
+      port.close();
+    }
+  };
+
+  // Register a stream handler implementation
+  const registerStream = <K extends keyof TStreamSchemas>(
+    channel: K,
+    handler: SchemaToStreamHandler<TStreamSchemas[K]>,
+  ): (() => void) => {
+    const channelStr = channel as string;
+    registeredHandlers.set(channelStr, handler);
+
+    // Return cleanup function
+    return () => {
+      if (registeredHandlers.get(channelStr) === handler) {
+        registeredHandlers.delete(channelStr);
+      }
+    };
+  };
+
+  // Attach one ipcMain listener per declared stream
+  const registerMainStreams = (ipcMain: IpcMain) => {
+    if (registered) {
+      return;
+    }
+    registered = true;
+
+    Object.keys(streams).forEach((channel) => {
+      ipcMain.on(wire(channel), (event, data: unknown[]) => {
+        void runStream(channel, event, Array.isArray(data) ? data : []);
+      });
+    });
+  };
+
+  // Wire channels of declared streams without an implementation
+  const getMissingStreams = () =>
+    Object.keys(streams)
+      .filter((channel) => !registeredHandlers.has(channel))
+      .map(wire);
+
+  // Get stream starters for renderer use
+  const getStreamObject = (): StreamSchemasToInvokers<TStreamSchemas> => {
+    const stream = {} as any;
+    Object.keys(streams).forEach((channel) => {
+      stream[camelCase(channel)] = (...data: any[]) =>
+        createIpcStream(channel, (onMessage) =>
+          getApi().$stream(
+            channel,
+            serializeArgs(serializer, data),
+            (message: StreamMessage) =>
+              onMessage(
+                message.type === 'error'
+                  ? message
+                  : { ...message, value: decode(message.value) },
+              ),
+          ),
+        );
+    });
+    return stream;
+  };
+
+  // Get the streams part for exposeInPreload. Message ports cannot cross the context
+  // bridge, so the preload owns the port and relays its messages through callbacks
+  const getExposeInPreloadStreamsPart = (ipcRenderer: IpcRenderer) => {
+    const api: any = {};
+
+    api.$stream = (
+      channel: string,
+      data: unknown[],
+      onMessage: (message: StreamMessage) => void,
+    ) => {
+      if (!Object.hasOwn(streams, channel)) {
+        throw new Error(`Unknown IPC channel '${channel}'`);
+      }
+
+      const { port1, port2 } = new MessageChannel();
+      port1.onmessage = ({ data: message }: MessageEvent<StreamMessage>) => {
+        onMessage(message);
+        if (message.type !== 'chunk') {
+          port1.close();
+        }
+      };
+      ipcRenderer.postMessage(wire(channel), data, [port2]);
+
+      return (message: StreamControlMessage) => {
+        port1.postMessage(message);
+        if (message.type === 'cancel') {
+          port1.close();
+        }
+      };
+    };
+
+    return api;
+  };
+
+  return {
+    registerStream,
+    registerMainStreams,
+    getMissingStreams,
+    getStreamObject,
+    getExposeInPreloadStreamsPart,
+  };
+}
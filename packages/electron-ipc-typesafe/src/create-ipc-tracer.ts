@@ -0,0 +1,135 @@
+import type {
+  ChromeTrace,
+  ChromeTraceEvent,
+  IpcTraceEntry,
+  IpcTracer,
+  IpcTracerOptions,
+} from './types';
+
+import { createScopedIpcSchema } from './create-ipc-schema';
+import { defineHandler } from './define-handler';
+
+const DEFAULT_CAPACITY = 1000;
+const DEFAULT_API_KEY = 'ipcTracer';
+
+// Trace events are timed in microseconds
+const MICROSECONDS_PER_MS = 1000;
+// Every entry is recorded in main, shown as one process with a track per webContents
+const MAIN_PID = 1;
+const MAIN_TID = 0;
+
+function toChromeTraceEvents(entries: IpcTraceEntry[]): ChromeTraceEvent[] {
+  const tracks = new Map<number, string>([[MAIN_TID, 'main']]);
+  const events = entries.map((entry): ChromeTraceEvent => {
+    const tid = entry.webContentsId ?? MAIN_TID;
+    if (!tracks.has(tid)) {
+      tracks.set(tid, entry.window ?? `webContents ${tid}`);
+    }
+    return {
+      name: entry.channel,
+      cat: `ipc,${entry.kind}`,
+      ph: 'X',
+      pid: MAIN_PID,
+      tid,
+      ts: entry.startTime * MICROSECONDS_PER_MS,
+      dur: entry.duration * MICROSECONDS_PER_MS,
+      args: {
+        direction: entry.direction,
+        window: entry.window,
+        payloadSize: entry.payloadSize,
+        status: entry.status,
+        error: entry.error,
+      },
+    };
+  });
+
+  const metadata = [...tracks].map(([tid, name]): ChromeTraceEvent => ({
+    name: 'thread_name',
+    ph: 'M',
+    pid: MAIN_PID,
+    tid,
+    args: { name },
+  }));
+  return [...metadata, ...events];
+}
+
+/**
+ * Records handler calls and events of the schemas it is passed to, via
+ * `registerMainHandlers(ipcMain, { tracer })`, into a ring buffer. The trace can be
+ * read in main, fetched by a renderer over the tracer's own typed `schema`, or exported
+ * as Chrome trace-event JSON for the DevTools performance panel.
+ *
+ * @example
+ * ```typescript
+ * export const tracer = createIpcTracer({ capacity: 500 });
+ *
+ * // main
+ * myApi.registerMainHandlers(ipcMain, { tracer });
+ * tracer.schema.registerMainHandlers(ipcMain);
+ *
+ * // renderer, after exposing tracer.schema under 'ipcTracer' in the preload
+ * const trace = await tracer.schema.invoke.exportChromeTrace();
+ * ```
+ */
+export function createIpcTracer(options: IpcTracerOptions = {}): IpcTracer {
+  const capacity = options.capacity ?? DEFAULT_CAPACITY;
+  const entries: IpcTraceEntry[] = [];
+  const listeners = new Set<(entry: IpcTraceEntry) => void>();
+  let nextId = 1;
+
+  const record = (entry: Omit<IpcTraceEntry, 'id'>) => {
+    const recorded = { id: nextId++, ...entry };
+    entries.push(recorded);
+    if (entries.length > capacity) {
+      entries.splice(0, entries.length - capacity);
+    }
+    // A failing subscriber must not break the call it was told about
+    listeners.forEach((listener) => {
+      try {
+        listener(recorded);
+      } catch (error) {
+        console.error(
+          `Error occurred in IPC tracer subscriber for '${entry.channel}':`,
+          error,
+        );
+      }
+    });
+  };
+
+  const getEntries = () => [...entries];
+
+  const clear = () => {
+    entries.length = 0;
+  };
+
+  const subscribe = (listener: (entry: IpcTraceEntry) => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  const toChromeTrace = (): ChromeTrace => ({
+    traceEvents: toChromeTraceEvents(entries),
+    displayTimeUnit: 'ms',
+  });
+
+  // Not traced itself: the tracer is only handed to the schemas it observes. Its
+  // channels are prefixed with its key to stay clear of the app's own channels
+  const apiKey = options.apiKey ?? DEFAULT_API_KEY;
+  const schema = createScopedIpcSchema(
+    {
+      handlers: {
+        'get-entries': defineHandler<[], IpcTraceEntry[]>(),
+        'clear-entries': defineHandler<[], void>(),
+        'export-chrome-trace': defineHandler<[], ChromeTrace>(),
+      },
+    },
+    { apiKey, channelPrefix: apiKey },
+  );
+  schema.registerHandler('get-entries', async () => getEntries());
+  schema.registerHandler('clear-entries', async () => clear());
+  schema.registerHandler('export-chrome-trace', async () => toChromeTrace());
+
+  return { record, getEntries, clear, subscribe, toChromeTrace, schema };
+}
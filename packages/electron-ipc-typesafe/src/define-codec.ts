@@ -0,0 +1,22 @@
+import type { IpcCodec } from './types';
+
+/**
+ * Utility function for declaring how a custom type crosses IPC, for
+ * `createIpcSerializer({ codecs })`. It only infers the codec's types; the decoding side
+ * rebuilds values with `decode`, so classes come back with their prototype.
+ *
+ * @example
+ * ```typescript
+ * const moneyCodec = defineCodec({
+ *   name: 'Money',
+ *   is: (value) => value instanceof Money,
+ *   encode: (money: Money) => ({ cents: money.cents, currency: money.currency }),
+ *   decode: ({ cents, currency }) => new Money(cents, currency),
+ * });
+ * ```
+ */
+export function defineCodec<T, TEncoded>(
+  codec: IpcCodec<T, TEncoded>,
+): IpcCodec<T, TEncoded> {
+  return codec;
+}
@@ -1,9 +1,11 @@
+import type { EventOptions } from './types';
+
 /**
  * Utility function for defining event argument types in a type-safe way.
- * This helper exists only for type inference and allows clean event argument type definition
- * without providing actual values.
+ * Without options this helper exists only for type inference. A Standard Schema
+ * validator can be passed to check payloads on the receiving side at runtime.
  */
 
-export function defineEvent<T extends readonly any[]>(): T {
-  return undefined as unknown as T;
+export function defineEvent<T extends readonly any[]>(options?: EventOptions<T>): T {
+  return (options ? { options } : undefined) as unknown as T;
 }
@@ -1,22 +1,32 @@
+import type { HandlerErrorShape, HandlerOptions, HandlerSchema } from './types';
+
 /**
- * Utility function for defining handler argument and return types in a type-safe way.
- * This helper exists only for type inference and allows clean handler type definition
- * without providing actual implementations.
+ * Utility function for defining handler argument, return and error types in a type-safe
+ * way. The optional third type parameter declares the `code` and `data` of errors the
+ * handler may throw, as seen by the renderer. Without options this helper exists only
+ * for type inference. Passing Standard Schema validators (zod, valibot, ...) makes the
+ * main process validate the arguments and, optionally, the returned value at runtime,
+ * and `timeoutMs` overrides the schema's default timeout.
  *
  * @example
  * ```typescript
  * const handlers = {
  *   'get-user': defineHandler<[userId: string], User>(),
  *   'save-file': defineHandler<[path: string, data: Buffer], boolean>(),
+ *   'load-file': defineHandler<[path: string], string, { code: 'ENOENT'; data: { path: string } }>(),
+ *   'rename-user': defineHandler({ args: z.tuple([z.string(), z.string().min(1)]) }),
+ *   'index-files': defineHandler<[dir: string], number>({ timeoutMs: 60_000 }),
  * };
  * ```
  */
-export function defineHandler<TArgs extends readonly unknown[], TReturn>(): {
-  args: TArgs;
-  return: TReturn;
-} {
-  return undefined as unknown as {
-    args: TArgs;
-    return: TReturn;
-  };
+export function defineHandler<
+  TArgs extends readonly unknown[],
+  TReturn,
+  TError extends HandlerErrorShape = HandlerErrorShape,
+>(options?: HandlerOptions<TArgs, TReturn>): HandlerSchema<TArgs, TReturn, TError> {
+  return (options ? { options } : undefined) as unknown as HandlerSchema<
+    TArgs,
+    TReturn,
+    TError
+  >;
 }
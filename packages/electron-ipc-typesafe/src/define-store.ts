@@ -0,0 +1,17 @@
+import type { StoreSchema } from './types';
+
+/**
+ * Utility function for declaring a store: state owned by main, whose changes reach
+ * every subscribed renderer as patches. This helper exists only for type inference;
+ * main provides the initial state with `registerStore`.
+ *
+ * @example
+ * ```typescript
+ * const stores = {
+ *   settings: defineStore<{ theme: 'light' | 'dark'; fontSize: number }>(),
+ * };
+ * ```
+ */
+export function defineStore<TState>(): StoreSchema<TState> {
+  return undefined as unknown as StoreSchema<TState>;
+}
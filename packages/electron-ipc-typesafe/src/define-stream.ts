@@ -0,0 +1,24 @@
+import type { StreamOptions, StreamSchema } from './types';
+
+/**
+ * Utility function for defining a streaming handler: its arguments, the chunks it
+ * sends and the final value it resolves with. Options may add a Standard Schema
+ * validator for the arguments and tune how many chunks are sent ahead.
+ *
+ * @example
+ * ```typescript
+ * const streams = {
+ *   'read-file': defineStream<[path: string], Uint8Array, { size: number }>(),
+ *   'tail-log': defineStream<[name: string], string>({ highWaterMark: 64 }),
+ * };
+ * ```
+ */
+export function defineStream<TArgs extends readonly unknown[], TChunk, TFinal = void>(
+  options?: StreamOptions<TArgs>,
+): StreamSchema<TArgs, TChunk, TFinal> {
+  return (options ? { options } : undefined) as unknown as StreamSchema<
+    TArgs,
+    TChunk,
+    TFinal
+  >;
+}
@@ -0,0 +1,252 @@
+import type { HandlerSchema, IpcChannelRef, SchemaToRemoteError } from './types';
+
+/**
+ * Base class for errors raised by the IPC layer itself (as opposed to errors thrown
+ * by handler implementations).
+ */
+export class IpcError extends Error {
+  readonly code: string;
+
+  constructor(message: string, options: { code: string; cause?: unknown }) {
+    super(message, { cause: options.cause });
+    this.name = 'IpcError';
+    this.code = options.code;
+  }
+}
+
+export interface IpcValidationIssue {
+  message: string;
+  path: (string | number)[];
+}
+
+/**
+ * Raised when handler arguments or a handler result do not match the runtime
+ * schema declared with `defineHandler`.
+ */
+export class IpcValidationError extends IpcError {
+  readonly channel: string;
+  readonly target: 'args' | 'return';
+  readonly issues: IpcValidationIssue[];
+
+  constructor(channel: string, target: 'args' | 'return', issues: IpcValidationIssue[]) {
+    const summary = issues
+      .map((issue) =>
+        issue.path.length > 0
+          ? `${issue.path.join('.')}: ${issue.message}`
+          : issue.message,
+      )
+      .join('; ');
+    super(
+      `Invalid ${target === 'args' ? 'arguments' : 'return value'} for '${channel}': ${summary}`,
+      {
+        code: 'IPC_VALIDATION_FAILED',
+      },
+    );
+    this.name = 'IpcValidationError';
+    this.channel = channel;
+    this.target = target;
+    this.issues = issues;
+  }
+}
+
+/**
+ * Raised when a handler does not settle within its timeout, configured per call,
+ * per handler with `defineHandler({ timeoutMs })` or for the whole schema.
+ */
+export class IpcTimeoutError extends IpcError {
+  readonly channel: string;
+  readonly timeoutMs: number;
+
+  constructor(channel: string, timeoutMs: number) {
+    super(`Call to '${channel}' timed out after ${timeoutMs}ms`, {
+      code: 'IPC_TIMEOUT',
+    });
+    this.name = 'IpcTimeoutError';
+    this.channel = channel;
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * Raised in main when the window asked to run a handler implemented in its renderer is
+ * closed, or its renderer crashed, before answering.
+ */
+export class IpcWindowGoneError extends IpcError {
+  readonly channel: string;
+
+  constructor(channel: string) {
+    super(`Call to '${channel}' failed: the window is gone`, {
+      code: 'IPC_WINDOW_GONE',
+    });
+    this.name = 'IpcWindowGoneError';
+    this.channel = channel;
+  }
+}
+
+/**
+ * Raised by a port client when the port closes, or the other end stops serving it,
+ * before a call is answered.
+ */
+export class IpcPortClosedError extends IpcError {
+  readonly channel: string;
+
+  constructor(channel: string) {
+    super(`Call to '${channel}' failed: the port is closed`, {
+      code: 'IPC_PORT_CLOSED',
+    });
+    this.name = 'IpcPortClosedError';
+    this.channel = channel;
+  }
+}
+
+/**
+ * Raised when a call is rejected by the security options of its channel, because of
+ * the calling frame's origin, its window or because it is not a main frame.
+ */
+export class IpcSecurityError extends IpcError {
+  readonly channel: string;
+  readonly reason: 'origin' | 'window' | 'frame';
+
+  constructor(channel: string, reason: 'origin' | 'window' | 'frame') {
+    super(`Call to '${channel}' rejected: sender ${reason} is not allowed`, {
+      code: 'IPC_FORBIDDEN',
+    });
+    this.name = 'IpcSecurityError';
+    this.channel = channel;
+    this.reason = reason;
+  }
+}
+
+/**
+ * Raised when a window calls a handler more often than its `rateLimit` allows, or while
+ * as many of its calls as `maxConcurrency` allows are still running.
+ */
+export class IpcRateLimitError extends IpcError {
+  readonly channel: string;
+  readonly reason: 'rate' | 'concurrency';
+  /** Milliseconds until the rate limit accepts a call again, unset for concurrency */
+  readonly retryAfterMs: number | undefined;
+
+  constructor(channel: string, reason: 'rate' | 'concurrency', retryAfterMs?: number) {
+    super(
+      reason === 'rate'
+        ? `Call to '${channel}' rejected: rate limit exceeded, retry in ${retryAfterMs}ms`
+        : `Call to '${channel}' rejected: too many calls in progress`,
+      { code: 'IPC_RATE_LIMITED' },
+    );
+    this.name = 'IpcRateLimitError';
+    this.channel = channel;
+    this.reason = reason;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+function describeChannels(refs: IpcChannelRef[]): string {
+  return refs.map(({ section, channel }) => `${section} '${channel}'`).join(', ');
+}
+
+/**
+ * Raised in the preload, when the schema's `compatibility` is `'throw'`, if main runs a
+ * schema with other channels, other channel shapes or another `version` than the
+ * preload.
+ */
+export class IpcSchemaMismatchError extends IpcError {
+  /** Channels the preload declares and main does not */
+  readonly added: IpcChannelRef[];
+  /** Channels main declares and the preload does not */
+  readonly removed: IpcChannelRef[];
+  /** Channels both declare, with other validators or options */
+  readonly changed: IpcChannelRef[];
+  readonly versions: { preload?: string; main?: string };
+
+  constructor(
+    added: IpcChannelRef[],
+    removed: IpcChannelRef[],
+    versions: { preload?: string; main?: string } = {},
+    changed: IpcChannelRef[] = [],
+  ) {
+    const differences = [
+      added.length > 0 ? `added ${describeChannels(added)}` : null,
+      removed.length > 0 ? `removed ${describeChannels(removed)}` : null,
+      changed.length > 0 ? `changed ${describeChannels(changed)}` : null,
+      versions.preload !== versions.main
+        ? `version ${versions.preload ?? 'unset'} in preload, ${versions.main ?? 'unset'} in main`
+        : null,
+    ].filter(Boolean);
+    super(`IPC schema of the preload does not match main: ${differences.join('; ')}`, {
+      code: 'IPC_SCHEMA_MISMATCH',
+    });
+    this.name = 'IpcSchemaMismatchError';
+    this.added = added;
+    this.removed = removed;
+    this.changed = changed;
+    this.versions = versions;
+  }
+}
+
+/**
+ * Raised in main by `assertAllHandlersRegistered` when declared handlers or streams
+ * have no implementation.
+ */
+export class IpcMissingHandlersError extends IpcError {
+  readonly channels: string[];
+
+  constructor(channels: string[]) {
+    const list = channels.map((channel) => `'${channel}'`).join(', ');
+    super(`No handler registered for IPC channels: ${list}`, {
+      code: 'IPC_MISSING_HANDLERS',
+    });
+    this.name = 'IpcMissingHandlersError';
+    this.channels = channels;
+  }
+}
+
+/**
+ * Error thrown in the renderer when a main-process handler failed. Carries the
+ * original error name, `code`, custom properties (`data`) and rehydrated cause chain.
+ */
+export class IpcRemoteError<
+  TCode extends string | number | undefined = string | number | undefined,
+  TData = Record<string, unknown>,
+> extends Error {
+  readonly channel: string | undefined;
+  readonly code: TCode;
+  readonly data: TData;
+
+  constructor(
+    details: {
+      name: string;
+      message: string;
+      channel?: string;
+      code?: TCode;
+      data?: TData;
+    },
+    options?: { cause?: unknown },
+  ) {
+    super(details.message, options);
+    this.name = details.name;
+    this.channel = details.channel;
+    this.code = details.code as TCode;
+    this.data = (details.data ?? {}) as TData;
+  }
+}
+
+/**
+ * Narrows a caught error to an {@link IpcRemoteError}, optionally typed after the
+ * error declared by a handler schema and restricted to one channel.
+ *
+ * @example
+ * ```typescript
+ * if (isIpcRemoteError<typeof handlers['load-file']>(error, 'load-file')) {
+ *   console.log(error.code, error.data.path);
+ * }
+ * ```
+ */
+export function isIpcRemoteError<
+  TSchema extends HandlerSchema<any, any, any> = HandlerSchema,
+>(error: unknown, channel?: string): error is SchemaToRemoteError<TSchema> {
+  return (
+    error instanceof IpcRemoteError &&
+    (channel === undefined || error.channel === channel)
+  );
+}
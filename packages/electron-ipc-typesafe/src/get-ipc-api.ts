@@ -32,3 +32,14 @@ export function getIpcApi(apiKey: string = 'ipcApi'): unknown | null {
     return null;
   }
 }
+
+// Get the IPC API or fail with a hint about the missing preload wiring
+export function requireIpcApi(apiKey: string): any {
+  const api = getIpcApi(apiKey);
+  if (!api) {
+    throw new Error(
+      `IPC with API key ${apiKey} not available, make sure you are in an Electron renderer process, and exposeInPreload has been called in the preload script and '${apiKey}' key exported`,
+    );
+  }
+  return api;
+}
@@ -1,3 +1,12 @@
-export * from './create-ipc-schema';
+export * from './compose-ipc-schemas';
+export { createIpcSchema } from './create-ipc-schema';
+export { createIpcSerializer } from './create-ipc-serializer';
+export * from './create-ipc-tracer';
+export * from './define-codec';
 export * from './define-event';
 export * from './define-handler';
+export * from './define-store';
+export * from './define-stream';
+export * from './errors';
+export { registerIpcError } from './serialize-error';
+export type { Transfer } from './types';
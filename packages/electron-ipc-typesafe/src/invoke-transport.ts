@@ -0,0 +1,112 @@
+import type { IpcRenderer } from 'electron';
+
+import { isIpcRequest } from './ipc-request';
+
+// Channel, prefixed like the schema's channels, carrying calls coalesced by batching
+export const BATCH_CHANNEL = '$batch';
+
+export interface BatchedCall {
+  channel: string;
+  args: unknown[];
+}
+
+export function isBatchedCall(value: unknown): value is BatchedCall {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as BatchedCall).channel === 'string' &&
+    Array.isArray((value as BatchedCall).args)
+  );
+}
+
+// Key identifying a call by its arguments, or null when they hold values JSON would
+// not tell apart (maps, sets, class instances, ...)
+function dedupKey(channel: string, data: unknown[]): string | null {
+  try {
+    return `${channel}:${JSON.stringify(data, (_key, value) => {
+      if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+        const prototype = Object.getPrototypeOf(value);
+        if (prototype !== Object.prototype && prototype !== null) {
+          throw new TypeError('Not a plain object');
+        }
+      }
+      return value;
+    })}`;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Sends the preload's invokes, resolving with main's raw response. Identical calls to
+ * idempotent channels share the call already in flight, and with `batching` the calls
+ * made in the same tick travel to main in one invoke of the batch channel.
+ */
+export function createInvokeTransport(
+  ipcRenderer: IpcRenderer,
+  options: {
+    wire: (channel: string) => string;
+    batching: boolean;
+    isIdempotent: (channel: string) => boolean;
+  },
+): (channel: string, data: unknown[]) => Promise<unknown> {
+  const { wire, batching, isIdempotent } = options;
+  const inFlight = new Map<string, Promise<unknown>>();
+  let queue: {
+    call: BatchedCall;
+    resolve: (response: unknown) => void;
+    reject: (error: unknown) => void;
+  }[] = [];
+
+  const flush = () => {
+    const batch = queue;
+    queue = [];
+
+    if (batch.length === 1) {
+      const [{ call, resolve, reject }] = batch as [(typeof batch)[number]];
+      ipcRenderer.invoke(wire(call.channel), ...call.args).then(resolve, reject);
+      return;
+    }
+
+    ipcRenderer
+      .invoke(
+        wire(BATCH_CHANNEL),
+        batch.map(({ call }) => call),
+      )
+      .then(
+        (responses: unknown[]) =>
+          batch.forEach(({ resolve }, index) => resolve(responses[index])),
+        (error) => batch.forEach(({ reject }) => reject(error)),
+      );
+  };
+
+  const send = (channel: string, data: unknown[]): Promise<unknown> => {
+    if (!batching) {
+      return ipcRenderer.invoke(wire(channel), ...data);
+    }
+    return new Promise((resolve, reject) => {
+      queue.push({ call: { channel, args: data }, resolve, reject });
+      if (queue.length === 1) {
+        queueMicrotask(flush);
+      }
+    });
+  };
+
+  return (channel, data) => {
+    const key =
+      isIdempotent(channel) && !(data.length === 1 && isIpcRequest(data[0]))
+        ? dedupKey(channel, data)
+        : null;
+    if (key === null) {
+      return send(channel, data);
+    }
+
+    const pending = inFlight.get(key);
+    if (pending) {
+      return pending;
+    }
+    const call = send(channel, data).finally(() => inFlight.delete(key));
+    inFlight.set(key, call);
+    return call;
+  };
+}
@@ -0,0 +1,49 @@
+import type { WebContents } from 'electron';
+import type {
+  BroadcastFilter,
+  IpcRateLimitViolation,
+  IpcSecurityViolation,
+  IpcTracer,
+  IpcWindowResolver,
+} from './types';
+
+// Main-process state shared by the parts of a schema, filled by registerMainHandlers
+export interface IpcMainContext {
+  windows?: IpcWindowResolver;
+  onSecurityViolation?: (violation: IpcSecurityViolation) => void;
+  onRateLimit?: (violation: IpcRateLimitViolation) => void;
+  tracer?: IpcTracer;
+}
+
+export function requireWindowResolver(context: IpcMainContext): IpcWindowResolver {
+  if (!context.windows) {
+    throw new Error(
+      'No window resolver available, pass { windows } to registerMainHandlers before addressing windows',
+    );
+  }
+  return context.windows;
+}
+
+// Collect the webContents of all open windows matching the filter
+export function selectWindowContents(
+  context: IpcMainContext,
+  filter: BroadcastFilter = {},
+): WebContents[] {
+  const resolver = requireWindowResolver(context);
+  return resolver
+    .getAllWindows()
+    .filter((win) => !win.isDestroyed() && !win.webContents.isDestroyed())
+    .map((win) => win.webContents)
+    .filter((webContents) => {
+      if (filter.webContentsIds && !filter.webContentsIds.includes(webContents.id)) {
+        return false;
+      }
+      if (filter.windows) {
+        const windowName = resolver.getWindowName(webContents);
+        if (windowName === undefined || !filter.windows.includes(windowName)) {
+          return false;
+        }
+      }
+      return !filter.predicate || filter.predicate(webContents);
+    });
+}
@@ -0,0 +1,73 @@
+import type { InvokeOptions } from './types';
+
+// Marker property distinguishing call envelopes from plain handler arguments
+const IPC_REQUEST_KEY = '__ipcRequest';
+
+// A call made with options, or the request to abort one, sent on the handler's own
+// channel
+export type IpcRequest =
+  | { [IPC_REQUEST_KEY]: true; id: number; args: unknown[]; timeoutMs?: number }
+  | { [IPC_REQUEST_KEY]: true; id: number; abort: true };
+
+export function isIpcRequest(value: unknown): value is IpcRequest {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    (value as Record<string, unknown>)[IPC_REQUEST_KEY] === true
+  );
+}
+
+export function createIpcRequest(
+  id: number,
+  args: unknown[],
+  timeoutMs?: number,
+): IpcRequest {
+  return timeoutMs === undefined
+    ? { [IPC_REQUEST_KEY]: true, id, args }
+    : { [IPC_REQUEST_KEY]: true, id, args, timeoutMs };
+}
+
+export function createIpcAbortRequest(id: number): IpcRequest {
+  return { [IPC_REQUEST_KEY]: true, id, abort: true };
+}
+
+// Ids only need to be unique per renderer, as main keys calls by sender frame
+let nextCallId = 0;
+
+/**
+ * Invokes a channel with per-call options. `invoke` sends raw arguments on the
+ * channel and resolves with the raw response. The timeout is enforced by main; when
+ * the signal aborts, the returned promise rejects with its reason and main is asked
+ * to abort the handler's signal.
+ */
+export async function invokeWithOptions(
+  invoke: (...data: unknown[]) => Promise<unknown>,
+  data: unknown[],
+  options: InvokeOptions,
+): Promise<unknown> {
+  const { signal, timeoutMs } = options;
+  if (!signal && timeoutMs === undefined) {
+    return invoke(...data);
+  }
+
+  signal?.throwIfAborted();
+  const id = nextCallId++;
+  const call = invoke(createIpcRequest(id, data, timeoutMs));
+  if (!signal) {
+    return call;
+  }
+
+  let onAbort = () => {};
+  try {
+    return await new Promise((resolve, reject) => {
+      onAbort = () => {
+        invoke(createIpcAbortRequest(id)).catch(() => {});
+        reject(signal.reason);
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+      call.then(resolve, reject);
+    });
+  } finally {
+    signal.removeEventListener('abort', onAbort);
+  }
+}
@@ -0,0 +1,43 @@
+import type { SerializedIpcError } from './serialize-error';
+
+import { deserializeError } from './serialize-error';
+
+// Marker property distinguishing wrapped handler responses from plain return values
+const IPC_RESPONSE_KEY = '__ipcResponse';
+
+export type IpcResponse<T = unknown> =
+  | { [IPC_RESPONSE_KEY]: true; ok: true; value: T }
+  | { [IPC_RESPONSE_KEY]: true; ok: false; error: SerializedIpcError };
+
+export function isIpcResponse(value: unknown): value is IpcResponse {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    (value as Record<string, unknown>)[IPC_RESPONSE_KEY] === true
+  );
+}
+
+export function createIpcResponse<T>(value: T): IpcResponse<T> {
+  return { [IPC_RESPONSE_KEY]: true, ok: true, value };
+}
+
+export function createIpcErrorResponse(error: SerializedIpcError): IpcResponse<never> {
+  return { [IPC_RESPONSE_KEY]: true, ok: false, error };
+}
+
+/**
+ * Unwraps a response produced by a main-process handler wrapper. Successful
+ * responses yield their value, failed ones are rethrown as rehydrated errors, and
+ * values that were never wrapped are passed through untouched.
+ */
+export function unwrapIpcResponse(response: unknown): unknown {
+  if (!isIpcResponse(response)) {
+    return response;
+  }
+
+  if (response.ok) {
+    return response.value;
+  }
+
+  throw deserializeError(response.error);
+}
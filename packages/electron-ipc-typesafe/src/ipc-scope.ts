@@ -0,0 +1,43 @@
+import { requireIpcApi } from './get-ipc-api';
+
+// Where a schema lives: the preload API key and, for modules of a composed schema, the
+// namespace its API is nested under and the prefix of its channels
+export interface IpcScope {
+  apiKey: string;
+  namespace?: string;
+  channelPrefix?: string;
+}
+
+export interface ResolvedIpcScope {
+  /** Channel name used on the wire for a declared channel */
+  wire: (channel: string) => string;
+  /** The exposed preload API of the schema, as seen from the renderer */
+  api: () => any;
+}
+
+export function resolveScope(scope: IpcScope | string): ResolvedIpcScope {
+  const { apiKey, namespace, channelPrefix } =
+    typeof scope === 'string' ? { apiKey: scope } : scope;
+
+  const wire =
+    channelPrefix === undefined
+      ? (channel: string) => channel
+      : (channel: string) => `${channelPrefix}:${channel}`;
+
+  if (namespace === undefined) {
+    return { wire, api: () => requireIpcApi(apiKey) };
+  }
+
+  return {
+    wire,
+    api: () => {
+      const api = requireIpcApi(apiKey)[namespace];
+      if (!api) {
+        throw new Error(
+          `IPC namespace '${namespace}' not found on API key ${apiKey}, make sure the composed schema is exposed in the preload script`,
+        );
+      }
+      return api;
+    },
+  };
+}
@@ -0,0 +1,141 @@
+import type { SerializedIpcError } from './serialize-error';
+import type { IpcStream } from './types';
+
+import { IpcError } from './errors';
+import { deserializeError } from './serialize-error';
+
+// Messages main sends over a stream port
+export type StreamMessage =
+  | { type: 'chunk'; value: unknown }
+  | { type: 'end'; value: unknown }
+  | { type: 'error'; error: SerializedIpcError };
+
+// Messages the renderer sends back over a stream port
+export type StreamControlMessage = { type: 'ack' } | { type: 'cancel' };
+
+// Control messages come from the renderer, so main checks their shape before use
+export function isStreamControlMessage(value: unknown): value is StreamControlMessage {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    ((value as StreamControlMessage).type === 'ack' ||
+      (value as StreamControlMessage).type === 'cancel')
+  );
+}
+
+export function createStreamCancelledError(channel: string): IpcError {
+  return new IpcError(`Stream '${channel}' was cancelled`, {
+    code: 'IPC_STREAM_CANCELLED',
+  });
+}
+
+/**
+ * Builds the renderer side of a stream. `open` starts the stream, delivering the
+ * messages from main to the given callback, and returns a function sending control
+ * messages back. Every chunk handed to the consumer is acknowledged, which is what
+ * lets main send the next one.
+ */
+export function createIpcStream<TChunk, TFinal>(
+  channel: string,
+  open: (
+    onMessage: (message: StreamMessage) => void,
+  ) => (message: StreamControlMessage) => void,
+): IpcStream<TChunk, TFinal> {
+  const buffered: TChunk[] = [];
+  let waiter: {
+    resolve: (step: IteratorResult<TChunk, undefined>) => void;
+    reject: (error: unknown) => void;
+  } | null = null;
+  let finished = false;
+  let failure: { error: unknown } | null = null;
+
+  let resolveResult!: (value: TFinal) => void;
+  let rejectResult!: (error: unknown) => void;
+  const result = new Promise<TFinal>((resolve, reject) => {
+    resolveResult = resolve;
+    rejectResult = reject;
+  });
+  // Failures also surface through the iterator, so an unobserved result is not an
+  // unhandled rejection
+  result.catch(() => {});
+
+  // Hand the next buffered chunk, the end or the failure to the consumer
+  const takeNext = (): IteratorResult<TChunk, undefined> | null => {
+    if (buffered.length > 0) {
+      send({ type: 'ack' });
+      return { value: buffered.shift()!, done: false };
+    }
+    if (failure) {
+      throw failure.error;
+    }
+    return finished ? { value: undefined, done: true } : null;
+  };
+
+  const settleWaiter = () => {
+    if (!waiter) {
+      return;
+    }
+    const current = waiter;
+    try {
+      const step = takeNext();
+      if (step) {
+        waiter = null;
+        current.resolve(step);
+      }
+    } catch (error) {
+      waiter = null;
+      current.reject(error);
+    }
+  };
+
+  const send = open((message) => {
+    if (finished) {
+      return;
+    }
+    if (message.type === 'chunk') {
+      buffered.push(message.value as TChunk);
+    } else if (message.type === 'end') {
+      finished = true;
+      resolveResult(message.value as TFinal);
+    } else {
+      finished = true;
+      failure = { error: deserializeError(message.error) };
+      rejectResult(failure.error);
+    }
+    settleWaiter();
+  });
+
+  const cancel = () => {
+    if (finished) {
+      return;
+    }
+    finished = true;
+    buffered.length = 0;
+    send({ type: 'cancel' });
+    rejectResult(createStreamCancelledError(channel));
+    settleWaiter();
+  };
+
+  const iterator: AsyncIterator<TChunk, undefined> = {
+    next: async () => {
+      const step = takeNext();
+      if (step) {
+        return step;
+      }
+      return new Promise((resolve, reject) => {
+        waiter = { resolve, reject };
+      });
+    },
+    // Leaving a `for await` loop early cancels the stream
+    return: async () => {
+      cancel();
+      return { value: undefined, done: true };
+    },
+  };
+
+  return {
+    result,
+    cancel,
+    [Symbol.asyncIterator]: () => iterator,
+  };
+}
@@ -0,0 +1,64 @@
+import type { WebContents } from 'electron';
+import type { IpcMainContext } from './ipc-main-context';
+import type { IpcTraceDirection, IpcTraceEntry, IpcTraceKind } from './types';
+
+import { serializeError } from './serialize-error';
+
+const encoder = new TextEncoder();
+
+// Size of IPC arguments as sent, approximated by their JSON encoding
+function measurePayload(args: unknown[]): number {
+  try {
+    return args.length === 0 ? 0 : encoder.encode(JSON.stringify(args)).length;
+  } catch {
+    return 0;
+  }
+}
+
+function describeError(error: unknown): IpcTraceEntry['error'] {
+  const { name, message, code } = serializeError(error);
+  return code === undefined ? { name, message } : { name, message, code };
+}
+
+/**
+ * Starts timing a call for the tracer passed to `registerMainHandlers`, returning the
+ * function recording it once settled; a no-op when tracing is off.
+ */
+export function startTrace(
+  context: IpcMainContext,
+  call: {
+    channel: string;
+    kind: IpcTraceKind;
+    direction: IpcTraceDirection;
+    webContents: WebContents;
+    args: unknown[];
+  },
+): (failure?: { error: unknown }) => void {
+  const { tracer } = context;
+  if (!tracer) {
+    return () => {};
+  }
+
+  const startTime = Date.now();
+  const started = performance.now();
+  return (failure) => {
+    const entry: Omit<IpcTraceEntry, 'id'> = {
+      channel: call.channel,
+      kind: call.kind,
+      direction: call.direction,
+      webContentsId: call.webContents.id,
+      startTime,
+      duration: performance.now() - started,
+      payloadSize: measurePayload(call.args),
+      status: failure ? 'error' : 'ok',
+    };
+    const window = context.windows?.getWindowName(call.webContents);
+    if (window !== undefined) {
+      entry.window = window;
+    }
+    if (failure) {
+      entry.error = describeError(failure.error);
+    }
+    tracer.record(entry);
+  };
+}
@@ -0,0 +1,191 @@
+import type { IpcPort } from './types';
+
+import { IpcPortClosedError, IpcTimeoutError } from './errors';
+import { createIpcErrorResponse } from './ipc-response';
+import { serializeError } from './serialize-error';
+
+// A handler call (with an id) or a renderer event (without) sent over a port
+export interface PortMessage {
+  id?: number;
+  channel: string;
+  args: unknown[];
+}
+
+// The answer to a handler call
+export interface PortReply {
+  id: number;
+  response: unknown;
+}
+
+// Marker property of the message telling callers the other end stopped serving
+const PORT_CLOSED_KEY = '__ipcPortClosed';
+
+function isPortMessage(value: unknown): value is PortMessage {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as PortMessage).channel === 'string' &&
+    Array.isArray((value as PortMessage).args) &&
+    ['number', 'undefined'].includes(typeof (value as PortMessage).id)
+  );
+}
+
+function isPortReply(value: unknown): value is PortReply {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as PortReply).id === 'number' &&
+    'response' in value
+  );
+}
+
+// Calls the listener with the data of every message arriving on a port, which works
+// the same for Electron's main-side ports and DOM ports
+export function listenToPort(
+  port: IpcPort,
+  listener: (data: unknown) => void,
+): () => void {
+  if ('addEventListener' in port) {
+    const onMessage = ({ data }: MessageEvent) => listener(data);
+    port.addEventListener('message', onMessage);
+    port.start();
+    return () => port.removeEventListener('message', onMessage);
+  }
+  const onMessage = ({ data }: { data: unknown }) => listener(data);
+  port.on('message', onMessage);
+  port.start();
+  return () => port.off('message', onMessage);
+}
+
+// Calls the listener once either end of a port is closed
+function onPortClose(port: IpcPort, listener: () => void): void {
+  if ('addEventListener' in port) {
+    port.addEventListener('close', listener, { once: true });
+  } else {
+    port.once('close', listener);
+  }
+}
+
+/**
+ * Passes every call and event arriving on a port to `onMessage`, answering calls with
+ * what it resolves with; `onMessage` must not reject. An answer that cannot be cloned
+ * is replaced by an error response. Returns a function to stop, which tells the callers
+ * on the other end so their pending calls fail.
+ */
+export function servePort(
+  port: IpcPort,
+  onMessage: (message: PortMessage) => Promise<unknown>,
+): () => void {
+  const stopListening = listenToPort(port, (message) => {
+    if (!isPortMessage(message)) {
+      return;
+    }
+    void onMessage(message).then((response) => {
+      if (message.id === undefined) {
+        return;
+      }
+      try {
+        const reply: PortReply = { id: message.id, response };
+        port.postMessage(reply);
+      } catch (error) {
+        const reply: PortReply = {
+          id: message.id,
+          response: createIpcErrorResponse(serializeError(error, message.channel)),
+        };
+        port.postMessage(reply);
+      }
+    });
+  });
+  return () => {
+    stopListening();
+    port.postMessage({ [PORT_CLOSED_KEY]: true });
+  };
+}
+
+interface PendingCall {
+  channel: string;
+  resolve: (response: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Builds the calling side of a port served by `servePort`, connecting on first use.
+ * Calls resolve with the raw response, and reject with an IpcTimeoutError after
+ * `timeoutMs`, or an IpcPortClosedError once the port closes or stops being served.
+ * With `transfer`, the ArrayBuffers of the arguments found by `getTransferables` are
+ * moved rather than copied, which only DOM ports support.
+ */
+export function createPortCaller(
+  connect: () => IpcPort | Promise<IpcPort>,
+  getTransferables?: (args: unknown[]) => ArrayBuffer[],
+): {
+  call: (channel: string, args: unknown[], timeoutMs?: number) => Promise<unknown>;
+  post: (channel: string, args: unknown[]) => void;
+} {
+  const pending = new Map<number, PendingCall>();
+  let port: Promise<IpcPort> | null = null;
+  let closed = false;
+  let nextId = 0;
+
+  const close = () => {
+    closed = true;
+    pending.forEach(({ channel, reject }) => reject(new IpcPortClosedError(channel)));
+  };
+
+  const getPort = () => {
+    port ??= Promise.resolve(connect()).then((connected) => {
+      listenToPort(connected, (message) => {
+        if (isPortReply(message)) {
+          pending.get(message.id)?.resolve(message.response);
+        } else if ((message as Record<string, unknown> | null)?.[PORT_CLOSED_KEY]) {
+          close();
+        }
+      });
+      onPortClose(connected, close);
+      return connected;
+    });
+    return port;
+  };
+
+  const send = async (message: PortMessage) => {
+    const connected = await getPort();
+    if (closed) {
+      throw new IpcPortClosedError(message.channel);
+    }
+    if (getTransferables) {
+      (connected as MessagePort).postMessage(message, getTransferables(message.args));
+    } else {
+      connected.postMessage(message);
+    }
+  };
+
+  return {
+    call: async (channel, args, timeoutMs) => {
+      const id = nextId++;
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const response = new Promise((resolve, reject) => {
+        pending.set(id, { channel, resolve, reject });
+        if (timeoutMs !== undefined) {
+          timer = setTimeout(
+            () => reject(new IpcTimeoutError(channel, timeoutMs)),
+            timeoutMs,
+          );
+        }
+      });
+      // The call may fail while still being sent, with nobody awaiting it yet
+      response.catch(() => {});
+      try {
+        await send({ id, channel, args });
+        return await response;
+      } finally {
+        clearTimeout(timer);
+        pending.delete(id);
+      }
+    },
+    post: (channel, args) => {
+      send({ channel, args }).catch((error) => {
+        console.error(`Could not send '${channel}':`, error);
+      });
+    },
+  };
+}
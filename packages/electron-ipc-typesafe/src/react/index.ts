@@ -0,0 +1,3 @@
+export * from './use-ipc-event';
+export * from './use-ipc-mutation';
+export * from './use-ipc-query';
@@ -0,0 +1,28 @@
+import { useEffect, useRef } from 'react';
+
+// An `events.onXxx` or `relays.onXxx` subscriber of a schema
+export type IpcSubscribe<TArgs extends any[] = any[]> = (
+  callback: (...args: TArgs) => void,
+) => () => void;
+
+/**
+ * Calls the listener with every event delivered while the component is mounted,
+ * unsubscribing on unmount. The latest listener is always called, so it may close over
+ * props and state without resubscribing.
+ *
+ * @example
+ * ```tsx
+ * useIpcEvent(appApi.events.onUserUpdated, (userId) => {
+ *   if (userId === props.userId) setStale(true);
+ * });
+ * ```
+ */
+export function useIpcEvent<TArgs extends any[]>(
+  subscribe: IpcSubscribe<TArgs>,
+  listener: (...args: TArgs) => void,
+): void {
+  const listenerRef = useRef(listener);
+  listenerRef.current = listener;
+
+  useEffect(() => subscribe((...args) => listenerRef.current(...args)), [subscribe]);
+}
@@ -0,0 +1,100 @@
+import type { IpcInvoker } from './use-ipc-query';
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+export interface UseIpcMutationOptions<TArgs extends any[], TData> {
+  onSuccess?: (data: TData, args: TArgs) => void;
+  onError?: (error: unknown, args: TArgs) => void;
+}
+
+export interface UseIpcMutationResult<TArgs extends any[], TData> {
+  /** Calls the handler; failures end up in `error` rather than rejecting */
+  mutate: (...args: TArgs) => void;
+  /** Calls the handler, resolving with its result or rejecting with its error */
+  mutateAsync: (...args: TArgs) => Promise<TData>;
+  /** Result of the last successful call */
+  data: TData | undefined;
+  /** Error of the last call */
+  error: unknown;
+  isLoading: boolean;
+  /** Forgets the result and error of past calls */
+  reset: () => void;
+}
+
+interface MutationState<TData> {
+  data: TData | undefined;
+  error: unknown;
+  isLoading: boolean;
+}
+
+const IDLE_STATE: MutationState<never> = {
+  data: undefined,
+  error: undefined,
+  isLoading: false,
+};
+
+/**
+ * Wraps a handler with side effects for calls triggered by the user, tracking the
+ * state of the latest call. Nothing is called until `mutate` is.
+ *
+ * @example
+ * ```tsx
+ * const { mutate: saveUser, isLoading, error } = useIpcMutation(appApi.invoke.saveUser, {
+ *   onSuccess: () => close(),
+ * });
+ *
+ * <button disabled={isLoading} onClick={() => saveUser(draft)}>Save</button>
+ * ```
+ */
+export function useIpcMutation<TArgs extends any[], TData>(
+  invoker: IpcInvoker<TArgs, TData>,
+  options: UseIpcMutationOptions<TArgs, TData> = {},
+): UseIpcMutationResult<TArgs, TData> {
+  const [state, setState] = useState<MutationState<TData>>(IDLE_STATE);
+
+  const invokerRef = useRef(invoker);
+  invokerRef.current = invoker;
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  // Id of the latest call, only whose outcome is shown; bumped on unmount
+  const callId = useRef(0);
+  useEffect(
+    () => () => {
+      callId.current += 1;
+    },
+    [],
+  );
+
+  const mutateAsync = useCallback(async (...args: TArgs) => {
+    const id = ++callId.current;
+    setState((current) => ({ ...current, isLoading: true }));
+    try {
+      const data = await invokerRef.current(...args);
+      if (id === callId.current) {
+        setState({ data, error: undefined, isLoading: false });
+      }
+      optionsRef.current.onSuccess?.(data, args);
+      return data;
+    } catch (error) {
+      if (id === callId.current) {
+        setState({ data: undefined, error, isLoading: false });
+      }
+      optionsRef.current.onError?.(error, args);
+      throw error;
+    }
+  }, []);
+
+  const mutate = useCallback(
+    (...args: TArgs) => {
+      mutateAsync(...args).catch(() => {});
+    },
+    [mutateAsync],
+  );
+
+  const reset = useCallback(() => {
+    callId.current += 1;
+    setState(IDLE_STATE);
+  }, []);
+
+  return { ...state, mutate, mutateAsync, reset };
+}
@@ -0,0 +1,115 @@
+import type { IpcSubscribe } from './use-ipc-event';
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import { createIpcSerializer } from '../create-ipc-serializer';
+
+// Encodes arguments for their key, so Dates, Maps, Sets and BigInts compare by value
+const keySerializer = createIpcSerializer();
+
+// An `invoke.xxx` invoker of a schema
+export type IpcInvoker<TArgs extends any[] = any[], TData = unknown> = (
+  ...args: TArgs
+) => Promise<TData>;
+
+export interface UseIpcQueryOptions {
+  /** Waits with the call while false, e.g. until its arguments are known */
+  enabled?: boolean;
+  /** Events after which the data is stale and fetched again */
+  invalidateOn?: IpcSubscribe | IpcSubscribe[];
+  /** Identifies the arguments, replacing the key built from them; calls again on change */
+  key?: string;
+}
+
+export interface UseIpcQueryResult<TData> {
+  /** Result of the last successful call, kept while fetching again */
+  data: TData | undefined;
+  /** Error of the last call, cleared once a call succeeds */
+  error: unknown;
+  isLoading: boolean;
+  /** Calls the handler again, resolving once the state is updated */
+  refetch: () => Promise<void>;
+}
+
+interface QueryState<TData> {
+  data: TData | undefined;
+  error: unknown;
+  isLoading: boolean;
+}
+
+/**
+ * Calls a handler when the component mounts and whenever the arguments change,
+ * tracking its result, error and loading state. Results of calls overtaken by a newer
+ * one, or arriving after unmount, are dropped. Arguments are compared by their JSON
+ * encoding, with Dates, Maps, Sets, BigInts and RegExps encoded by value, so they may
+ * be passed inline; pass `key` for arguments of other types.
+ *
+ * @example
+ * ```tsx
+ * const { data: user, error, isLoading } = useIpcQuery(appApi.invoke.getUser, [userId], {
+ *   invalidateOn: appApi.events.onUserUpdated,
+ * });
+ * ```
+ */
+export function useIpcQuery<TArgs extends any[], TData>(
+  invoker: IpcInvoker<TArgs, TData>,
+  args: TArgs,
+  options: UseIpcQueryOptions = {},
+): UseIpcQueryResult<TData> {
+  const { enabled = true, invalidateOn, key } = options;
+  const [state, setState] = useState<QueryState<TData>>({
+    data: undefined,
+    error: undefined,
+    isLoading: enabled,
+  });
+
+  // Latest values, read by the call without making it change identity
+  const invokerRef = useRef(invoker);
+  invokerRef.current = invoker;
+  const argsRef = useRef(args);
+  argsRef.current = args;
+  const invalidateOnRef = useRef(invalidateOn);
+  invalidateOnRef.current = invalidateOn;
+
+  // Id of the latest call, bumped on unmount so pending results are ignored
+  const callId = useRef(0);
+  const argsKey = key ?? JSON.stringify(keySerializer.serialize(args));
+
+  const refetch = useCallback(async () => {
+    const id = ++callId.current;
+    setState((current) =>
+      current.isLoading ? current : { ...current, isLoading: true },
+    );
+    try {
+      const data = await invokerRef.current(...argsRef.current);
+      if (id === callId.current) {
+        setState({ data, error: undefined, isLoading: false });
+      }
+    } catch (error) {
+      if (id === callId.current) {
+        setState((current) => ({ data: current.data, error, isLoading: false }));
+      }
+    }
+    // Arguments are read from the ref, and compared by value through their key
+  }, [argsKey]);
+
+  useEffect(() => {
+    if (!enabled) {
+      setState((current) =>
+        current.isLoading ? { ...current, isLoading: false } : current,
+      );
+      return undefined;
+    }
+
+    void refetch();
+    const subscriptions = [invalidateOnRef.current ?? []]
+      .flat()
+      .map((subscribe) => subscribe(() => void refetch()));
+
+    return () => {
+      callId.current += 1;
+      subscriptions.forEach((unsubscribe) => unsubscribe());
+    };
+  }, [enabled, refetch]);
+
+  return { ...state, refetch };
+}
@@ -0,0 +1,22 @@
+import type { MissingHandlersMode } from './types';
+
+import { IpcMissingHandlersError } from './errors';
+
+/**
+ * Reports declared channels without an implementation, throwing an
+ * {@link IpcMissingHandlersError} in `'throw'` mode or logging a warning in `'warn'` mode.
+ */
+export function reportMissingHandlers(
+  channels: string[],
+  mode: MissingHandlersMode,
+): void {
+  if (channels.length === 0) {
+    return;
+  }
+
+  const error = new IpcMissingHandlersError(channels);
+  if (mode === 'throw') {
+    throw error;
+  }
+  console.warn(error.message);
+}
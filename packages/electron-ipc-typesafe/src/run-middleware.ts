@@ -0,0 +1,32 @@
+import type { IpcMiddleware, IpcMiddlewareContext } from './types';
+
+/**
+ * Runs a handler call through a middleware chain, outermost first. Each middleware
+ * decides whether to call `next`, so any of them can short-circuit the handler,
+ * replace its result or map the errors it throws.
+ */
+export async function runMiddleware(
+  middleware: readonly IpcMiddleware<any, any>[],
+  context: IpcMiddlewareContext<any>,
+  handler: () => unknown,
+): Promise<unknown> {
+  const dispatch = async (index: number): Promise<unknown> => {
+    const current = middleware[index];
+    if (!current) {
+      return handler();
+    }
+
+    let called = false;
+    return current(context, async () => {
+      if (called) {
+        throw new Error(
+          `next() called multiple times in middleware for '${context.channel}'`,
+        );
+      }
+      called = true;
+      return dispatch(index + 1);
+    });
+  };
+
+  return dispatch(0);
+}
@@ -0,0 +1,27 @@
+import type { EventOptions, HandlerOptions, StreamOptions } from './types';
+
+// `defineHandler` / `defineEvent` / `defineStream` return `{ options }` at runtime when options are
+// given, and `undefined` otherwise. Event schemas may also hold plain tuples.
+function readOptions(definition: unknown): Record<string, unknown> {
+  if (
+    typeof definition === 'object' &&
+    definition !== null &&
+    !Array.isArray(definition) &&
+    'options' in definition
+  ) {
+    return (definition as { options: Record<string, unknown> }).options;
+  }
+  return {};
+}
+
+export function getHandlerOptions(definition: unknown): HandlerOptions {
+  return readOptions(definition) as HandlerOptions;
+}
+
+export function getEventOptions(definition: unknown): EventOptions {
+  return readOptions(definition) as EventOptions;
+}
+
+export function getStreamOptions(definition: unknown): StreamOptions {
+  return readOptions(definition) as StreamOptions;
+}
@@ -0,0 +1,137 @@
+import {
+  IpcError,
+  IpcPortClosedError,
+  IpcRemoteError,
+  IpcRateLimitError,
+  IpcSchemaMismatchError,
+  IpcSecurityError,
+  IpcTimeoutError,
+  IpcValidationError,
+  IpcWindowGoneError,
+} from './errors';
+
+// Guards against self-referencing cause chains
+const MAX_CAUSE_DEPTH = 10;
+
+// Properties carried explicitly and therefore excluded from `data`
+const RESERVED_KEYS = new Set(['name', 'message', 'stack', 'code', 'cause']);
+
+export interface SerializedIpcError {
+  name: string;
+  message: string;
+  channel?: string;
+  code?: string | number;
+  data?: Record<string, unknown>;
+  cause?: SerializedIpcError;
+}
+
+type ErrorClass = abstract new (...args: any[]) => Error;
+
+// Error classes rebuilt as real instances in the renderer, keyed by name
+const errorClasses = new Map<string, ErrorClass>([
+  ['IpcError', IpcError],
+  ['IpcValidationError', IpcValidationError],
+  ['IpcTimeoutError', IpcTimeoutError],
+  ['IpcWindowGoneError', IpcWindowGoneError],
+  ['IpcPortClosedError', IpcPortClosedError],
+  ['IpcSecurityError', IpcSecurityError],
+  ['IpcRateLimitError', IpcRateLimitError],
+  ['IpcSchemaMismatchError', IpcSchemaMismatchError],
+]);
+
+/**
+ * Registers a custom error class so errors of that name thrown by main-process
+ * handlers are rehydrated as instances of it instead of {@link IpcRemoteError}.
+ * Must be called in the renderer (and preload, when using window-based access).
+ */
+export function registerIpcError(errorClass: ErrorClass, name = errorClass.name): void {
+  errorClasses.set(name, errorClass);
+}
+
+function isCloneable(value: unknown): boolean {
+  try {
+    structuredClone(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Converts any thrown value into a structured-clone-safe description. Own
+ * enumerable properties other than the standard ones end up in `data`; values that
+ * cannot be cloned are dropped.
+ */
+export function serializeError(
+  error: unknown,
+  channel?: string,
+  depth = 0,
+): SerializedIpcError {
+  if (!(error instanceof Error)) {
+    return { name: 'Error', message: String(error), channel };
+  }
+
+  const serialized: SerializedIpcError = {
+    name: error.name,
+    message: error.message,
+    channel,
+  };
+
+  const { code } = error as { code?: unknown };
+  if (typeof code === 'string' || typeof code === 'number') {
+    serialized.code = code;
+  }
+
+  const data: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(error)) {
+    if (!RESERVED_KEYS.has(key) && isCloneable(value)) {
+      data[key] = value;
+    }
+  }
+  if (Object.keys(data).length > 0) {
+    serialized.data = data;
+  }
+
+  if (error.cause !== undefined && depth < MAX_CAUSE_DEPTH) {
+    serialized.cause = serializeError(error.cause, undefined, depth + 1);
+  }
+
+  return serialized;
+}
+
+/**
+ * Rebuilds an error serialized with {@link serializeError}. Registered classes are
+ * restored with their prototype; everything else becomes an {@link IpcRemoteError}.
+ */
+export function deserializeError(serialized: SerializedIpcError): Error {
+  const cause = serialized.cause ? deserializeError(serialized.cause) : undefined;
+  const errorClass = errorClasses.get(serialized.name);
+
+  if (!errorClass) {
+    return new IpcRemoteError(serialized, cause ? { cause } : undefined);
+  }
+
+  // Bypass the constructor, whose signature is unknown, and restore the fields
+  const error = Object.create(errorClass.prototype) as Error & Record<string, unknown>;
+  const fields: Record<string, unknown> = {
+    ...serialized.data,
+    name: serialized.name,
+    message: serialized.message,
+    stack: `${serialized.name}: ${serialized.message}`,
+  };
+  if (serialized.code !== undefined) {
+    fields.code = serialized.code;
+  }
+  if (cause) {
+    fields.cause = cause;
+  }
+  for (const [key, value] of Object.entries(fields)) {
+    Object.defineProperty(error, key, {
+      value,
+      writable: true,
+      configurable: true,
+      enumerable: !RESERVED_KEYS.has(key) || key === 'code',
+    });
+  }
+  return error;
+}
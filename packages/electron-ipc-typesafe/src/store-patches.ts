@@ -0,0 +1,68 @@
+import type { StorePatch, StorePath } from './types';
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Patches turning `previous` into `next`. Parts still identical are skipped, so states
+ * updated immutably are compared along the changed paths only. Plain objects and arrays
+ * of unchanged length are compared member by member; anything else is replaced whole.
+ */
+export function diffState(
+  previous: unknown,
+  next: unknown,
+  path: StorePath = [],
+): StorePatch[] {
+  if (Object.is(previous, next)) {
+    return [];
+  }
+
+  if (isPlainObject(previous) && isPlainObject(next)) {
+    const removed = Object.keys(previous)
+      .filter((key) => !Object.hasOwn(next, key))
+      .map((key): StorePatch => ({ op: 'delete', path: [...path, key] }));
+    const changed = Object.keys(next).flatMap((key) =>
+      Object.hasOwn(previous, key)
+        ? diffState(previous[key], next[key], [...path, key])
+        : [{ op: 'set' as const, path: [...path, key], value: next[key] }],
+    );
+    return [...removed, ...changed];
+  }
+
+  if (Array.isArray(previous) && Array.isArray(next) && previous.length === next.length) {
+    return next.flatMap((item, index) =>
+      diffState(previous[index], item, [...path, index]),
+    );
+  }
+
+  return [{ op: 'set', path, value: next }];
+}
+
+// Copies the containers along the path, leaving everything else shared
+function applyPatch(state: unknown, patch: StorePatch, depth = 0): unknown {
+  if (depth === patch.path.length) {
+    return patch.op === 'set' ? patch.value : undefined;
+  }
+
+  const key = patch.path[depth]!;
+  const copy: any = Array.isArray(state) ? [...state] : { ...(state as object) };
+  if (patch.op === 'delete' && depth === patch.path.length - 1) {
+    delete copy[key];
+  } else {
+    copy[key] = applyPatch(copy[key], patch, depth + 1);
+  }
+  return copy;
+}
+
+/** Applies patches from {@link diffState} without mutating the state they apply to */
+export function applyPatches<TState>(state: TState, patches: StorePatch[]): TState {
+  return patches.reduce<unknown>(
+    (current, patch) => applyPatch(current, patch),
+    state,
+  ) as TState;
+}
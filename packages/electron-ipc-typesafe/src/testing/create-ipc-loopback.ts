@@ -0,0 +1,280 @@
+import type { BrowserWindow, IpcMain, IpcRenderer, WebContents } from 'electron';
+import type { IpcWindowResolver } from '../types';
+
+type Listener = (event: any, ...args: any[]) => void;
+
+export interface LoopbackRendererOptions {
+  /** Window name reported by the loopback's window resolver */
+  name?: string;
+  /** Origin of the renderer's main frame, as seen by channel security checks */
+  origin?: string;
+}
+
+export interface LoopbackRenderer {
+  ipcRenderer: IpcRenderer;
+  webContents: WebContents;
+  window: BrowserWindow;
+  /**
+   * Stand-in for the renderer's global scope, filled by `contextBridge` and delivering
+   * window messages
+   */
+  world: Record<string, any>;
+  contextBridge: { exposeInMainWorld: (apiKey: string, api: unknown) => void };
+  /** Destroys the window, dropping its listeners and any later message to it */
+  close: () => void;
+}
+
+export interface IpcLoopback {
+  ipcMain: IpcMain;
+  /** Window access for `registerMainHandlers`, naming renderers after their option */
+  windows: IpcWindowResolver;
+  createRenderer: (options?: LoopbackRendererOptions) => LoopbackRenderer;
+  /** Resolves once every message in flight, including the ones it causes, is delivered */
+  flush: () => Promise<void>;
+}
+
+// Electron prefixes errors of failed invokes with the channel before rejecting
+function remoteInvokeError(channel: string, error: unknown): Error {
+  return new Error(`Error invoking remote method '${channel}': ${String(error)}`);
+}
+
+// Gives a DOM MessagePort the event-emitter surface of Electron's MessagePortMain
+function toMainPort(port: MessagePort) {
+  return {
+    on: (type: string, listener: (event: any) => void) =>
+      port.addEventListener(type as 'message', listener),
+    off: (type: string, listener: (event: any) => void) =>
+      port.removeEventListener(type as 'message', listener),
+    start: () => port.start(),
+    postMessage: (message: unknown) => port.postMessage(message),
+    close: () => port.close(),
+  };
+}
+
+/**
+ * Connects `registerMainHandlers` and `exposeInPreload` inside one Node process, for
+ * end-to-end IPC tests without Electron. Everything crossing the process boundary is
+ * structured cloned, so functions fail to send and class instances arrive as plain
+ * objects like they do in Electron, and messages arrive asynchronously.
+ *
+ * @example
+ * ```typescript
+ * const loopback = createIpcLoopback();
+ * appApi.registerMainHandlers(loopback.ipcMain, { windows: loopback.windows });
+ *
+ * const renderer = loopback.createRenderer({ name: 'main' });
+ * renderer.contextBridge.exposeInMainWorld('appApi', appApi.exposeInPreload(renderer.ipcRenderer));
+ * vi.stubGlobal('window', renderer.world);
+ *
+ * await appApi.invoke.openWindow('settings');
+ * ```
+ */
+export function createIpcLoopback(): IpcLoopback {
+  const invokeHandlers = new Map<string, (event: any, ...args: any[]) => unknown>();
+  const mainListeners = new Map<string, Set<Listener>>();
+  const renderers: LoopbackRenderer[] = [];
+  const names = new Map<WebContents, string | undefined>();
+  let pending = 0;
+  let nextId = 1;
+
+  // Delivers a message on a later macrotask, like a real process hop
+  const deliver = (callback: () => void) => {
+    pending += 1;
+    setTimeout(() => {
+      pending -= 1;
+      callback();
+    }, 0);
+  };
+
+  const addListener = (
+    listeners: Map<string, Set<Listener>>,
+    channel: string,
+    listener: Listener,
+  ) => {
+    if (!listeners.has(channel)) {
+      listeners.set(channel, new Set());
+    }
+    listeners.get(channel)!.add(listener);
+  };
+
+  const ipcMain = {
+    handle: (channel: string, handler: (event: any, ...args: any[]) => unknown) => {
+      if (invokeHandlers.has(channel)) {
+        throw new Error(`Attempted to register a second handler for '${channel}'`);
+      }
+      invokeHandlers.set(channel, handler);
+    },
+    removeHandler: (channel: string) => {
+      invokeHandlers.delete(channel);
+    },
+    on: (channel: string, listener: Listener) => {
+      addListener(mainListeners, channel, listener);
+      return ipcMain;
+    },
+    removeListener: (channel: string, listener: Listener) => {
+      mainListeners.get(channel)?.delete(listener);
+      return ipcMain;
+    },
+  } as unknown as IpcMain;
+
+  const createRenderer = (options: LoopbackRendererOptions = {}): LoopbackRenderer => {
+    const id = nextId++;
+    const rendererListeners = new Map<string, Set<Listener>>();
+    const senderFrame = {
+      origin: options.origin ?? 'app://index',
+      url: `${options.origin ?? 'app://index'}/`,
+      parent: null,
+    };
+    let destroyed = false;
+    // Listeners of webContents events, of which only 'destroyed' is ever emitted
+    const contentsListeners = new Map<string, Set<Listener>>();
+
+    const webContents = {
+      id,
+      isDestroyed: () => destroyed,
+      on: (name: string, listener: Listener) => {
+        addListener(contentsListeners, name, listener);
+        return webContents;
+      },
+      removeListener: (name: string, listener: Listener) => {
+        contentsListeners.get(name)?.delete(listener);
+        return webContents;
+      },
+      send: (channel: string, ...args: unknown[]) => {
+        const payload = structuredClone(args);
+        deliver(() => {
+          if (destroyed) {
+            return;
+          }
+          for (const listener of rendererListeners.get(channel) ?? []) {
+            listener({ sender: ipcRenderer, senderId: 0 }, ...payload);
+          }
+        });
+      },
+    } as unknown as WebContents;
+
+    const mainEvent = (ports: unknown[] = []) => ({
+      sender: webContents,
+      senderFrame,
+      processId: id,
+      frameId: 1,
+      ports,
+    });
+
+    const ipcRenderer = {
+      invoke: async (channel: string, ...args: unknown[]) => {
+        const payload = structuredClone(args);
+        await new Promise<void>((resolve) => deliver(resolve));
+
+        const handler = invokeHandlers.get(channel);
+        if (!handler) {
+          throw remoteInvokeError(
+            channel,
+            `Error: No handler registered for '${channel}'`,
+          );
+        }
+
+        let result: unknown;
+        try {
+          result = await handler(mainEvent(), ...payload);
+        } catch (error) {
+          throw remoteInvokeError(channel, error);
+        }
+        try {
+          return structuredClone(result);
+        } catch (error) {
+          throw remoteInvokeError(channel, error);
+        }
+      },
+      send: (channel: string, ...args: unknown[]) => {
+        const payload = structuredClone(args);
+        deliver(() => {
+          for (const listener of mainListeners.get(channel) ?? []) {
+            listener(mainEvent(), ...payload);
+          }
+        });
+      },
+      postMessage: (channel: string, message: unknown, transfer: MessagePort[] = []) => {
+        const payload = structuredClone(message);
+        deliver(() => {
+          for (const listener of mainListeners.get(channel) ?? []) {
+            listener(mainEvent(transfer.map(toMainPort)), payload);
+          }
+        });
+      },
+      on: (channel: string, listener: Listener) => {
+        addListener(rendererListeners, channel, listener);
+        return ipcRenderer;
+      },
+      removeListener: (channel: string, listener: Listener) => {
+        rendererListeners.get(channel)?.delete(listener);
+        return ipcRenderer;
+      },
+    } as unknown as IpcRenderer;
+
+    const window = {
+      id,
+      webContents,
+      isDestroyed: () => destroyed,
+    } as unknown as BrowserWindow;
+
+    // Window messages reach the page, which is how the preload hands it message ports
+    const windowEvents = new EventTarget();
+    const world: Record<string, any> = {
+      addEventListener: windowEvents.addEventListener.bind(windowEvents),
+      removeEventListener: windowEvents.removeEventListener.bind(windowEvents),
+      postMessage: (
+        message: unknown,
+        _targetOrigin: string,
+        transfer: MessagePort[] = [],
+      ) => {
+        const data = structuredClone(message);
+        deliver(() => {
+          windowEvents.dispatchEvent(
+            new MessageEvent('message', { data, ports: transfer }),
+          );
+        });
+      },
+    };
+
+    const renderer: LoopbackRenderer = {
+      ipcRenderer,
+      webContents,
+      window,
+      world,
+      contextBridge: {
+        exposeInMainWorld: (apiKey, api) => {
+          world[apiKey] = api;
+        },
+      },
+      close: () => {
+        if (destroyed) {
+          return;
+        }
+        destroyed = true;
+        rendererListeners.clear();
+        renderers.splice(renderers.indexOf(renderer), 1);
+        for (const listener of contentsListeners.get('destroyed') ?? []) {
+          listener({});
+        }
+      },
+    };
+
+    renderers.push(renderer);
+    names.set(webContents, options.name);
+    return renderer;
+  };
+
+  const windows: IpcWindowResolver = {
+    getAllWindows: () => renderers.map((renderer) => renderer.window),
+    getWindowName: (webContents) => names.get(webContents),
+  };
+
+  const flush = async () => {
+    while (pending > 0) {
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+  };
+
+  return { ipcMain, windows, createRenderer, flush };
+}
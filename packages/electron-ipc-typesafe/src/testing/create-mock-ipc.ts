@@ -0,0 +1,342 @@
+import type { IpcRenderer } from 'electron';
+import type {
+  EventSchema,
+  HandlerSchema,
+  IpcHandlerSchemas,
+  IpcSchemaDefinition,
+  IpcStoreSchemas,
+  RendererEventSchema,
+  RendererHandlerSchemas,
+  StoreMessage,
+} from '../types';
+
+import { createScopedIpcSchema } from '../create-ipc-schema';
+import { deserializeArgs, serializeArgs } from '../create-ipc-serializer';
+import { isIpcRequest } from '../ipc-request';
+import {
+  createIpcErrorResponse,
+  createIpcResponse,
+  unwrapIpcResponse,
+} from '../ipc-response';
+import { serializeError } from '../serialize-error';
+
+// Mock implementation of a handler, called without the main-process event
+export type MockHandler<T extends HandlerSchema> = (
+  ...args: T['args']
+) => T['return'] | Promise<T['return']>;
+
+export type MockHandlers<THandlerSchemas extends IpcHandlerSchemas> = {
+  [K in keyof THandlerSchemas]?: MockHandler<THandlerSchemas[K]>;
+};
+
+export interface MockIpcOptions<
+  THandlerSchemas extends IpcHandlerSchemas,
+  TStoreSchemas extends IpcStoreSchemas = IpcStoreSchemas,
+> {
+  /** Initial handler implementations, replaceable later with `handle` */
+  handlers?: MockHandlers<THandlerSchemas>;
+  /** Initial state of stores, replaceable later with `setStoreState` */
+  stores?: { [K in keyof TStoreSchemas]?: TStoreSchemas[K]['state'] };
+}
+
+export interface MockIpc<
+  THandlerSchemas extends IpcHandlerSchemas,
+  TEventSchema extends EventSchema,
+  TRendererEventSchema extends RendererEventSchema,
+  TRendererHandlerSchemas extends RendererHandlerSchemas = RendererHandlerSchemas,
+  TStoreSchemas extends IpcStoreSchemas = IpcStoreSchemas,
+> {
+  /** The API a preload script would expose, as installed on `window` */
+  api: any;
+  /** Sets or replaces the implementation of a handler */
+  handle: <K extends keyof THandlerSchemas>(
+    channel: K,
+    handler: MockHandler<THandlerSchemas[K]>,
+  ) => void;
+  /** Arguments of every call made to a handler, oldest first */
+  calls: <K extends keyof THandlerSchemas>(channel: K) => THandlerSchemas[K]['args'][];
+  /** Arguments of every renderer-to-main event emitted on a channel, oldest first */
+  emitted: <K extends keyof TRendererEventSchema>(
+    channel: K,
+  ) => TRendererEventSchema[K][];
+  /** Delivers a main-to-renderer event to the `events.onXxx` subscribers */
+  emitEvent: <K extends keyof TEventSchema>(channel: K, ...args: TEventSchema[K]) => void;
+  /** Calls the renderer handler registered with `answer`, like main's `ask` would */
+  ask: <K extends keyof TRendererHandlerSchemas>(
+    channel: K,
+    ...args: TRendererHandlerSchemas[K]['args']
+  ) => Promise<TRendererHandlerSchemas[K]['return']>;
+  /** Sets the state of a store, sending it to the renderer's subscribers */
+  setStoreState: <K extends keyof TStoreSchemas>(
+    channel: K,
+    state: TStoreSchemas[K]['state'],
+  ) => void;
+  /** Number of subscribers currently listening to an event */
+  listenerCount: (channel: keyof TEventSchema) => number;
+  /** Exposes the API on `window` (or the given target) under the schema's API key */
+  install: (target?: Record<string, any>) => void;
+  /** Restores what the API key held on the target before `install` */
+  uninstall: () => void;
+  /** Forgets recorded calls and emitted events, keeping handlers and subscribers */
+  reset: () => void;
+}
+
+declare const window: Record<string, any>;
+
+/**
+ * Builds an in-memory IPC bridge for renderer unit tests. The preload API of the
+ * schema is created against a fake `ipcRenderer` whose invokes run mock handlers, so
+ * renderer code calling `schema.invoke.xxx()` or subscribing to `schema.events.onXxx`
+ * works unchanged once the mock is installed.
+ *
+ * @example
+ * ```typescript
+ * const ipc = createMockIpc(appApi, {
+ *   handlers: { 'open-window': async () => ({ success: true, message: 'ok' }) },
+ * });
+ * ipc.install();
+ *
+ * await appApi.invoke.openWindow('settings');
+ * expect(ipc.calls('open-window')).toEqual([['settings']]);
+ *
+ * ipc.emitEvent('settings-changed', { theme: 'dark' });
+ * ```
+ */
+export function createMockIpc<
+  THandlerSchemas extends IpcHandlerSchemas,
+  TEventSchema extends EventSchema,
+  TRendererEventSchema extends RendererEventSchema,
+  TRendererHandlerSchemas extends RendererHandlerSchemas = RendererHandlerSchemas,
+  TStoreSchemas extends IpcStoreSchemas = IpcStoreSchemas,
+>(
+  schema: {
+    definition: IpcSchemaDefinition<
+      THandlerSchemas,
+      TEventSchema,
+      TRendererEventSchema,
+      any,
+      any,
+      TStoreSchemas,
+      TRendererHandlerSchemas
+    >;
+  },
+  options: MockIpcOptions<THandlerSchemas, TStoreSchemas> = {},
+): MockIpc<
+  THandlerSchemas,
+  TEventSchema,
+  TRendererEventSchema,
+  TRendererHandlerSchemas,
+  TStoreSchemas
+> {
+  const { definition } = schema;
+  const { apiKey, namespace, channelPrefix, serializer } = definition;
+
+  const handlers = new Map<string, (...args: any[]) => unknown>(
+    Object.entries(options.handlers ?? {}) as [string, (...args: any[]) => unknown][],
+  );
+  const calls = new Map<string, unknown[][]>();
+  const emitted = new Map<string, unknown[][]>();
+  const listeners = new Map<string, Set<(...args: any[]) => void>>();
+  // Calls made with `ask`, waiting for the preload's answer
+  const asks = new Map<number, (response: unknown) => void>();
+  let nextAskId = 0;
+  // State of stores, versioned like main's so every update reaches subscribers
+  const storeStates = new Map<string, { version: number; state: unknown }>(
+    Object.entries(options.stores ?? {}).map(([channel, state]) => [
+      channel,
+      { version: 0, state },
+    ]),
+  );
+  let installed: { target: Record<string, any>; previous: unknown } | null = null;
+
+  const wire = (channel: string) =>
+    channelPrefix === undefined ? channel : `${channelPrefix}:${channel}`;
+  const unwire = (channel: string) =>
+    channelPrefix === undefined ? channel : channel.slice(channelPrefix.length + 1);
+
+  const record = (log: Map<string, unknown[][]>, channel: string, args: unknown[]) => {
+    if (!log.has(channel)) {
+      log.set(channel, []);
+    }
+    log.get(channel)!.push(args);
+  };
+
+  // Store messages are encoded whole, like main does
+  const encodeStoreMessage = (message: StoreMessage) =>
+    serializer ? serializer.serialize(message) : message;
+
+  // Answers a store subscription with the current state, like main would
+  const subscribeStore = (wireChannel: string, request: unknown) => {
+    if (request === 'unsubscribe') {
+      return null;
+    }
+    const entry = storeStates.get(unwire(wireChannel));
+    if (!entry) {
+      throw new Error(
+        `Error invoking remote method '${wireChannel}': Error: No store registered for '${wireChannel}'`,
+      );
+    }
+    return encodeStoreMessage({ type: 'snapshot', ...entry });
+  };
+
+  // Runs a mock handler the way main would, answering with a response envelope
+  const invoke = async (wireChannel: string, ...data: unknown[]) => {
+    const channel = unwire(wireChannel);
+    if (Object.hasOwn(definition.stores, channel)) {
+      return subscribeStore(wireChannel, data[0]);
+    }
+    const request = data.length === 1 && isIpcRequest(data[0]) ? data[0] : null;
+    if (request && 'abort' in request) {
+      return createIpcResponse(undefined);
+    }
+
+    const handler = handlers.get(channel);
+    if (!handler) {
+      throw new Error(
+        `Error invoking remote method '${wireChannel}': Error: No handler registered for '${wireChannel}'`,
+      );
+    }
+
+    // Handlers and recorded calls see values as main would, decoded by the serializer
+    const args = deserializeArgs(serializer, request ? request.args : data);
+    record(calls, channel, args);
+    try {
+      const value = await handler(...args);
+      return createIpcResponse(serializer ? serializer.serialize(value) : value);
+    } catch (error) {
+      return createIpcErrorResponse(serializeError(error, channel));
+    }
+  };
+
+  const ipcRenderer = {
+    invoke,
+    send: (wireChannel: string, ...args: unknown[]) => {
+      const channel = unwire(wireChannel);
+      // Answers to `ask` travel back on the renderer handler's channel
+      if (Object.hasOwn(definition.rendererHandlers, channel)) {
+        const { id, response } = args[0] as { id: number; response: unknown };
+        asks.get(id)?.(response);
+        asks.delete(id);
+        return;
+      }
+      // Relayed messages lead with their target, which is sent as is
+      if (Object.hasOwn(definition.relays, channel)) {
+        const [target, ...data] = args;
+        record(emitted, channel, [target, ...deserializeArgs(serializer, data)]);
+        return;
+      }
+      record(emitted, channel, deserializeArgs(serializer, args));
+    },
+    on: (wireChannel: string, listener: (...args: any[]) => void) => {
+      if (!listeners.has(wireChannel)) {
+        listeners.set(wireChannel, new Set());
+      }
+      listeners.get(wireChannel)!.add(listener);
+      return ipcRenderer;
+    },
+    removeListener: (wireChannel: string, listener: (...args: any[]) => void) => {
+      listeners.get(wireChannel)?.delete(listener);
+      return ipcRenderer;
+    },
+    postMessage: (wireChannel: string) => {
+      throw new Error(
+        `Streams are not supported by the mock IPC bridge, cannot start '${unwire(wireChannel)}'`,
+      );
+    },
+  } as unknown as IpcRenderer;
+
+  const api = createScopedIpcSchema(
+    {
+      handlers: definition.handlers,
+      events: definition.events,
+      rendererEvents: definition.rendererEvents,
+      relays: definition.relays,
+      streams: definition.streams,
+      stores: definition.stores,
+      rendererHandlers: definition.rendererHandlers,
+      serializer,
+    },
+    { apiKey, namespace, channelPrefix },
+  ).exposeInPreload(ipcRenderer);
+  // Transferable calls and events take the plain path, so they are recorded like others
+  delete api.$invokePort;
+  delete api.emit?.$port;
+
+  const install = (
+    target: Record<string, any> | undefined = typeof window === 'undefined'
+      ? undefined
+      : window,
+  ) => {
+    if (!target) {
+      throw new Error(
+        'No window to install the mock IPC bridge on, use a jsdom or happy-dom test environment or pass a target',
+      );
+    }
+    if (installed) {
+      throw new Error(`Mock IPC bridge for ${apiKey} is already installed`);
+    }
+
+    installed = { target, previous: target[apiKey] };
+    target[apiKey] =
+      namespace === undefined ? api : { ...target[apiKey], [namespace]: api };
+  };
+
+  const uninstall = () => {
+    if (!installed) {
+      return;
+    }
+
+    const { target, previous } = installed;
+    if (previous === undefined) {
+      delete target[apiKey];
+    } else {
+      target[apiKey] = previous;
+    }
+    installed = null;
+  };
+
+  return {
+    api,
+    handle: (channel, handler) => {
+      handlers.set(channel as string, handler as (...args: any[]) => unknown);
+    },
+    calls: (channel) => (calls.get(channel as string) ?? []) as any[],
+    emitted: (channel) => (emitted.get(channel as string) ?? []) as any[],
+    emitEvent: (channel, ...args) => {
+      // Listeners receive the IPC event first, like ipcRenderer listeners do
+      const event = { sender: ipcRenderer };
+      const payload = serializeArgs(serializer, [...args]);
+      for (const listener of listeners.get(wire(channel as string)) ?? []) {
+        listener(event, ...payload);
+      }
+    },
+    ask: async (channel, ...args) => {
+      const id = nextAskId++;
+      const response = new Promise((resolve) => asks.set(id, resolve));
+      const event = { sender: ipcRenderer };
+      for (const listener of listeners.get(wire(channel as string)) ?? []) {
+        listener(event, { id, args: serializeArgs(serializer, [...args]) });
+      }
+      const value = unwrapIpcResponse(await response);
+      return (serializer ? serializer.deserialize(value) : value) as any;
+    },
+    setStoreState: (channel, state) => {
+      const previous = storeStates.get(channel as string);
+      const entry = { version: previous ? previous.version + 1 : 0, state };
+      storeStates.set(channel as string, entry);
+      // A snapshot replaces the subscribers' state whatever version they hold
+      const message = encodeStoreMessage({ type: 'snapshot', ...entry });
+      const event = { sender: ipcRenderer };
+      for (const listener of listeners.get(wire(channel as string)) ?? []) {
+        listener(event, message);
+      }
+    },
+    listenerCount: (channel) => listeners.get(wire(channel as string))?.size ?? 0,
+    install,
+    uninstall,
+    reset: () => {
+      calls.clear();
+      emitted.clear();
+    },
+  };
+}
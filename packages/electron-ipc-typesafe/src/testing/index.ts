@@ -0,0 +1,2 @@
+export * from './create-ipc-loopback';
+export * from './create-mock-ipc';
@@ -0,0 +1,115 @@
+import type { IpcMain, IpcMainEvent, IpcRenderer } from 'electron';
+import type { PortMessage } from './port-rpc';
+
+import { createPortCaller, servePort } from './port-rpc';
+
+// Declare window for TypeScript in preload and renderer context
+declare const window: any;
+
+// Channels, prefixed like the schema's channels, handing main the ports of transferable
+// handler calls and renderer events
+export const TRANSFER_CHANNELS = {
+  handlers: '$transfer',
+  rendererEvents: '$transfer-events',
+} as const;
+
+// Marker property of the window message handing the page its end of a port
+const PORT_MESSAGE_KEY = '__ipcTransferPort';
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Collects the ArrayBuffers reachable from a value, directly or behind typed arrays and
+ * DataViews, through arrays and plain objects. A view over part of a buffer moves the
+ * whole buffer; SharedArrayBuffers are shared rather than moved and are left out.
+ */
+export function collectTransferables(
+  value: unknown,
+  found = new Set<ArrayBuffer>(),
+  seen = new Set<unknown>(),
+): ArrayBuffer[] {
+  if (value instanceof ArrayBuffer) {
+    found.add(value);
+  } else if (ArrayBuffer.isView(value)) {
+    if (value.buffer instanceof ArrayBuffer) {
+      found.add(value.buffer);
+    }
+  } else if ((Array.isArray(value) || isPlainObject(value)) && !seen.has(value)) {
+    seen.add(value);
+    Object.values(value).forEach((item) => collectTransferables(item, found, seen));
+  }
+  return [...found];
+}
+
+/**
+ * Opens a port pair in the preload, handing one end to main and the other to the page.
+ * Message ports cannot cross the context bridge, so the page receives its end in a
+ * window message tagged with the nonce it asked with.
+ */
+export function offerTransferPort(
+  ipcRenderer: IpcRenderer,
+  channel: string,
+  nonce: string,
+): void {
+  const { port1, port2 } = new MessageChannel();
+  ipcRenderer.postMessage(channel, null, [port2]);
+  window.postMessage({ [PORT_MESSAGE_KEY]: nonce }, '*', [port1]);
+}
+
+let nextNonce = 0;
+
+// Asks the preload for a port and resolves with the page's end of it
+async function openTransferPort(offer: (nonce: string) => void): Promise<MessagePort> {
+  const nonce = `${nextNonce++}:${Math.random()}`;
+  return new Promise((resolve, reject) => {
+    const onMessage = (event: MessageEvent) => {
+      if (event.data?.[PORT_MESSAGE_KEY] !== nonce || !event.ports[0]) {
+        return;
+      }
+      window.removeEventListener('message', onMessage);
+      resolve(event.ports[0]);
+    };
+    window.addEventListener('message', onMessage);
+    try {
+      offer(nonce);
+    } catch (error) {
+      window.removeEventListener('message', onMessage);
+      reject(error);
+    }
+  });
+}
+
+/**
+ * Builds the page side of a transfer port, opened on first use. Calls resolve with
+ * main's raw response; both calls and events move the ArrayBuffers of their arguments
+ * instead of copying them, detaching the sender's buffers.
+ */
+export function createTransferClient(
+  offer: (nonce: string) => void,
+): ReturnType<typeof createPortCaller> {
+  return createPortCaller(async () => openTransferPort(offer), collectTransferables);
+}
+
+/**
+ * Accepts the ports renderers open on a transfer channel, passing every call and event
+ * sent over them, with the event of the port's arrival, to `onMessage`. What it resolves
+ * with answers calls, and it must not reject.
+ */
+export function serveTransferPorts(
+  ipcMain: IpcMain,
+  channel: string,
+  onMessage: (event: IpcMainEvent, message: PortMessage) => Promise<unknown>,
+): void {
+  ipcMain.on(channel, (event) => {
+    const port = event.ports[0];
+    if (port) {
+      servePort(port, async (message) => onMessage(event, message));
+    }
+  });
+}
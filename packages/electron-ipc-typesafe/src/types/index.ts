@@ -1,3 +1,19 @@
 export * from './ipc-common';
 export * from './ipc-events';
 export * from './ipc-handlers';
+export * from './standard-schema';
+export * from './ipc-renderer-events';
+export * from './ipc-schema';
+export * from './ipc-windows';
+export * from './ipc-relays';
+export * from './ipc-streams';
+export * from './ipc-middleware';
+export * from './ipc-security';
+export * from './ipc-compose';
+export * from './ipc-contract';
+export * from './ipc-compatibility';
+export * from './ipc-tracing';
+export * from './ipc-stores';
+export * from './ipc-renderer-handlers';
+export * from './ipc-serializer';
+export * from './ipc-rate-limits';
@@ -11,3 +11,23 @@ export type RemoveFirstParameter<T> = T extends (
 ) => infer Return
   ? (...args: Rest) => Promisify<Return>
   : never;
+
+// Read-only view of state that must not be mutated in place
+export type DeepReadonly<T> = T extends (...args: any[]) => any
+  ? T
+  : T extends readonly (infer U)[]
+    ? readonly DeepReadonly<U>[]
+    : T extends object
+      ? { readonly [K in keyof T]: DeepReadonly<T[K]> }
+      : T;
+
+declare const transferred: unique symbol;
+
+/**
+ * Binary data moved rather than copied by channels declared with `transfer: true`. The
+ * sender gives up the buffer: once sent it is detached and reads as empty. A view moves
+ * the whole buffer behind it.
+ */
+export type Transfer<T extends ArrayBuffer | ArrayBufferView = ArrayBuffer> = T & {
+  readonly [transferred]?: true;
+};
@@ -0,0 +1,27 @@
+// Schema sections whose channels are compared between preload and main
+export type IpcSchemaSection =
+  | 'handlers'
+  | 'streams'
+  | 'events'
+  | 'rendererEvents'
+  | 'relays'
+  | 'stores'
+  | 'rendererHandlers';
+
+// How a preload running a different schema than main is reported
+export type CompatibilityMode = 'throw' | 'warn';
+
+export interface IpcChannelRef {
+  section: IpcSchemaSection;
+  channel: string;
+}
+
+// What main tells the preload about its schema
+export interface IpcSchemaManifest {
+  version?: string;
+  /** Hash of the version, the channels of every section and their shapes */
+  fingerprint: string;
+  channels: Record<IpcSchemaSection, string[]>;
+  /** Shape of every channel: the libraries of its validators and its transfer option */
+  signatures: Record<IpcSchemaSection, Record<string, string>>;
+}
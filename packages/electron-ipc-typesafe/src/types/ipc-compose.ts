@@ -0,0 +1,118 @@
+import type { IpcMain, IpcRenderer } from 'electron';
+import type { EventSchema } from './ipc-events';
+import type { IpcHandlerSchemas } from './ipc-handlers';
+import type { RelaySchema } from './ipc-relays';
+import type { RendererEventSchema } from './ipc-renderer-events';
+import type { RendererHandlerSchemas } from './ipc-renderer-handlers';
+import type {
+  EmptySchema,
+  IpcMainOptions,
+  IpcSchema,
+  IpcSchemaConfig,
+  MissingHandlersMode,
+} from './ipc-schema';
+import type { IpcStoreSchemas } from './ipc-stores';
+import type { IpcStreamSchemas } from './ipc-streams';
+
+export type IpcModuleConfig<
+  THandlerSchemas extends IpcHandlerSchemas,
+  TEventSchema extends EventSchema,
+  TRendererEventSchema extends RendererEventSchema,
+  TRelaySchema extends RelaySchema = EmptySchema,
+  TStreamSchemas extends IpcStreamSchemas = EmptySchema,
+  TWindowName extends string = string,
+  TStoreSchemas extends IpcStoreSchemas = EmptySchema,
+  TRendererHandlerSchemas extends RendererHandlerSchemas = EmptySchema,
+> = Omit<
+  IpcSchemaConfig<
+    THandlerSchemas,
+    TEventSchema,
+    TRendererEventSchema,
+    TRelaySchema,
+    TStreamSchemas,
+    TWindowName,
+    TStoreSchemas,
+    TRendererHandlerSchemas
+  >,
+  'apiKey'
+> & {
+  /**
+   * Prefix of the module's channels on the wire, joined with ':'. Defaults to the
+   * namespace the module is composed under; `false` keeps the declared channel names.
+   */
+  channelPrefix?: string | false;
+};
+
+/** A feature schema meant to be composed under a namespace with `composeIpcSchemas` */
+export interface IpcModule<
+  THandlerSchemas extends IpcHandlerSchemas = any,
+  TEventSchema extends EventSchema = any,
+  TRendererEventSchema extends RendererEventSchema = any,
+  TRelaySchema extends RelaySchema = any,
+  TStreamSchemas extends IpcStreamSchemas = any,
+  TWindowName extends string = any,
+  TStoreSchemas extends IpcStoreSchemas = any,
+  TRendererHandlerSchemas extends RendererHandlerSchemas = any,
+> {
+  config: IpcModuleConfig<
+    THandlerSchemas,
+    TEventSchema,
+    TRendererEventSchema,
+    TRelaySchema,
+    TStreamSchemas,
+    TWindowName,
+    TStoreSchemas,
+    TRendererHandlerSchemas
+  >;
+}
+
+export type IpcModules = Record<string, IpcModule>;
+
+// The schema API of a module, without the parts owned by the composed schema
+export type IpcModuleSchema<TModule> =
+  TModule extends IpcModule<
+    infer THandlerSchemas,
+    infer TEventSchema,
+    infer TRendererEventSchema,
+    infer TRelaySchema,
+    infer TStreamSchemas,
+    infer TWindowName,
+    infer TStoreSchemas,
+    infer TRendererHandlerSchemas
+  >
+    ? Omit<
+        IpcSchema<
+          THandlerSchemas,
+          TEventSchema,
+          TRendererEventSchema,
+          TRelaySchema,
+          TStreamSchemas,
+          TWindowName,
+          TStoreSchemas,
+          TRendererHandlerSchemas
+        >,
+        | 'exposeInPreload'
+        | 'registerMainHandlers'
+        | 'getMissingHandlers'
+        | 'assertAllHandlersRegistered'
+      >
+    : never;
+
+export interface ComposeIpcSchemasConfig<TModules extends IpcModules> {
+  apiKey: string;
+  /** Feature modules keyed by the namespace their API is exposed under */
+  modules: TModules;
+}
+
+export type ComposedIpcSchema<TModules extends IpcModules> = {
+  [K in keyof TModules]: IpcModuleSchema<TModules[K]>;
+} & {
+  /** Registers the handlers, streams, renderer-event listeners and relays of every module */
+  registerMainHandlers: (ipcMain: IpcMain, options?: IpcMainOptions) => void;
+  /** Builds the preload API of every module, namespaced, for one contextBridge exposure */
+  exposeInPreload: (ipcRenderer: IpcRenderer) => any;
+  /** Channels of every module's handlers and streams without an implementation */
+  getMissingHandlers: () => string[];
+  /** Throws, or warns in `'warn'` mode, listing handlers and streams left unimplemented */
+  assertAllHandlersRegistered: (mode?: MissingHandlersMode) => void;
+};
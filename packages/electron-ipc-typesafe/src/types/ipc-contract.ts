@@ -0,0 +1,52 @@
+// Machine-readable description of the IPC surface of one or more schemas, generated
+// from their TypeScript declarations
+export interface IpcContract {
+  /** Version of the contract format */
+  version: 1;
+  schemas: IpcContractSchema[];
+}
+
+export interface IpcContractSchema {
+  /** Name the schema is exported under */
+  exportName: string;
+  /** Preload API key, when given as a string literal */
+  apiKey?: string;
+  /** Namespace of a composed schema module */
+  namespace?: string;
+  channels: IpcContractChannel[];
+}
+
+export type IpcContractChannelKind =
+  | 'handler'
+  | 'stream'
+  | 'event'
+  | 'renderer-event'
+  | 'relay'
+  | 'store'
+  | 'renderer-handler';
+
+export type IpcContractDirection =
+  'renderer-to-main' | 'main-to-renderer' | 'renderer-to-renderer';
+
+export interface IpcContractArgument {
+  name: string;
+  type: string;
+  optional: boolean;
+  rest: boolean;
+}
+
+export interface IpcContractChannel {
+  /** Channel name as declared in the schema */
+  channel: string;
+  kind: IpcContractChannelKind;
+  direction: IpcContractDirection;
+  args: IpcContractArgument[];
+  /** Return type of a handler, or final value type of a stream */
+  returns?: string;
+  /** Chunk type of a stream */
+  chunk?: string;
+  /** Errors a handler declares it may throw */
+  errors?: string;
+  /** State type of a store */
+  state?: string;
+}
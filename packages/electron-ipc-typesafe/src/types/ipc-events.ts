@@ -1,15 +1,39 @@
-import type { BrowserWindow } from 'electron';
+import type { BrowserWindow, WebContents } from 'electron';
 import type { ToCamelCase } from './ipc-common';
+import type { StandardSchemaV1 } from './standard-schema';
 
 // Event schema definition (declarative approach)
 export interface EventSchema {
   [EventName: string]: readonly any[];
 }
 
+// Runtime options attached to an event via `defineEvent(options)`
+export interface EventOptions<T extends readonly any[] = readonly any[]> {
+  /** Validator for the event payload, enforced on the receiving side */
+  args?: StandardSchemaV1<unknown, T>;
+  /**
+   * Moves the ArrayBuffers of a renderer event's payload to main instead of copying
+   * them, detaching the sender's buffers
+   */
+  transfer?: boolean;
+}
+
 export type EventSchemaToSenders<T extends EventSchema> = {
   [K in keyof T as ToCamelCase<K & string>]: (win: BrowserWindow, ...args: T[K]) => void;
 };
 
+// Broadcasters return the number of webContents the event was sent to
+export type EventSchemaToBroadcasters<T extends EventSchema> = {
+  [K in keyof T as ToCamelCase<K & string>]: (...args: T[K]) => number;
+};
+
+export type EventSchemaToWebContentsSenders<T extends EventSchema> = {
+  [K in keyof T as ToCamelCase<K & string>]: (
+    webContents: WebContents,
+    ...args: T[K]
+  ) => void;
+};
+
 export type EventSchemaToSubscribers<T extends EventSchema> = {
   [K in keyof T as `on${Capitalize<ToCamelCase<K & string>>}`]: (
     callback: (...args: T[K]) => void,
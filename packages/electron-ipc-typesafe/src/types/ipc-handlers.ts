@@ -1,5 +1,9 @@
-import type { IpcMainInvokeEvent } from 'electron';
+import type { IpcMainInvokeEvent, MessagePortMain } from 'electron';
+import type { IpcRemoteError } from '../errors';
 import type { ToCamelCase } from './ipc-common';
+import type { IpcMiddleware } from './ipc-middleware';
+import type { IpcRateLimit } from './ipc-rate-limits';
+import type { StandardSchemaV1 } from './standard-schema';
 
 // Handler-related types
 export interface IpcHandlers {
@@ -8,28 +12,95 @@ export interface IpcHandlers {
 
 export type IpcInvoker = (...data: any[]) => Promise<any>;
 
+// Runtime options attached to a handler schema via `defineHandler(options)`
+export interface HandlerOptions<
+  TArgs extends readonly unknown[] = readonly unknown[],
+  TReturn = unknown,
+> {
+  /** Validator for the argument tuple, enforced in main before the handler runs */
+  args?: StandardSchemaV1<unknown, TArgs>;
+  /** Validator for the value returned by the handler */
+  return?: StandardSchemaV1<unknown, TReturn>;
+  /** Milliseconds the handler may run, overriding the schema's `timeoutMs` */
+  timeoutMs?: number;
+  /** Calls each window may make per interval, rejected beyond with IpcRateLimitError */
+  rateLimit?: IpcRateLimit;
+  /** Calls of each window that may run at once, rejected beyond with IpcRateLimitError */
+  maxConcurrency?: number;
+  /** Middleware for this channel, run after the schema's global middleware */
+  middleware?: IpcMiddleware<TArgs, TReturn>[];
+  /**
+   * Marks calls as free of side effects, so identical calls made while one is in flight
+   * share its result instead of reaching main again
+   */
+  idempotent?: boolean;
+  /**
+   * Moves the ArrayBuffers of the arguments to main instead of copying them, over a
+   * MessagePort opened on first use. The caller's buffers are detached by the call.
+   */
+  transfer?: boolean;
+}
+
+// Shape of the errors a handler declares it may throw
+export interface HandlerErrorShape {
+  code?: string | number;
+  data?: unknown;
+}
+
 // Schema-based handler types
 export interface HandlerSchema<
   TArgs extends readonly unknown[] = readonly unknown[],
   TReturn = unknown,
+  TError extends HandlerErrorShape = HandlerErrorShape,
 > {
   args: TArgs;
   return: TReturn;
+  error: TError;
+  options?: HandlerOptions<TArgs, TReturn>;
 }
 
 export interface IpcHandlerSchemas {
-  [EventName: string]: HandlerSchema<any, any>;
+  [EventName: string]: HandlerSchema<any, any, any>;
 }
 
+// Port handlers are served over and called through, from Electron's main side as in main
+// and utility processes, or from the DOM as in web workers
+export type IpcPort = MessagePortMain | MessagePort;
+
+// Event passed to handlers, with a signal aborted when the renderer cancels the call.
+// Calls made with `createDirectClient` or over a port have null `sender` and `senderFrame`
+export type IpcHandlerEvent = IpcMainInvokeEvent & { signal: AbortSignal };
+
 // Convert schema to actual handler function type
 export type SchemaToHandler<T extends HandlerSchema> = (
-  event: IpcMainInvokeEvent,
+  event: IpcHandlerEvent,
   ...args: T['args']
 ) => T['return'] | Promise<T['return']>;
 
+// Per-call options accepted by `invoke.withOptions`
+export interface InvokeOptions {
+  /** Aborts the call; the invoker rejects with the signal's reason */
+  signal?: AbortSignal;
+  /** Milliseconds the call may take, at most the handler or schema timeout */
+  timeoutMs?: number;
+}
+
 // Convert handler schemas to invokers
 export type TransformSchemasToInvokers<T extends IpcHandlerSchemas> = {
   [K in keyof T as ToCamelCase<K & string>]: (
     ...args: T[K]['args']
   ) => Promise<T[K]['return']>;
 };
+
+// Invokers plus `withOptions`, returning invokers bound to per-call options
+export type InvokeObject<T extends IpcHandlerSchemas> = TransformSchemasToInvokers<T> & {
+  withOptions: (options: InvokeOptions) => TransformSchemasToInvokers<T>;
+};
+
+// Error a renderer receives when the handler behind a schema fails
+export type SchemaToRemoteError<T extends HandlerSchema<any, any, any>> = IpcRemoteError<
+  T['error']['code'],
+  T['error']['data'] extends Record<string, unknown>
+    ? T['error']['data']
+    : Record<string, unknown>
+>;
@@ -0,0 +1,23 @@
+import type { WebFrameMain } from 'electron';
+import type { IpcHandlerEvent } from './ipc-handlers';
+
+// What a middleware sees of a handler call
+export interface IpcMiddlewareContext<
+  TArgs extends readonly unknown[] = readonly unknown[],
+> {
+  channel: string;
+  /** Arguments after validation; reassigning them changes what the handler receives */
+  args: TArgs;
+  event: IpcHandlerEvent;
+  /** Frame that sent the call, `null` once it navigated away or was destroyed */
+  senderFrame: WebFrameMain | null;
+}
+
+// Wraps handler calls; not calling `next` short-circuits with the returned value
+export type IpcMiddleware<
+  TArgs extends readonly unknown[] = readonly unknown[],
+  TReturn = unknown,
+> = (
+  context: IpcMiddlewareContext<TArgs>,
+  next: () => Promise<TReturn>,
+) => TReturn | Promise<TReturn>;
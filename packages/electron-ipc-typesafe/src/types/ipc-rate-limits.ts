@@ -0,0 +1,18 @@
+import type { IpcMainInvokeEvent } from 'electron';
+
+// Calls a window may start on a channel within a sliding interval
+export interface IpcRateLimit {
+  limit: number;
+  intervalMs: number;
+}
+
+// Describes a call rejected by its channel's limits, passed to the `onRateLimit` hook
+export interface IpcRateLimitViolation {
+  channel: string;
+  reason: 'rate' | 'concurrency';
+  /** The exceeded `rateLimit.limit` or `maxConcurrency` */
+  limit: number;
+  /** Name of the calling window, when a window resolver knows it */
+  windowName: string | undefined;
+  event: IpcMainInvokeEvent;
+}
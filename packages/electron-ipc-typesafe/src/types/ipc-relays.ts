@@ -0,0 +1,8 @@
+import type { EventSchema } from './ipc-events';
+
+// Window-to-window messages reuse the event schema shape
+export type RelaySchema = EventSchema;
+
+// A window name, several window names, or '*' for every other window
+export type RelayTarget<TWindowName extends string = string> =
+  TWindowName | readonly TWindowName[] | '*';
@@ -0,0 +1,15 @@
+import type { IpcMainEvent } from 'electron';
+import type { ToCamelCase } from './ipc-common';
+import type { EventSchema } from './ipc-events';
+
+// Renderer-to-main events reuse the event schema shape
+export type RendererEventSchema = EventSchema;
+
+export type RendererEventListener<T extends readonly any[]> = (
+  event: IpcMainEvent,
+  ...args: T
+) => void;
+
+export type EventSchemaToEmitters<T extends RendererEventSchema> = {
+  [K in keyof T as ToCamelCase<K & string>]: (...args: T[K]) => void;
+};
@@ -0,0 +1,27 @@
+import type { BrowserWindow, WebContents } from 'electron';
+import type { ToCamelCase } from './ipc-common';
+import type { HandlerSchema, InvokeOptions, IpcHandlerSchemas } from './ipc-handlers';
+
+// Handlers implemented in renderers and called from main reuse the handler schema shape
+export type RendererHandlerSchemas = IpcHandlerSchemas;
+
+// Implementation of a renderer handler, registered with `answer`
+export type RendererHandler<T extends HandlerSchema<any, any, any>> = (
+  ...args: T['args']
+) => T['return'] | Promise<T['return']>;
+
+// The window, or any webContents, a main-to-renderer call is addressed to
+export type AskTarget = BrowserWindow | WebContents;
+
+// Convert renderer handler schemas to the callers main uses
+export type SchemaToAskers<T extends RendererHandlerSchemas> = {
+  [K in keyof T as ToCamelCase<K & string>]: (
+    target: AskTarget,
+    ...args: T[K]['args']
+  ) => Promise<T[K]['return']>;
+};
+
+// Callers plus `withOptions`, returning callers bound to per-call options
+export type AskObject<T extends RendererHandlerSchemas> = SchemaToAskers<T> & {
+  withOptions: (options: InvokeOptions) => SchemaToAskers<T>;
+};
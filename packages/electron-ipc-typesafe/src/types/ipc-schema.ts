@@ -0,0 +1,284 @@
+import type { IpcMain, IpcRenderer } from 'electron';
+import type { CompatibilityMode } from './ipc-compatibility';
+import type {
+  EventSchema,
+  EventSchemaToBroadcasters,
+  EventSchemaToSenders,
+  EventSchemaToSubscribers,
+  EventSchemaToWebContentsSenders,
+} from './ipc-events';
+import type {
+  InvokeObject,
+  IpcHandlerSchemas,
+  IpcPort,
+  SchemaToHandler,
+} from './ipc-handlers';
+import type { IpcMiddleware } from './ipc-middleware';
+import type {
+  EventSchemaToEmitters,
+  RendererEventListener,
+  RendererEventSchema,
+} from './ipc-renderer-events';
+import type { RelaySchema, RelayTarget } from './ipc-relays';
+import type {
+  AskObject,
+  RendererHandler,
+  RendererHandlerSchemas,
+} from './ipc-renderer-handlers';
+import type { IpcRateLimitViolation } from './ipc-rate-limits';
+import type { IpcSecurityConfig, IpcSecurityViolation } from './ipc-security';
+import type { IpcSerializer } from './ipc-serializer';
+import type {
+  IpcStreamSchemas,
+  SchemaToStreamHandler,
+  StreamSchemasToInvokers,
+} from './ipc-streams';
+import type {
+  IpcStoreSchemas,
+  MainStore,
+  StoreSchemasToRendererStores,
+} from './ipc-stores';
+import type { IpcTracer } from './ipc-tracing';
+import type { BroadcastFilter, IpcWindowResolver } from './ipc-windows';
+
+// Schema sections left out of the config default to an empty object
+export type EmptySchema = Record<never, never>;
+
+type IsEmpty<T> = [keyof T] extends [never] ? true : false;
+
+export interface IpcSchemaConfig<
+  THandlerSchemas extends IpcHandlerSchemas,
+  TEventSchema extends EventSchema,
+  TRendererEventSchema extends RendererEventSchema,
+  TRelaySchema extends RelaySchema = EmptySchema,
+  TStreamSchemas extends IpcStreamSchemas = EmptySchema,
+  TWindowName extends string = string,
+  TStoreSchemas extends IpcStoreSchemas = EmptySchema,
+  TRendererHandlerSchemas extends RendererHandlerSchemas = EmptySchema,
+> {
+  apiKey: string;
+  /** Names windows are created under (e.g. WindowManager keys), used to type window targets */
+  windowNames?: readonly TWindowName[];
+  /** Renderer-to-main request/response handlers */
+  handlers?: THandlerSchemas;
+  /** Default milliseconds a handler may run before the call fails with IpcTimeoutError */
+  timeoutMs?: number;
+  /** Sends the invokes a renderer makes in the same tick to main in one round trip */
+  batching?: boolean;
+  /** Middleware wrapping every handler call, outermost first */
+  middleware?: IpcMiddleware[];
+  /** Per-channel restrictions on the frames and windows allowed to call handlers */
+  security?: IpcSecurityConfig<THandlerSchemas, TWindowName>;
+  /**
+   * Encodes handler and renderer handler arguments and results, event and relay
+   * payloads, stream values and store state, so types like Date, Map or custom classes
+   * arrive intact, e.g. `createIpcSerializer({ codecs })`
+   */
+  serializer?: IpcSerializer;
+  /** Main-to-renderer events */
+  events?: TEventSchema;
+  /** Renderer-to-main fire-and-forget events */
+  rendererEvents?: TRendererEventSchema;
+  /** Window-to-window messages forwarded by the main process */
+  relays?: TRelaySchema;
+  /** Renderer-to-main handlers streaming their result in chunks */
+  streams?: TStreamSchemas;
+  /** State owned by main and mirrored in subscribed renderers */
+  stores?: TStoreSchemas;
+  /** Main-to-renderer request/response handlers, implemented in renderers */
+  rendererHandlers?: TRendererHandlerSchemas;
+  /** Version of the schema, compared with main's along with the channels */
+  version?: string;
+  /**
+   * Has the preload check on first use that main runs the same schema, and throw or
+   * warn when it does not; unchecked by default
+   */
+  compatibility?: CompatibilityMode;
+}
+
+export interface UseMiddleware<THandlerSchemas extends IpcHandlerSchemas> {
+  (middleware: IpcMiddleware): () => void;
+  <K extends keyof THandlerSchemas>(
+    channel: K,
+    middleware: IpcMiddleware<THandlerSchemas[K]['args'], THandlerSchemas[K]['return']>,
+  ): () => void;
+}
+
+type HandlersApi<THandlerSchemas extends IpcHandlerSchemas> =
+  IsEmpty<THandlerSchemas> extends true
+    ? {
+        registerHandler?: never;
+        invoke?: never;
+        use?: never;
+        createDirectClient?: never;
+        serveHandlers?: never;
+        createPortClient?: never;
+      }
+    : {
+        registerHandler: <K extends keyof THandlerSchemas>(
+          channel: K,
+          handler: SchemaToHandler<THandlerSchemas[K]>,
+        ) => () => void;
+        /** Adds middleware in main, for every channel or for one channel */
+        use: UseMiddleware<THandlerSchemas>;
+        invoke: InvokeObject<THandlerSchemas>;
+        /** Invokers for main-process code, calling the registered handlers directly */
+        createDirectClient: () => InvokeObject<THandlerSchemas>;
+        /** Answers calls arriving on a port, e.g. from a utility process; returns a stop function */
+        serveHandlers: (port: IpcPort) => () => void;
+        /** Invokers for the other end of a port served with `serveHandlers` */
+        createPortClient: (
+          port: IpcPort | Promise<IpcPort>,
+        ) => InvokeObject<THandlerSchemas>;
+      };
+
+type EventsApi<TEventSchema extends EventSchema, TWindowName extends string> =
+  IsEmpty<TEventSchema> extends true
+    ? { send: Record<string, never> }
+    : {
+        send: EventSchemaToSenders<TEventSchema>;
+        /** Sends to any webContents, including webviews and other non-window contents */
+        sendTo: EventSchemaToWebContentsSenders<TEventSchema>;
+        /** Sends to every open window */
+        broadcast: EventSchemaToBroadcasters<TEventSchema>;
+        /** Sends to the open windows matching the filter */
+        broadcastTo: (
+          filter: BroadcastFilter<TWindowName>,
+        ) => EventSchemaToBroadcasters<TEventSchema>;
+        events: EventSchemaToSubscribers<TEventSchema>;
+      };
+
+type RendererEventsApi<TRendererEventSchema extends RendererEventSchema> =
+  IsEmpty<TRendererEventSchema> extends true
+    ? { onRendererEvent?: never; emit?: never }
+    : {
+        onRendererEvent: <K extends keyof TRendererEventSchema>(
+          channel: K,
+          listener: RendererEventListener<TRendererEventSchema[K]>,
+        ) => () => void;
+        emit: EventSchemaToEmitters<TRendererEventSchema>;
+      };
+
+type RelaysApi<TRelaySchema extends RelaySchema, TWindowName extends string> =
+  IsEmpty<TRelaySchema> extends true
+    ? { relayTo?: never; relays?: never }
+    : {
+        /** Sends a message to other windows, by name or '*' for every other window */
+        relayTo: (
+          target: RelayTarget<TWindowName>,
+        ) => EventSchemaToEmitters<TRelaySchema>;
+        relays: EventSchemaToSubscribers<TRelaySchema>;
+      };
+
+type StreamsApi<TStreamSchemas extends IpcStreamSchemas> =
+  IsEmpty<TStreamSchemas> extends true
+    ? { registerStream?: never; stream?: never }
+    : {
+        registerStream: <K extends keyof TStreamSchemas>(
+          channel: K,
+          handler: SchemaToStreamHandler<TStreamSchemas[K]>,
+        ) => () => void;
+        stream: StreamSchemasToInvokers<TStreamSchemas>;
+      };
+
+type StoresApi<TStoreSchemas extends IpcStoreSchemas> =
+  IsEmpty<TStoreSchemas> extends true
+    ? { registerStore?: never; store?: never }
+    : {
+        /** Sets the initial state of a store in main, returning the handle changing it */
+        registerStore: <K extends keyof TStoreSchemas>(
+          channel: K,
+          initialState: TStoreSchemas[K]['state'],
+        ) => MainStore<TStoreSchemas[K]['state']>;
+        store: StoreSchemasToRendererStores<TStoreSchemas>;
+      };
+
+type RendererHandlersApi<TRendererHandlerSchemas extends RendererHandlerSchemas> =
+  IsEmpty<TRendererHandlerSchemas> extends true
+    ? { ask?: never; answer?: never }
+    : {
+        /** Calls a renderer handler in a window from main */
+        ask: AskObject<TRendererHandlerSchemas>;
+        /** Implements a renderer handler in this window, returning a function removing it */
+        answer: <K extends keyof TRendererHandlerSchemas>(
+          channel: K,
+          handler: RendererHandler<TRendererHandlerSchemas[K]>,
+        ) => () => void;
+      };
+
+// How declared channels left without an implementation are reported
+export type MissingHandlersMode = 'throw' | 'warn';
+
+export interface IpcMainOptions {
+  /** Window access for broadcasts and window-name filters, e.g. a WindowManager */
+  windows?: IpcWindowResolver;
+  /** Called for every call rejected by the channel security options, e.g. to audit it */
+  onSecurityViolation?: (violation: IpcSecurityViolation) => void;
+  /** Called for every call rejected by a channel's rate or concurrency limit, e.g. to log abuse */
+  onRateLimit?: (violation: IpcRateLimitViolation) => void;
+  /** Checks every declared handler and stream has an implementation once registered */
+  missingHandlers?: MissingHandlersMode;
+  /** Records handler calls and sent events, see `createIpcTracer` */
+  tracer?: IpcTracer;
+}
+
+// What a schema was created from, for tooling working on schemas (mocks, contracts)
+export interface IpcSchemaDefinition<
+  THandlerSchemas extends IpcHandlerSchemas,
+  TEventSchema extends EventSchema,
+  TRendererEventSchema extends RendererEventSchema,
+  TRelaySchema extends RelaySchema = EmptySchema,
+  TStreamSchemas extends IpcStreamSchemas = EmptySchema,
+  TStoreSchemas extends IpcStoreSchemas = EmptySchema,
+  TRendererHandlerSchemas extends RendererHandlerSchemas = EmptySchema,
+> {
+  apiKey: string;
+  /** Namespace of a composed schema module, undefined for standalone schemas */
+  namespace: string | undefined;
+  /** Prefix of the schema's channels on the wire, joined with ':' */
+  channelPrefix: string | undefined;
+  handlers: THandlerSchemas;
+  events: TEventSchema;
+  rendererEvents: TRendererEventSchema;
+  relays: TRelaySchema;
+  streams: TStreamSchemas;
+  stores: TStoreSchemas;
+  rendererHandlers: TRendererHandlerSchemas;
+  serializer: IpcSerializer | undefined;
+}
+
+export type IpcSchema<
+  THandlerSchemas extends IpcHandlerSchemas,
+  TEventSchema extends EventSchema,
+  TRendererEventSchema extends RendererEventSchema,
+  TRelaySchema extends RelaySchema = EmptySchema,
+  TStreamSchemas extends IpcStreamSchemas = EmptySchema,
+  TWindowName extends string = string,
+  TStoreSchemas extends IpcStoreSchemas = EmptySchema,
+  TRendererHandlerSchemas extends RendererHandlerSchemas = EmptySchema,
+> = {
+  /** Registers handlers, streams, renderer-event listeners and relays with ipcMain */
+  registerMainHandlers: (ipcMain: IpcMain, options?: IpcMainOptions) => void;
+  exposeInPreload: (ipcRenderer: IpcRenderer) => any;
+  definition: IpcSchemaDefinition<
+    THandlerSchemas,
+    TEventSchema,
+    TRendererEventSchema,
+    TRelaySchema,
+    TStreamSchemas,
+    TStoreSchemas,
+    TRendererHandlerSchemas
+  >;
+  /** Hash of the schema's version, channels and their shapes, identical in main and preload */
+  fingerprint: string;
+  /** Channels of declared handlers and streams without an implementation */
+  getMissingHandlers: () => string[];
+  /** Throws, or warns in `'warn'` mode, listing handlers and streams left unimplemented */
+  assertAllHandlersRegistered: (mode?: MissingHandlersMode) => void;
+} & HandlersApi<THandlerSchemas> &
+  EventsApi<TEventSchema, TWindowName> &
+  RendererEventsApi<TRendererEventSchema> &
+  RelaysApi<TRelaySchema, TWindowName> &
+  StreamsApi<TStreamSchemas> &
+  StoresApi<TStoreSchemas> &
+  RendererHandlersApi<TRendererHandlerSchemas>;
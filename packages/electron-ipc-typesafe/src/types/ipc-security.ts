@@ -0,0 +1,27 @@
+import type { IpcMainInvokeEvent } from 'electron';
+
+// Restrictions on who may call a handler, checked in main before it runs
+export interface IpcChannelSecurity<TWindowName extends string = string> {
+  /** Origins of the calling frame, e.g. 'app://index', 'http://localhost:5173' */
+  allowedOrigins?: readonly string[];
+  /** Names of the windows allowed to call, resolved through the window resolver */
+  allowedWindows?: readonly TWindowName[];
+  /** Rejects calls from iframes */
+  mainFrameOnly?: boolean;
+}
+
+// Security options of a schema, keyed by handler channel
+export type IpcSecurityConfig<THandlerSchemas, TWindowName extends string = string> = {
+  [K in keyof THandlerSchemas]?: IpcChannelSecurity<TWindowName>;
+};
+
+// Describes a rejected call, passed to the `onSecurityViolation` hook
+export interface IpcSecurityViolation {
+  channel: string;
+  reason: 'origin' | 'window' | 'frame';
+  /** Origin of the calling frame, if it still exists */
+  origin: string | undefined;
+  /** Name of the calling window, when window names are checked */
+  windowName: string | undefined;
+  event: IpcMainInvokeEvent;
+}
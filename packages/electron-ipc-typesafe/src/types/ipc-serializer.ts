@@ -0,0 +1,26 @@
+// Encodes values before they cross IPC and decodes them on the other side, like the
+// serializer from `createIpcSerializer` or an adapter around superjson
+export interface IpcSerializer {
+  serialize: (value: unknown) => unknown;
+  deserialize: (value: unknown) => unknown;
+}
+
+// A type the serializer turns into data IPC carries unchanged, and back
+export interface IpcCodec<T = any, TEncoded = any> {
+  /** Name tagging encoded values on the wire, unique per serializer */
+  name: string;
+  /** Whether a value is one this codec encodes */
+  is: (value: unknown) => boolean;
+  /** Turns a value into arrays, plain objects and primitives, themselves serialized */
+  encode: (value: T) => TEncoded;
+  /** Rebuilds the value from what `encode` returned */
+  decode: (encoded: TEncoded) => T;
+}
+
+export interface IpcSerializerOptions {
+  /**
+   * Codecs for custom types, tried in order before the built-in ones for Date, Map,
+   * Set, BigInt and RegExp, which they replace when sharing their name
+   */
+  codecs?: IpcCodec[];
+}
@@ -0,0 +1,48 @@
+import type { DeepReadonly, ToCamelCase } from './ipc-common';
+
+// Schema of a state store owned by main and mirrored in renderers
+export interface StoreSchema<TState = unknown> {
+  state: TState;
+}
+
+export interface IpcStoreSchemas {
+  [StoreName: string]: StoreSchema<any>;
+}
+
+export type StorePath = (string | number)[];
+
+// A change to the state at a path, the empty path replacing the whole state
+export type StorePatch =
+  { op: 'set'; path: StorePath; value: unknown } | { op: 'delete'; path: StorePath };
+
+// What main sends a subscribed renderer: the state when it subscribes, then its changes
+export type StoreMessage<TState = unknown> =
+  | { type: 'snapshot'; version: number; state: TState }
+  | { type: 'patch'; version: number; patches: StorePatch[] };
+
+// Main side of a store, returned by `registerStore`
+export interface MainStore<TState> {
+  getState: () => TState;
+  /**
+   * Replaces the state, or derives the next one from it. The state is treated as
+   * immutable: renderers receive patches for the parts that are no longer identical.
+   */
+  setState: (next: TState | ((state: TState) => TState)) => void;
+  /** Called after every change in main, with the patches sent to renderers */
+  subscribe: (listener: (state: TState, patches: StorePatch[]) => void) => () => void;
+}
+
+// Renderer side of a store, a read-only mirror of the state in main
+export interface RendererStore<TState> {
+  /** The latest state received, undefined until the first subscription gets it */
+  getSnapshot: () => DeepReadonly<TState> | undefined;
+  /**
+   * Calls the listener with the current state, fetched from main on the first
+   * subscription, and again after every change
+   */
+  subscribe: (listener: (state: DeepReadonly<TState>) => void) => () => void;
+}
+
+export type StoreSchemasToRendererStores<T extends IpcStoreSchemas> = {
+  [K in keyof T as ToCamelCase<K & string>]: RendererStore<T[K]['state']>;
+};
@@ -0,0 +1,61 @@
+import type { IpcMainEvent } from 'electron';
+import type { ToCamelCase } from './ipc-common';
+import type { StandardSchemaV1 } from './standard-schema';
+
+// Runtime options attached to a stream schema via `defineStream(options)`
+export interface StreamOptions<TArgs extends readonly unknown[] = readonly unknown[]> {
+  /** Validator for the argument tuple, enforced in main before the handler runs */
+  args?: StandardSchemaV1<unknown, TArgs>;
+  /** Number of chunks main may send ahead of the renderer consuming them */
+  highWaterMark?: number;
+}
+
+// Schema of a streaming handler: arguments, the chunks it produces and its final value
+export interface StreamSchema<
+  TArgs extends readonly unknown[] = readonly unknown[],
+  TChunk = unknown,
+  TFinal = void,
+> {
+  args: TArgs;
+  chunk: TChunk;
+  final: TFinal;
+  options?: StreamOptions<TArgs>;
+}
+
+export interface IpcStreamSchemas {
+  [StreamName: string]: StreamSchema<any, any, any>;
+}
+
+// Passed to stream handlers in main
+export interface StreamContext<TChunk> {
+  event: IpcMainEvent;
+  /** Aborted when the renderer stops iterating or its window goes away */
+  signal: AbortSignal;
+  /** Sends a chunk, waiting while the renderer is too far behind */
+  write: (chunk: TChunk) => Promise<void>;
+}
+
+// A stream handler either writes chunks and returns the final value, or is an async
+// generator yielding chunks and returning the final value
+export type SchemaToStreamHandler<T extends StreamSchema<any, any, any>> = (
+  context: StreamContext<T['chunk']>,
+  ...args: T['args']
+) =>
+  | AsyncGenerator<T['chunk'], T['final'], undefined>
+  | AsyncIterable<T['chunk']>
+  | Promise<T['final']>
+  | T['final'];
+
+// Renderer side of a running stream
+export interface IpcStream<TChunk, TFinal> extends AsyncIterable<TChunk> {
+  /** Resolves with the handler's final value, rejects when it fails or is cancelled */
+  readonly result: Promise<TFinal>;
+  /** Stops the stream and aborts the handler in main */
+  cancel: () => void;
+}
+
+export type StreamSchemasToInvokers<T extends IpcStreamSchemas> = {
+  [K in keyof T as ToCamelCase<K & string>]: (
+    ...args: T[K]['args']
+  ) => IpcStream<T[K]['chunk'], T[K]['final']>;
+};
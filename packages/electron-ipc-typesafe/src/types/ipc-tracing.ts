@@ -0,0 +1,73 @@
+import type { HandlerSchema } from './ipc-handlers';
+import type { EmptySchema, IpcSchema } from './ipc-schema';
+
+export type IpcTraceKind = 'invoke' | 'event' | 'ask';
+
+export type IpcTraceDirection = 'renderer-to-main' | 'main-to-renderer';
+
+// One handler call, one event delivered to one webContents or one call main made to it
+export interface IpcTraceEntry {
+  /** Increasing number, unique per tracer */
+  id: number;
+  /** Channel name on the wire, including the prefix of composed modules */
+  channel: string;
+  kind: IpcTraceKind;
+  direction: IpcTraceDirection;
+  /** The calling webContents of an invoke, the receiving one of an event or ask */
+  webContentsId?: number;
+  /** Name of that window, when a window resolver knows it */
+  window?: string;
+  /** Milliseconds since the epoch at which the call started */
+  startTime: number;
+  /** Milliseconds until the handler or renderer settled, or the event was sent */
+  duration: number;
+  /** UTF-8 bytes of the JSON-encoded arguments, 0 when they cannot be encoded */
+  payloadSize: number;
+  status: 'ok' | 'error';
+  error?: { name: string; message: string; code?: string | number };
+}
+
+export interface IpcTracerOptions {
+  /** Entries kept before the oldest ones are dropped, 1000 by default */
+  capacity?: number;
+  /** Key the trace channel is exposed under in the preload, `'ipcTracer'` by default */
+  apiKey?: string;
+}
+
+// Complete ('X') and metadata ('M') events of the Chrome trace-event format
+export interface ChromeTraceEvent {
+  name: string;
+  ph: 'X' | 'M';
+  pid: number;
+  tid: number;
+  /** Microseconds */
+  ts?: number;
+  /** Microseconds */
+  dur?: number;
+  cat?: string;
+  args?: Record<string, unknown>;
+}
+
+export interface ChromeTrace {
+  traceEvents: ChromeTraceEvent[];
+  displayTimeUnit: 'ms';
+}
+
+export type IpcTraceHandlers = {
+  'get-entries': HandlerSchema<[], IpcTraceEntry[]>;
+  'clear-entries': HandlerSchema<[], void>;
+  'export-chrome-trace': HandlerSchema<[], ChromeTrace>;
+};
+
+export interface IpcTracer {
+  record: (entry: Omit<IpcTraceEntry, 'id'>) => void;
+  /** Recorded entries, oldest first */
+  getEntries: () => IpcTraceEntry[];
+  clear: () => void;
+  /** Calls the listener with every entry recorded from now on */
+  subscribe: (listener: (entry: IpcTraceEntry) => void) => () => void;
+  /** Entries as trace-event JSON, loadable in the Chrome DevTools performance panel */
+  toChromeTrace: () => ChromeTrace;
+  /** Typed channel reading the trace from a renderer, e.g. a devtools panel */
+  schema: IpcSchema<IpcTraceHandlers, EmptySchema, EmptySchema>;
+}
@@ -0,0 +1,19 @@
+import type { BrowserWindow, WebContents } from 'electron';
+
+/**
+ * Gives the IPC layer access to the application's windows. `WindowManager` from
+ * `electron-window-toolkit` implements it; without one,
+ * `{ getAllWindows: () => BrowserWindow.getAllWindows(), getWindowName: () => undefined }`
+ * works for broadcasts that do not filter by window name.
+ */
+export interface IpcWindowResolver {
+  getAllWindows: () => BrowserWindow[];
+  getWindowName: (webContents: WebContents) => string | undefined;
+}
+
+// Criteria narrowing a broadcast; every criterion given must match
+export interface BroadcastFilter<TWindowName extends string = string> {
+  windows?: readonly TWindowName[];
+  webContentsIds?: readonly number[];
+  predicate?: (webContents: WebContents) => boolean;
+}
@@ -0,0 +1,36 @@
+import type { IpcValidationIssue } from './errors';
+import type { StandardSchemaIssue, StandardSchemaV1 } from './types';
+
+import { IpcValidationError } from './errors';
+
+// Issue paths may contain symbols or `{ key }` segments, neither of which survive
+// structured cloning, so they are flattened before crossing the process boundary
+function toValidationIssue(issue: StandardSchemaIssue): IpcValidationIssue {
+  const path = (issue.path ?? []).map((segment) => {
+    const key = typeof segment === 'object' ? segment.key : segment;
+    return typeof key === 'number' ? key : String(key);
+  });
+  return { message: issue.message, path };
+}
+
+/**
+ * Validates a value against a Standard Schema, returning the parsed output or
+ * throwing an {@link IpcValidationError} describing every issue.
+ */
+export async function validateSchema<TOutput>(
+  schema: StandardSchemaV1<unknown, TOutput>,
+  value: unknown,
+  context: { channel: string; target: 'args' | 'return' },
+): Promise<TOutput> {
+  const result = await schema['~standard'].validate(value);
+
+  if (result.issues) {
+    throw new IpcValidationError(
+      context.channel,
+      context.target,
+      result.issues.map(toValidationIssue),
+    );
+  }
+
+  return result.value;
+}
@@ -0,0 +1,248 @@
+import type { IpcRenderer } from 'electron';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { composeIpcSchemas, defineIpcModule } from '../src/compose-ipc-schemas';
+import { defineEvent } from '../src/define-event';
+import { defineHandler } from '../src/define-handler';
+
+describe('composeIpcSchemas', () => {
+  const notifications = defineIpcModule({
+    handlers: {
+      show: defineHandler<[title: string], { shown: boolean }>(),
+    },
+    events: {
+      clicked: defineEvent<[id: string]>(),
+    },
+  });
+
+  const settings = defineIpcModule({
+    handlers: {
+      show: defineHandler<[section: string], void>(),
+      get: defineHandler<[key: string], string>(),
+    },
+  });
+
+  let mainHandlers: Record<string, (...args: any[]) => unknown>;
+  let mockIpcMain: any;
+  let mockIpcRenderer: IpcRenderer;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mainHandlers = {};
+    mockIpcMain = {
+      handle: vi.fn((channel: string, handler: (...args: any[]) => unknown) => {
+        mainHandlers[channel] = handler;
+      }),
+      removeHandler: vi.fn(),
+      on: vi.fn(),
+    };
+    mockIpcRenderer = {
+      invoke: vi.fn(async (channel: string, ...args: unknown[]) =>
+        mainHandlers[channel]?.({ sender: { id: 1 } }, ...args),
+      ),
+      on: vi.fn(),
+      removeListener: vi.fn(),
+      send: vi.fn(),
+    } as any;
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  function setup() {
+    const api = composeIpcSchemas({
+      apiKey: 'app',
+      modules: { notifications, settings },
+    });
+    vi.stubGlobal('window', { app: api.exposeInPreload(mockIpcRenderer) });
+    return api;
+  }
+
+  it('should prefix channels with the module namespace', () => {
+    const api = setup();
+    api.notifications.registerHandler('show', async () => ({ shown: true }));
+    api.settings.registerHandler('show', async () => {});
+
+    api.registerMainHandlers(mockIpcMain);
+
+    expect(Object.keys(mainHandlers).sort()).toEqual([
+      'notifications:show',
+      'settings:show',
+    ]);
+  });
+
+  it('should expose every module under its namespace in one preload API', () => {
+    const api = setup();
+
+    const exposed = api.exposeInPreload(mockIpcRenderer);
+
+    expect(Object.keys(exposed)).toEqual(['notifications', 'settings']);
+    expect(exposed.notifications.invoke.show).toBeTypeOf('function');
+    expect(exposed.notifications.events.onClicked).toBeTypeOf('function');
+    expect(exposed.settings.invoke.get).toBeTypeOf('function');
+  });
+
+  it('should route renderer calls through the namespaced API', async () => {
+    const api = setup();
+    api.notifications.registerHandler('show', async (_event, title) => ({
+      shown: title === 'Hello',
+    }));
+    api.settings.registerHandler('get', async (_event, key) => `value of ${key}`);
+    api.registerMainHandlers(mockIpcMain);
+
+    await expect(api.notifications.invoke.show('Hello')).resolves.toEqual({
+      shown: true,
+    });
+    await expect(api.settings.invoke.get('theme')).resolves.toBe('value of theme');
+    expect(mockIpcRenderer.invoke).toHaveBeenCalledWith('settings:get', 'theme');
+  });
+
+  it('should send module events on prefixed channels', () => {
+    const api = setup();
+    const webContents = { send: vi.fn() } as any;
+
+    api.notifications.sendTo.clicked(webContents, 'n1');
+
+    expect(webContents.send).toHaveBeenCalledWith('notifications:clicked', 'n1');
+  });
+
+  it('should keep declared channel names when the prefix is disabled', () => {
+    const legacy = defineIpcModule({
+      channelPrefix: false,
+      handlers: { ping: defineHandler<[], string>() },
+    });
+    const api = composeIpcSchemas({ apiKey: 'app', modules: { legacy } });
+    api.legacy.registerHandler('ping', async () => 'pong');
+
+    api.registerMainHandlers(mockIpcMain);
+
+    expect(mockIpcMain.handle).toHaveBeenCalledWith('ping', expect.any(Function));
+  });
+
+  it('should detect channel collisions between modules at creation', () => {
+    const first = defineIpcModule({
+      channelPrefix: 'shared',
+      handlers: { load: defineHandler<[], void>() },
+    });
+    const second = defineIpcModule({
+      channelPrefix: 'shared',
+      handlers: { load: defineHandler<[], void>() },
+    });
+
+    expect(() =>
+      composeIpcSchemas({ apiKey: 'app', modules: { first, second } }),
+    ).toThrow(
+      "IPC channel 'shared:load' is declared by both modules 'first' and 'second'",
+    );
+  });
+
+  it('should detect collisions of the channels added by module options', () => {
+    type ModuleConfig = Parameters<typeof defineIpcModule>[0];
+    const compose = (first: ModuleConfig, second: ModuleConfig) =>
+      composeIpcSchemas({
+        apiKey: 'app',
+        modules: {
+          first: defineIpcModule({ channelPrefix: false, ...first }),
+          second: defineIpcModule({ channelPrefix: false, ...second }),
+        },
+      });
+    const load = { load: defineHandler<[], void>() };
+    const save = { save: defineHandler<[], void>() };
+
+    expect(() =>
+      compose(
+        { handlers: load, compatibility: 'warn' },
+        { handlers: save, compatibility: 'warn' },
+      ),
+    ).toThrow(
+      "IPC channel '$schema' of the compatibility option is used by both modules 'first' and 'second'",
+    );
+    expect(() =>
+      compose({ handlers: load, batching: true }, { handlers: save, batching: true }),
+    ).toThrow("IPC channel '$batch' of the batching option");
+    expect(() =>
+      compose(
+        { handlers: { load: defineHandler<[], void>({ transfer: true }) } },
+        { handlers: { save: defineHandler<[], void>({ transfer: true }) } },
+      ),
+    ).toThrow("IPC channel '$transfer' of the transfer option");
+    expect(() =>
+      compose(
+        { rendererEvents: { loaded: defineEvent<[]>({ transfer: true }) } },
+        { rendererEvents: { saved: defineEvent<[]>({ transfer: true }) } },
+      ),
+    ).toThrow("IPC channel '$transfer-events' of the transfer option");
+    expect(() =>
+      compose({ handlers: load, batching: true }, { handlers: save }),
+    ).not.toThrow();
+  });
+
+  it('should detect collisions of channels renderers listen on in both directions', () => {
+    const events = defineIpcModule({
+      channelPrefix: false,
+      events: { ping: defineEvent<[]>() },
+    });
+    const relays = defineIpcModule({
+      channelPrefix: false,
+      relays: { ping: defineEvent<[]>() },
+    });
+    const rendererHandlers = defineIpcModule({
+      channelPrefix: false,
+      rendererHandlers: { ping: defineHandler<[], void>() },
+    });
+
+    expect(() =>
+      composeIpcSchemas({ apiKey: 'app', modules: { events, relays } }),
+    ).toThrow("IPC channel 'ping' is declared by both modules 'events' and 'relays'");
+    expect(() =>
+      composeIpcSchemas({ apiKey: 'app', modules: { events, rendererHandlers } }),
+    ).toThrow(
+      "IPC channel 'ping' is declared by both modules 'events' and 'rendererHandlers'",
+    );
+  });
+
+  it('should allow the same channel name in different directions', () => {
+    const first = defineIpcModule({
+      channelPrefix: false,
+      handlers: { sync: defineHandler<[], void>() },
+    });
+    const second = defineIpcModule({
+      channelPrefix: false,
+      events: { sync: defineEvent<[]>() },
+    });
+
+    expect(() =>
+      composeIpcSchemas({ apiKey: 'app', modules: { first, second } }),
+    ).not.toThrow();
+  });
+
+  it('should reject namespaces shadowing the composed schema API', () => {
+    expect(() =>
+      composeIpcSchemas({ apiKey: 'app', modules: { exposeInPreload: settings } }),
+    ).toThrow("IPC module namespace 'exposeInPreload' is reserved");
+  });
+
+  it('should throw when the namespace is missing from the exposed API', () => {
+    const api = composeIpcSchemas({ apiKey: 'app', modules: { settings } });
+    vi.stubGlobal('window', { app: {} });
+
+    expect(() => api.settings.invoke.get('theme')).toThrow(
+      "IPC namespace 'settings' not found on API key app",
+    );
+  });
+
+  it('should report missing handlers of every module once registered', () => {
+    const api = setup();
+    api.notifications.registerHandler('show', async () => ({ shown: true }));
+
+    expect(() =>
+      api.registerMainHandlers(mockIpcMain, { missingHandlers: 'throw' }),
+    ).toThrow("No handler registered for IPC channels: 'settings:show', 'settings:get'");
+    expect(mockIpcMain.handle).toHaveBeenCalledWith(
+      'notifications:show',
+      expect.any(Function),
+    );
+  });
+});
@@ -0,0 +1,200 @@
+import type { MessagePortMain } from 'electron';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { createIpcSchema } from '../src/create-ipc-schema';
+import { createIpcSerializer } from '../src/create-ipc-serializer';
+import { defineHandler } from '../src/define-handler';
+import {
+  IpcError,
+  IpcPortClosedError,
+  IpcTimeoutError,
+  IpcValidationError,
+} from '../src/errors';
+import { tupleOf } from './fixtures/standard-schema';
+
+// Gives a Node MessagePort the event-emitter surface of Electron's MessagePortMain
+function asMainPort(port: MessagePort): MessagePortMain {
+  const listeners = new Map<(event: any) => void, (event: MessageEvent) => void>();
+  return {
+    on: (_type: 'message', listener: (event: any) => void) => {
+      const onMessage = (event: MessageEvent) =>
+        listener({ data: event.data, ports: [] });
+      listeners.set(listener, onMessage);
+      port.addEventListener('message', onMessage);
+    },
+    off: (_type: 'message', listener: (event: any) => void) => {
+      port.removeEventListener('message', listeners.get(listener)!);
+    },
+    start: () => port.start(),
+    postMessage: (message: unknown) => port.postMessage(message),
+    close: () => port.close(),
+  } as unknown as MessagePortMain;
+}
+
+function createSchema() {
+  return createIpcSchema({
+    apiKey: 'appApi',
+    serializer: createIpcSerializer(),
+    handlers: {
+      add: defineHandler<[a: number, b: number], number>({
+        args: tupleOf('number', 'number'),
+      }),
+      'get-started-at': defineHandler<[], Date>(),
+      'read-file': defineHandler<[path: string], string, { code: 'ENOENT' }>(),
+      wait: defineHandler<[], void>(),
+    },
+    security: {
+      add: { allowedOrigins: ['app://index'] },
+    },
+  });
+}
+
+describe('createDirectClient', () => {
+  it('should call the registered handlers without a renderer or security checks', async () => {
+    const api = createSchema();
+    const middleware = vi.fn(async (_context, next) => next());
+    api.use(middleware);
+    api.registerHandler('add', (event, a, b) => {
+      expect(event.sender).toBeNull();
+      return a + b;
+    });
+    api.registerHandler('get-started-at', () => new Date(0));
+
+    const client = api.createDirectClient();
+
+    await expect(client.add(1, 2)).resolves.toBe(3); // eslint-disable-line no-magic-numbers
+    await expect(client.getStartedAt()).resolves.toEqual(new Date(0));
+    expect(middleware).toHaveBeenCalledTimes(2); // eslint-disable-line no-magic-numbers
+  });
+
+  it('should validate arguments and reject with typed errors', async () => {
+    const api = createSchema();
+    api.registerHandler('add', (_event, a, b) => a + b);
+    api.registerHandler('read-file', (_event, path) => {
+      throw new IpcError(`No such file: ${path}`, { code: 'ENOENT' });
+    });
+    const client = api.createDirectClient();
+
+    await expect(client.add(1, 'two' as any)).rejects.toBeInstanceOf(IpcValidationError);
+    await expect(client.readFile('a.txt')).rejects.toMatchObject({ code: 'ENOENT' });
+    await expect(client.wait()).rejects.toThrow("No handler registered for 'wait'");
+  });
+
+  it('should cancel calls through withOptions', async () => {
+    const api = createSchema();
+    const aborted = vi.fn();
+    api.registerHandler(
+      'wait',
+      async (event) =>
+        new Promise<void>(() => event.signal.addEventListener('abort', aborted)),
+    );
+    const controller = new AbortController();
+
+    const call = api
+      .createDirectClient()
+      .withOptions({ signal: controller.signal })
+      .wait();
+    await Promise.resolve();
+    controller.abort(new Error('Stopped'));
+
+    await expect(call).rejects.toThrow('Stopped');
+    await vi.waitFor(() => expect(aborted).toHaveBeenCalled());
+  });
+});
+
+describe('createPortClient', () => {
+  const channels: MessageChannel[] = [];
+
+  function connect() {
+    const channel = new MessageChannel();
+    channels.push(channel);
+    return { main: asMainPort(channel.port1), worker: channel.port2 };
+  }
+
+  afterEach(() => {
+    channels.splice(0).forEach(({ port1, port2 }) => {
+      port1.close();
+      port2.close();
+    });
+  });
+
+  it('should call the handlers served on the other end of the port', async () => {
+    const api = createSchema();
+    api.registerHandler('add', (_event, a, b) => a + b);
+    api.registerHandler('get-started-at', () => new Date(0));
+    const { main, worker } = connect();
+    api.serveHandlers(main);
+
+    // The worker builds its client from the same schema module
+    const client = createSchema().createPortClient(worker);
+
+    await expect(client.add(2, 3)).resolves.toBe(5); // eslint-disable-line no-magic-numbers
+    await expect(client.getStartedAt()).resolves.toEqual(new Date(0));
+    await expect(client.add(2, null as any)).rejects.toBeInstanceOf(IpcValidationError); // eslint-disable-line no-magic-numbers
+  });
+
+  it('should reject calls whose result cannot be sent back', async () => {
+    const api = createSchema();
+    api.registerHandler('read-file', () => ({ read: () => 'text' }) as any);
+    const { main, worker } = connect();
+    api.serveHandlers(main);
+
+    const client = createSchema().createPortClient(worker);
+
+    await expect(client.readFile('a.txt')).rejects.toThrow('could not be cloned');
+  });
+
+  it('should accept a port that arrives later and stop serving on request', async () => {
+    const api = createSchema();
+    const handler = vi.fn((_event: unknown, a: number, b: number) => a + b);
+    api.registerHandler('add', handler);
+    const { main, worker } = connect();
+    const stop = api.serveHandlers(main);
+    let resolvePort!: (port: MessagePort) => void;
+    const client = createSchema().createPortClient(
+      new Promise<MessagePort>((resolve) => (resolvePort = resolve)),
+    );
+
+    const call = client.add(1, 1);
+    resolvePort(worker);
+    await expect(call).resolves.toBe(2); // eslint-disable-line no-magic-numbers
+
+    stop();
+    await expect(client.add(1, 1)).rejects.toBeInstanceOf(IpcPortClosedError);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject pending calls when the server stops or the port closes', async () => {
+    const api = createSchema();
+    const started = vi.fn();
+    api.registerHandler('wait', async () => {
+      started();
+      return new Promise<void>(() => {});
+    });
+    const first = connect();
+    const stop = api.serveHandlers(first.main);
+    const second = connect();
+    api.serveHandlers(second.main);
+
+    const stopped = createSchema().createPortClient(first.worker).wait();
+    const closed = createSchema().createPortClient(second.worker).wait();
+    await vi.waitFor(() => expect(started).toHaveBeenCalledTimes(2)); // eslint-disable-line no-magic-numbers
+    stop();
+    second.main.close();
+
+    await expect(stopped).rejects.toThrow("Call to 'wait' failed: the port is closed");
+    await expect(closed).rejects.toBeInstanceOf(IpcPortClosedError);
+  });
+
+  it('should stop waiting for an answer after the timeout', async () => {
+    // Nothing serves the port, so no answer ever comes
+    const { worker } = connect();
+
+    const call = createSchema()
+      .createPortClient(worker)
+      .withOptions({ timeoutMs: 10 }) // eslint-disable-line no-magic-numbers
+      .wait();
+
+    await expect(call).rejects.toBeInstanceOf(IpcTimeoutError);
+  });
+});
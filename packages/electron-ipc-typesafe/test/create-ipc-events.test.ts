@@ -222,6 +222,87 @@ describe('createIpcEvents', () => {
   });
 });
 
+describe('createIpcEvents targeting', () => {
+  function createWindow(id: number, { destroyed = false } = {}) {
+    return {
+      isDestroyed: () => destroyed,
+      webContents: { id, send: vi.fn(), isDestroyed: () => destroyed },
+    } as any;
+  }
+
+  const mainWindow = createWindow(1);
+  const settingsWindow = createWindow(2);
+  const closedWindow = createWindow(3, { destroyed: true });
+  const windowNames = new Map<unknown, string>([
+    [mainWindow.webContents, 'main'],
+    [settingsWindow.webContents, 'settings'],
+  ]);
+  const windows = {
+    getAllWindows: () => [mainWindow, settingsWindow, closedWindow],
+    getWindowName: (webContents: any) => windowNames.get(webContents),
+  };
+
+  const events = {
+    'settings-changed': ['object'] as const,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should send to any webContents with sendTo', () => {
+    const bridge = createIpcEvents('test-api', events);
+    const webContents = { send: vi.fn() } as any;
+
+    bridge.sendTo.settingsChanged(webContents, { theme: 'dark' } as any);
+
+    expect(webContents.send).toHaveBeenCalledWith('settings-changed', { theme: 'dark' });
+  });
+
+  it('should broadcast to every open window', () => {
+    const bridge = createIpcEvents('test-api', events, { windows });
+
+    const count = bridge.broadcast.settingsChanged({ theme: 'dark' } as any);
+
+    expect(count).toBe(2); // eslint-disable-line no-magic-numbers
+    expect(mainWindow.webContents.send).toHaveBeenCalledWith('settings-changed', {
+      theme: 'dark',
+    });
+    expect(settingsWindow.webContents.send).toHaveBeenCalled();
+    expect(closedWindow.webContents.send).not.toHaveBeenCalled();
+  });
+
+  it('should broadcast to windows matching the given names', () => {
+    const bridge = createIpcEvents('test-api', events, { windows });
+
+    bridge.broadcastTo({ windows: ['settings'] }).settingsChanged({} as any);
+
+    expect(settingsWindow.webContents.send).toHaveBeenCalled();
+    expect(mainWindow.webContents.send).not.toHaveBeenCalled();
+  });
+
+  it('should combine webContents ids and predicates', () => {
+    const bridge = createIpcEvents('test-api', events, { windows });
+    const predicate = vi.fn((webContents: any) => webContents.id !== 2); // eslint-disable-line no-magic-numbers
+
+    const count = bridge
+      .broadcastTo({ webContentsIds: [1, 2], predicate }) // eslint-disable-line no-magic-numbers
+      .settingsChanged({} as any);
+
+    expect(count).toBe(1);
+    expect(mainWindow.webContents.send).toHaveBeenCalled();
+    expect(settingsWindow.webContents.send).not.toHaveBeenCalled();
+  });
+
+  it('should throw when broadcasting without a window resolver', () => {
+    const bridge = createIpcEvents('test-api', events);
+
+    expect(() => bridge.broadcast.settingsChanged({} as any)).toThrow(
+      'No window resolver available',
+    );
+  });
+});
+
 // Helper function for type testing
 function expectTypeOf<T>(_value: T) {
   return {
@@ -0,0 +1,221 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { createIpcSchema } from '../src/create-ipc-schema';
+import { defineEvent } from '../src/define-event';
+import { defineHandler } from '../src/define-handler';
+import { defineStream } from '../src/define-stream';
+import { IpcRemoteError, IpcSecurityError } from '../src/errors';
+import { createIpcLoopback } from '../src/testing';
+
+describe('createIpcLoopback', () => {
+  function createApi() {
+    return createIpcSchema({
+      apiKey: 'appApi',
+      windowNames: ['editor', 'preview'],
+      handlers: {
+        'get-user': defineHandler<[id: string], { id: string; createdAt: Date }>(),
+        'save-user': defineHandler<[user: object], boolean>(),
+        'delete-user': defineHandler<[id: string], void>(),
+      },
+      security: {
+        'delete-user': { allowedOrigins: ['app://index'] },
+      },
+      events: {
+        'user-updated': defineEvent<[id: string]>(),
+      },
+      rendererEvents: {
+        'window-ready': defineEvent<[name: string]>(),
+      },
+      relays: {
+        'document-saved': defineEvent<[docId: string]>(),
+      },
+      streams: {
+        count: defineStream<[to: number], number, { total: number }>(),
+      },
+    });
+  }
+
+  function setup() {
+    const api = createApi();
+    const loopback = createIpcLoopback();
+    api.registerMainHandlers(loopback.ipcMain, { windows: loopback.windows });
+
+    const connect = (name: string, origin?: string) => {
+      const renderer = loopback.createRenderer({ name, origin });
+      renderer.contextBridge.exposeInMainWorld(
+        'appApi',
+        api.exposeInPreload(renderer.ipcRenderer),
+      );
+      return renderer;
+    };
+
+    const editor = connect('editor');
+    vi.stubGlobal('window', editor.world);
+    return { api, loopback, editor, connect };
+  }
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('should answer invokes with structured clones of the handler result', async () => {
+    const { api } = setup();
+    const createdAt = new Date(0);
+    api.registerHandler('get-user', async (_event, id) => ({ id, createdAt }));
+
+    const user = await api.invoke.getUser('u1');
+
+    expect(user).toEqual({ id: 'u1', createdAt });
+    expect(user.createdAt).not.toBe(createdAt);
+  });
+
+  it('should reject arguments that cannot be cloned', async () => {
+    const { api } = setup();
+    const handler = vi.fn(async () => true);
+    api.registerHandler('save-user', handler);
+
+    await expect(api.invoke.saveUser({ save: () => {} })).rejects.toThrow(
+      'could not be cloned',
+    );
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should reject results that cannot be cloned like Electron does', async () => {
+    const { api } = setup();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    api.registerHandler(
+      'get-user',
+      async (_event, id) => ({ id, load: () => {} }) as any,
+    );
+
+    await expect(api.invoke.getUser('u1')).rejects.toThrow(
+      "Error invoking remote method 'get-user'",
+    );
+  });
+
+  it('should reject calls to channels without a handler', async () => {
+    const { api } = setup();
+
+    await expect(api.invoke.getUser('u1')).rejects.toThrow(
+      "No handler registered for 'get-user'",
+    );
+  });
+
+  it('should rehydrate handler errors', async () => {
+    const { api } = setup();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    api.registerHandler('get-user', async () => {
+      throw Object.assign(new Error('Not found'), { code: 'NOT_FOUND' });
+    });
+
+    const error = await api.invoke.getUser('u1').catch((e) => e);
+
+    expect(error).toBeInstanceOf(IpcRemoteError);
+    expect(error).toMatchObject({ message: 'Not found', code: 'NOT_FOUND' });
+  });
+
+  it('should pass the sender frame to security checks', async () => {
+    const { api, connect } = setup();
+    api.registerHandler('delete-user', async () => {});
+    const foreign = connect('preview', 'https://example.com');
+    vi.stubGlobal('window', foreign.world);
+
+    await expect(api.invoke.deleteUser('u1')).rejects.toBeInstanceOf(IpcSecurityError);
+  });
+
+  it('should deliver events asynchronously to subscribed renderers', async () => {
+    const { api, loopback } = setup();
+    const callback = vi.fn();
+    api.events.onUserUpdated(callback);
+
+    expect(api.broadcast.userUpdated('u1')).toBe(1);
+    expect(callback).not.toHaveBeenCalled();
+
+    await loopback.flush();
+
+    expect(callback).toHaveBeenCalledWith('u1');
+  });
+
+  it('should deliver renderer events to main listeners', async () => {
+    const { api, loopback, editor } = setup();
+    const listener = vi.fn();
+    api.onRendererEvent('window-ready', listener);
+
+    api.emit.windowReady('editor');
+    await loopback.flush();
+
+    expect(listener).toHaveBeenCalledWith(
+      expect.objectContaining({ sender: editor.webContents }),
+      'editor',
+    );
+  });
+
+  it('should relay messages between renderers', async () => {
+    const { api, loopback, connect, editor } = setup();
+    const preview = connect('preview');
+    const received = vi.fn();
+    vi.stubGlobal('window', preview.world);
+    api.relays.onDocumentSaved(received);
+
+    vi.stubGlobal('window', editor.world);
+    api.relayTo('preview').documentSaved('doc-1');
+    await loopback.flush();
+
+    expect(received).toHaveBeenCalledWith('doc-1');
+  });
+
+  it('should stop delivering to closed renderers', async () => {
+    const { api, loopback, editor } = setup();
+    const callback = vi.fn();
+    api.events.onUserUpdated(callback);
+
+    api.send.userUpdated(editor.window, 'u1');
+    editor.close();
+    await loopback.flush();
+
+    expect(callback).not.toHaveBeenCalled();
+    expect(loopback.windows.getAllWindows()).toEqual([]);
+  });
+
+  it('should close a renderer only once', () => {
+    const { loopback, editor, connect } = setup();
+    const settings = connect('settings');
+    const destroyed = vi.fn();
+    editor.webContents.on('destroyed', destroyed);
+
+    editor.close();
+    editor.close();
+
+    expect(destroyed).toHaveBeenCalledTimes(1);
+    expect(loopback.windows.getAllWindows()).toEqual([settings.window]);
+  });
+
+  it('should stream over transferred message ports', async () => {
+    const { api } = setup();
+    api.registerStream('count', async function* (_context, to) {
+      for (let value = 1; value <= to; value++) {
+        yield value;
+      }
+      return { total: to };
+    });
+
+    const stream = api.stream.count(3); // eslint-disable-line no-magic-numbers
+    const chunks: number[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks).toEqual([1, 2, 3]); // eslint-disable-line no-magic-numbers
+    await expect(stream.result).resolves.toEqual({ total: 3 }); // eslint-disable-line no-magic-numbers
+  });
+
+  it('should refuse a second handler for the same channel', () => {
+    const { loopback } = setup();
+
+    expect(() => loopback.ipcMain.handle('get-user', async () => {})).not.toThrow();
+    expect(() => loopback.ipcMain.handle('get-user', async () => {})).toThrow(
+      "Attempted to register a second handler for 'get-user'",
+    );
+  });
+});
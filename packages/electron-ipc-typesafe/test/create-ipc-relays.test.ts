@@ -0,0 +1,188 @@
+import type { IpcRenderer } from 'electron';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { createIpcRelays } from '../src/create-ipc-relays';
+import { defineEvent } from '../src/define-event';
+import { IpcValidationError } from '../src/errors';
+import { tupleOf } from './fixtures/standard-schema';
+
+describe('createIpcRelays', () => {
+  function createWindow(id: number) {
+    return {
+      isDestroyed: () => false,
+      webContents: { id, send: vi.fn(), isDestroyed: () => false },
+    } as any;
+  }
+
+  const editorWindow = createWindow(1);
+  const previewWindow = createWindow(2);
+  const settingsWindow = createWindow(3);
+  const windowNames = new Map<unknown, string>([
+    [editorWindow.webContents, 'editor'],
+    [previewWindow.webContents, 'preview'],
+    [settingsWindow.webContents, 'settings'],
+  ]);
+  const windows = {
+    getAllWindows: () => [editorWindow, previewWindow, settingsWindow],
+    getWindowName: (webContents: any) => windowNames.get(webContents),
+  };
+
+  const relays = {
+    'document-saved': defineEvent<[docId: string]>(),
+    'cursor-moved': defineEvent<[line: number]>({ args: tupleOf('number') }),
+  };
+
+  let mainListeners: Record<string, (...args: any[]) => void>;
+  let mockIpcMain: any;
+  let mockIpcRenderer: IpcRenderer;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mainListeners = {};
+    mockIpcMain = {
+      on: vi.fn((channel: string, listener: (...args: any[]) => void) => {
+        mainListeners[channel] = listener;
+      }),
+    };
+    // Relay sends originate from the editor window
+    mockIpcRenderer = {
+      send: vi.fn((channel: string, ...args: unknown[]) => {
+        mainListeners[channel]?.({ sender: editorWindow.webContents }, ...args);
+      }),
+      on: vi.fn(),
+      removeListener: vi.fn(),
+    } as any;
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  function setup(names?: readonly string[]) {
+    const bridge = createIpcRelays('test-api', relays, { windows }, names);
+    bridge.registerMainRelays(mockIpcMain);
+    const { relay } = bridge.getExposeInPreloadRelayPart(mockIpcRenderer);
+    return { bridge, relay };
+  }
+
+  it('should attach one ipcMain listener per relay channel', () => {
+    const { bridge } = setup();
+
+    bridge.registerMainRelays(mockIpcMain);
+
+    expect(mockIpcMain.on).toHaveBeenCalledTimes(2); // eslint-disable-line no-magic-numbers
+    expect(mockIpcMain.on).toHaveBeenCalledWith('document-saved', expect.any(Function));
+  });
+
+  it('should forward messages to the named window', () => {
+    const { relay } = setup();
+
+    relay.documentSaved('preview', 'doc-1');
+
+    expect(mockIpcRenderer.send).toHaveBeenCalledWith(
+      'document-saved',
+      'preview',
+      'doc-1',
+    );
+    expect(previewWindow.webContents.send).toHaveBeenCalledWith(
+      'document-saved',
+      'doc-1',
+    );
+    expect(settingsWindow.webContents.send).not.toHaveBeenCalled();
+  });
+
+  it('should forward messages to several named windows', () => {
+    const { relay } = setup();
+
+    relay.documentSaved(['preview', 'settings'], 'doc-1');
+
+    expect(previewWindow.webContents.send).toHaveBeenCalled();
+    expect(settingsWindow.webContents.send).toHaveBeenCalled();
+    expect(editorWindow.webContents.send).not.toHaveBeenCalled();
+  });
+
+  it('should forward to every window except the sender for "*"', () => {
+    const { relay } = setup();
+
+    relay.documentSaved('*', 'doc-1');
+
+    expect(previewWindow.webContents.send).toHaveBeenCalled();
+    expect(settingsWindow.webContents.send).toHaveBeenCalled();
+    expect(editorWindow.webContents.send).not.toHaveBeenCalled();
+  });
+
+  it('should drop messages addressed to undeclared windows', () => {
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { relay } = setup(['editor', 'preview']);
+
+    relay.documentSaved('settings', 'doc-1');
+    relay.documentSaved([], 'doc-1');
+
+    expect(settingsWindow.webContents.send).not.toHaveBeenCalled();
+    expect(consoleSpy).toHaveBeenCalledWith(
+      "Dropped relay message on 'document-saved':",
+      expect.objectContaining({ message: 'Invalid relay target: "settings"' }),
+    );
+    expect(consoleSpy).toHaveBeenCalledTimes(2); // eslint-disable-line no-magic-numbers
+  });
+
+  it('should drop payloads that fail validation in main', async () => {
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { relay } = setup();
+
+    relay.cursorMoved('preview', 'top');
+    relay.cursorMoved('preview', 12); // eslint-disable-line no-magic-numbers
+    await vi.waitFor(() => expect(previewWindow.webContents.send).toHaveBeenCalled());
+
+    expect(previewWindow.webContents.send).toHaveBeenCalledTimes(1);
+    expect(previewWindow.webContents.send).toHaveBeenCalledWith('cursor-moved', 12); // eslint-disable-line no-magic-numbers
+    expect(consoleSpy).toHaveBeenCalledWith(
+      "Dropped relay message on 'cursor-moved':",
+      expect.any(IpcValidationError),
+    );
+  });
+
+  it('should drop messages when no window resolver is configured', () => {
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const bridge = createIpcRelays('test-api', relays, {});
+    bridge.registerMainRelays(mockIpcMain);
+
+    bridge.getExposeInPreloadRelayPart(mockIpcRenderer).relay.documentSaved('*', 'doc-1');
+
+    expect(consoleSpy).toHaveBeenCalledWith(
+      "Dropped relay message on 'document-saved':",
+      expect.any(Error),
+    );
+  });
+
+  it('should relay through the exposed API in the renderer', () => {
+    const bridge = createIpcRelays('test-api', relays, { windows });
+    vi.stubGlobal('window', {
+      'test-api': bridge.getExposeInPreloadRelayPart(mockIpcRenderer),
+    });
+
+    bridge.relayTo('preview').documentSaved('doc-1');
+
+    expect(mockIpcRenderer.send).toHaveBeenCalledWith(
+      'document-saved',
+      'preview',
+      'doc-1',
+    );
+  });
+
+  it('should subscribe to relayed messages through the exposed API', () => {
+    const bridge = createIpcRelays('test-api', relays, { windows });
+    vi.stubGlobal('window', {
+      'test-api': bridge.getExposeInPreloadRelayPart(mockIpcRenderer),
+    });
+    const listener = vi.fn();
+
+    bridge.listeners.onDocumentSaved(listener);
+    const [channel, handler] = vi.mocked(mockIpcRenderer.on).mock.calls[0]!;
+    (handler as any)({}, 'doc-1');
+
+    expect(channel).toBe('document-saved');
+    expect(listener).toHaveBeenCalledWith('doc-1');
+  });
+});
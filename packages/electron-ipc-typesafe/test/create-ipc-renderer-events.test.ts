@@ -0,0 +1,134 @@
+import type { IpcRenderer } from 'electron';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { createIpcRendererEvents } from '../src/create-ipc-renderer-events';
+import { defineEvent } from '../src/define-event';
+import { IpcValidationError } from '../src/errors';
+import { tupleOf } from './fixtures/standard-schema';
+
+describe('createIpcRendererEvents', () => {
+  let mainListeners: Record<string, (...args: any[]) => void>;
+  let mockIpcMain: any;
+  let mockIpcRenderer: IpcRenderer;
+  const sender = { id: 7 };
+
+  beforeEach(() => {
+    mainListeners = {};
+    mockIpcMain = {
+      on: vi.fn((channel: string, listener: (...args: any[]) => void) => {
+        mainListeners[channel] = listener;
+      }),
+    };
+    // Deliver renderer sends to the listeners attached on ipcMain
+    mockIpcRenderer = {
+      send: vi.fn((channel: string, ...args: unknown[]) => {
+        mainListeners[channel]?.({ sender }, ...args);
+      }),
+    } as any;
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  const events = {
+    'button-clicked': defineEvent<[buttonId: string]>(),
+    'page-viewed': defineEvent<[path: string, durationMs: number]>({
+      args: tupleOf('string', 'number'),
+    }),
+  };
+
+  it('should expose camelCase emitters in preload that send over ipcRenderer', () => {
+    const bridge = createIpcRendererEvents('test-api', events);
+    const emit = bridge.getExposeInPreloadEmitPart(mockIpcRenderer);
+
+    emit.buttonClicked('save');
+
+    expect(mockIpcRenderer.send).toHaveBeenCalledWith('button-clicked', 'save');
+  });
+
+  it('should attach one ipcMain listener per declared channel', () => {
+    const bridge = createIpcRendererEvents('test-api', events);
+
+    bridge.registerMainListeners(mockIpcMain);
+    bridge.registerMainListeners(mockIpcMain);
+
+    expect(mockIpcMain.on).toHaveBeenCalledTimes(2); // eslint-disable-line no-magic-numbers
+    expect(mockIpcMain.on).toHaveBeenCalledWith('button-clicked', expect.any(Function));
+    expect(mockIpcMain.on).toHaveBeenCalledWith('page-viewed', expect.any(Function));
+  });
+
+  it('should deliver events with the sender to every listener', () => {
+    const bridge = createIpcRendererEvents('test-api', events);
+    bridge.registerMainListeners(mockIpcMain);
+    const first = vi.fn();
+    const second = vi.fn();
+    bridge.onRendererEvent('button-clicked', first);
+    bridge.onRendererEvent('button-clicked', second);
+
+    bridge.getExposeInPreloadEmitPart(mockIpcRenderer).buttonClicked('save');
+
+    expect(first).toHaveBeenCalledWith({ sender }, 'save');
+    expect(second).toHaveBeenCalledWith({ sender }, 'save');
+  });
+
+  it('should stop delivering after unsubscribe', () => {
+    const bridge = createIpcRendererEvents('test-api', events);
+    bridge.registerMainListeners(mockIpcMain);
+    const listener = vi.fn();
+    const unsubscribe = bridge.onRendererEvent('button-clicked', listener);
+
+    unsubscribe();
+    bridge.getExposeInPreloadEmitPart(mockIpcRenderer).buttonClicked('save');
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should isolate listener failures', () => {
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const bridge = createIpcRendererEvents('test-api', events);
+    bridge.registerMainListeners(mockIpcMain);
+    const listener = vi.fn();
+    bridge.onRendererEvent('button-clicked', () => {
+      throw new Error('boom');
+    });
+    bridge.onRendererEvent('button-clicked', listener);
+
+    bridge.getExposeInPreloadEmitPart(mockIpcRenderer).buttonClicked('save');
+
+    expect(listener).toHaveBeenCalled();
+    expect(consoleSpy).toHaveBeenCalledWith(
+      "Error occurred in listener for 'button-clicked':",
+      expect.any(Error),
+    );
+  });
+
+  it('should drop payloads that fail validation in main', async () => {
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const bridge = createIpcRendererEvents('test-api', events);
+    bridge.registerMainListeners(mockIpcMain);
+    const listener = vi.fn();
+    bridge.onRendererEvent('page-viewed', listener);
+    const emit = bridge.getExposeInPreloadEmitPart(mockIpcRenderer);
+
+    emit.pageViewed('/home', 'slow');
+    emit.pageViewed('/home', 120); // eslint-disable-line no-magic-numbers
+    await vi.waitFor(() => expect(listener).toHaveBeenCalled());
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ sender }, '/home', 120); // eslint-disable-line no-magic-numbers
+    expect(consoleSpy).toHaveBeenCalledWith(expect.any(IpcValidationError));
+  });
+
+  it('should emit through the exposed API in the renderer', () => {
+    const bridge = createIpcRendererEvents('test-api', events);
+    vi.stubGlobal('window', {
+      'test-api': { emit: bridge.getExposeInPreloadEmitPart(mockIpcRenderer) },
+    });
+
+    bridge.getEmitObject().buttonClicked('save');
+
+    expect(mockIpcRenderer.send).toHaveBeenCalledWith('button-clicked', 'save');
+  });
+});
@@ -0,0 +1,155 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { createIpcSchema } from '../src/create-ipc-schema';
+import { defineHandler } from '../src/define-handler';
+import { IpcTimeoutError, IpcValidationError, IpcWindowGoneError } from '../src/errors';
+import { createIpcLoopback } from '../src/testing';
+import { valueOf } from './fixtures/standard-schema';
+
+describe('createIpcSchema renderer handlers', () => {
+  const timeoutMs = 500;
+
+  function setup() {
+    const api = createIpcSchema({
+      apiKey: 'appApi',
+      rendererHandlers: {
+        'has-unsaved-changes': defineHandler<[], boolean>(),
+        'get-selection': defineHandler<[format: 'text' | 'html'], string>(),
+        'get-line-count': defineHandler<[], number>({ return: valueOf('number') }),
+      },
+    });
+    const loopback = createIpcLoopback();
+    api.registerMainHandlers(loopback.ipcMain, { windows: loopback.windows });
+
+    const connect = (name: string) => {
+      const renderer = loopback.createRenderer({ name });
+      renderer.contextBridge.exposeInMainWorld(
+        'appApi',
+        api.exposeInPreload(renderer.ipcRenderer),
+      );
+      vi.stubGlobal('window', renderer.world);
+      return renderer;
+    };
+
+    return { api, loopback, connect };
+  }
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('should call the handler registered in the window and resolve with its answer', async () => {
+    const { api, connect } = setup();
+    const renderer = connect('editor');
+    const handler = vi.fn((format: string) => `<${format}>`);
+    api.answer('get-selection', handler);
+
+    await expect(api.ask.getSelection(renderer.window, 'html')).resolves.toBe('<html>');
+    await expect(api.ask.getSelection(renderer.webContents, 'text')).resolves.toBe(
+      '<text>',
+    );
+    expect(handler).toHaveBeenCalledTimes(2); // eslint-disable-line no-magic-numbers
+  });
+
+  it('should only reach the addressed window', async () => {
+    const { api, connect } = setup();
+    const editor = connect('editor');
+    api.answer('has-unsaved-changes', () => true);
+    const preview = connect('preview');
+    api.answer('has-unsaved-changes', () => false);
+
+    await expect(api.ask.hasUnsavedChanges(editor.window)).resolves.toBe(true);
+    await expect(api.ask.hasUnsavedChanges(preview.window)).resolves.toBe(false);
+  });
+
+  it('should reject with the error thrown by the renderer', async () => {
+    const { api, connect } = setup();
+    const renderer = connect('editor');
+    api.answer('has-unsaved-changes', async () => {
+      throw new Error('Editor not ready');
+    });
+
+    await expect(api.ask.hasUnsavedChanges(renderer.window)).rejects.toThrow(
+      'Editor not ready',
+    );
+  });
+
+  it('should reject at once when the answer cannot be sent back', async () => {
+    const { api, connect } = setup();
+    const renderer = connect('editor');
+    api.answer('get-selection', () => (() => 'text') as unknown as string);
+
+    await expect(api.ask.getSelection(renderer.window, 'text')).rejects.toThrow(
+      'could not be cloned',
+    );
+  });
+
+  it('should reject at once when the window has no implementation', async () => {
+    const { api, connect } = setup();
+    const renderer = connect('editor');
+    const unregister = api.answer('has-unsaved-changes', () => true);
+    unregister();
+
+    await expect(api.ask.hasUnsavedChanges(renderer.window)).rejects.toThrow(
+      "No renderer handler registered for 'has-unsaved-changes'",
+    );
+  });
+
+  it('should reject with IpcWindowGoneError when the window is or gets closed', async () => {
+    const { api, connect } = setup();
+    const renderer = connect('editor');
+    api.answer('has-unsaved-changes', () => new Promise<boolean>(() => {}));
+
+    const pending = api.ask.hasUnsavedChanges(renderer.window);
+    renderer.close();
+
+    await expect(pending).rejects.toBeInstanceOf(IpcWindowGoneError);
+    await expect(api.ask.hasUnsavedChanges(renderer.window)).rejects.toMatchObject({
+      code: 'IPC_WINDOW_GONE',
+      channel: 'has-unsaved-changes',
+    });
+  });
+
+  it('should reject with IpcTimeoutError when the renderer does not answer in time', async () => {
+    const { api, connect } = setup();
+    const renderer = connect('editor');
+    api.answer('has-unsaved-changes', () => new Promise<boolean>(() => {}));
+    vi.useFakeTimers();
+
+    const pending = api.ask.withOptions({ timeoutMs }).hasUnsavedChanges(renderer.window);
+    const assertion = expect(pending).rejects.toBeInstanceOf(IpcTimeoutError);
+    await vi.advanceTimersByTimeAsync(timeoutMs);
+
+    await assertion;
+  });
+
+  it('should validate answers against the declared return schema', async () => {
+    const { api, connect } = setup();
+    const renderer = connect('editor');
+    api.answer('get-line-count', () => '12' as unknown as number);
+
+    await expect(api.ask.getLineCount(renderer.window)).rejects.toBeInstanceOf(
+      IpcValidationError,
+    );
+  });
+
+  it('should ignore answers from other windows', async () => {
+    const { api, loopback, connect } = setup();
+    const editor = connect('editor');
+    api.answer('has-unsaved-changes', () => new Promise<boolean>(() => {}));
+    const intruder = connect('intruder');
+    vi.useFakeTimers();
+
+    const pending = api.ask.withOptions({ timeoutMs }).hasUnsavedChanges(editor.window);
+    const assertion = expect(pending).rejects.toBeInstanceOf(IpcTimeoutError);
+    intruder.ipcRenderer.send('has-unsaved-changes', {
+      id: 0,
+      response: { __ipcResponse: true, ok: true, value: false },
+    });
+    await vi.advanceTimersByTimeAsync(timeoutMs);
+
+    await assertion;
+    await loopback.flush();
+  });
+});
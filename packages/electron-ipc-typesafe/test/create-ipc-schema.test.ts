@@ -1,8 +1,29 @@
 import type { IpcMainInvokeEvent, IpcRenderer } from 'electron';
-import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type {
+  HandlerOptions,
+  IpcMiddleware,
+  IpcMiddlewareContext,
+  IpcSchema,
+} from '../src/types';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 
 import { createIpcSchema } from '../src/create-ipc-schema';
+import { defineEvent } from '../src/define-event';
 import { defineHandler } from '../src/define-handler';
+import { defineStream } from '../src/define-stream';
+import {
+  IpcError,
+  IpcMissingHandlersError,
+  IpcRemoteError,
+  IpcSchemaMismatchError,
+  IpcSecurityError,
+  IpcTimeoutError,
+  IpcValidationError,
+  isIpcRemoteError,
+} from '../src/errors';
+import { registerIpcError } from '../src/serialize-error';
+import { createIpcLoopback } from '../src/testing';
+import { tupleOf, valueOf } from './fixtures/standard-schema';
 
 describe('createIpcSchema', () => {
   let mockIpcRenderer: IpcRenderer;
@@ -126,7 +147,7 @@ describe('createIpcSchema', () => {
 
     schema.registerMainHandlers(mockIpcMain);
 
-    expect(mockIpcMain.handle).toHaveBeenCalledWith('get-user', mockHandler);
+    expect(mockIpcMain.handle).toHaveBeenCalledWith('get-user', expect.any(Function));
   });
 
   it('should register handlers immediately if IpcMain is already registered', () => {
@@ -151,7 +172,7 @@ describe('createIpcSchema', () => {
     // This should immediately register with IpcMain
     schema.registerHandler('get-user', mockHandler);
 
-    expect(mockIpcMain.handle).toHaveBeenCalledWith('get-user', mockHandler);
+    expect(mockIpcMain.handle).toHaveBeenCalledWith('get-user', expect.any(Function));
   });
 
   it('should expose handlers in preload', () => {
@@ -187,6 +208,108 @@ describe('createIpcSchema', () => {
     expect(typeof schema.invoke.getUser).toBe('function');
   });
 
+  it('should support renderer-to-main events', () => {
+    const schema = createIpcSchema({
+      apiKey: 'test-api',
+      handlers: {
+        'get-user': defineHandler<[userId: string], { id: string; name: string }>(),
+      },
+      rendererEvents: {
+        'button-clicked': defineEvent<[buttonId: string]>(),
+      },
+    });
+    const mockIpcMain = { handle: vi.fn(), on: vi.fn() } as any;
+
+    const api = schema.exposeInPreload(mockIpcRenderer);
+    schema.registerMainHandlers(mockIpcMain);
+
+    expect(typeof schema.onRendererEvent).toBe('function');
+    expect(schema.emit).toHaveProperty('buttonClicked');
+    expect(api.emit).toHaveProperty('buttonClicked');
+    expect(mockIpcMain.on).toHaveBeenCalledWith('button-clicked', expect.any(Function));
+  });
+
+  it('should allow a schema with only renderer-to-main events', () => {
+    const schema = createIpcSchema({
+      apiKey: 'test-api',
+      rendererEvents: {
+        'button-clicked': defineEvent<[buttonId: string]>(),
+      },
+    });
+
+    expect(schema).toHaveProperty('onRendererEvent');
+    expect(schema).not.toHaveProperty('registerHandler');
+    expect(schema).not.toHaveProperty('invoke');
+  });
+
+  it('should broadcast through the windows passed to registerMainHandlers', () => {
+    const schema = createIpcSchema({
+      apiKey: 'test-api',
+      windowNames: ['main', 'settings'],
+      events: {
+        'settings-changed': defineEvent<[settings: object]>(),
+      },
+    });
+    const settingsWindow = {
+      isDestroyed: () => false,
+      webContents: { id: 2, send: vi.fn(), isDestroyed: () => false },
+    } as any;
+
+    schema.registerMainHandlers({} as any, {
+      windows: {
+        getAllWindows: () => [settingsWindow],
+        getWindowName: () => 'settings',
+      },
+    });
+    const count = schema.broadcastTo({ windows: ['settings'] }).settingsChanged({});
+    // @ts-expect-error window names are checked against `windowNames`
+    schema.broadcastTo({ windows: ['unknown'] });
+
+    expect(count).toBe(1);
+    expect(settingsWindow.webContents.send).toHaveBeenCalledWith('settings-changed', {});
+  });
+
+  it('should create a schema with only relays', () => {
+    const schema = createIpcSchema({
+      apiKey: 'test-api',
+      windowNames: ['editor', 'preview'],
+      relays: {
+        'document-saved': defineEvent<[docId: string]>(),
+      },
+    });
+    const ipcMain = { on: vi.fn() } as any;
+
+    schema.registerMainHandlers(ipcMain);
+    const api = schema.exposeInPreload({ send: vi.fn() } as any);
+    // @ts-expect-error relay targets are checked against `windowNames`
+    schema.relayTo('settings');
+
+    expect(ipcMain.on).toHaveBeenCalledWith('document-saved', expect.any(Function));
+    expect(api.relay).toHaveProperty('documentSaved');
+    expect(api.relays).toHaveProperty('onDocumentSaved');
+    expect(typeof schema.relayTo(['preview']).documentSaved).toBe('function');
+    expect(schema.relays).toHaveProperty('onDocumentSaved');
+  });
+
+  it('should create a schema with only streams', () => {
+    const schema = createIpcSchema({
+      apiKey: 'test-api',
+      streams: {
+        'read-file': defineStream<[path: string], Uint8Array, { size: number }>(),
+      },
+    });
+    const ipcMain = { on: vi.fn() } as any;
+
+    schema.registerMainHandlers(ipcMain);
+    const api = schema.exposeInPreload({} as any);
+
+    expect(ipcMain.on).toHaveBeenCalledWith('read-file', expect.any(Function));
+    expect(api).toHaveProperty('$stream');
+    expect(typeof schema.registerStream).toBe('function');
+    expect(schema.stream).toHaveProperty('readFile');
+    expect(schema).not.toHaveProperty('invoke');
+  });
+
   it('should throw error when no handlers or events provided', () => {
     expect(() => {
       createIpcSchema({
@@ -246,7 +369,7 @@ describe('createIpcSchema', () => {
     const cleanup = schema.registerHandler('get-user', mockHandler);
 
     // Verify handler was registered
-    expect(mockIpcMain.handle).toHaveBeenCalledWith('get-user', mockHandler);
+    expect(mockIpcMain.handle).toHaveBeenCalledWith('get-user', expect.any(Function));
 
     // Call cleanup
     cleanup();
@@ -302,3 +425,1208 @@ describe('createIpcSchema', () => {
     // This test verifies that the cleanup function doesn't throw when ipcMain is null
   });
 });
+
+describe('createIpcSchema runtime validation', () => {
+  let mainHandlers: Record<string, (...args: any[]) => any>;
+  let mockIpcMain: any;
+  let mockIpcRenderer: IpcRenderer;
+
+  beforeEach(() => {
+    mainHandlers = {};
+    mockIpcMain = {
+      handle: vi.fn((channel: string, handler: (...args: any[]) => any) => {
+        mainHandlers[channel] = handler;
+      }),
+      removeHandler: vi.fn(),
+    };
+    // Route renderer invokes straight into the handlers registered on ipcMain
+    mockIpcRenderer = {
+      invoke: vi.fn(async (channel: string, ...args: unknown[]) =>
+        mainHandlers[channel]!({ sender: {} }, ...args),
+      ),
+      on: vi.fn(),
+      removeListener: vi.fn(),
+    } as any;
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  function createValidatedSchema() {
+    const schema = createIpcSchema({
+      apiKey: 'validated-api',
+      handlers: {
+        'rename-user': defineHandler<[id: string, name: string], string>({
+          args: tupleOf('string', 'string'),
+        }),
+        'get-count': defineHandler<[], number>({
+          return: valueOf('number'),
+        }),
+      },
+    });
+    schema.registerMainHandlers(mockIpcMain);
+    vi.stubGlobal('window', { 'validated-api': schema.exposeInPreload(mockIpcRenderer) });
+    return schema;
+  }
+
+  it('should call the handler when arguments are valid', async () => {
+    const schema = createValidatedSchema();
+    schema.registerHandler('rename-user', (_event, id, name) => `${id}:${name}`);
+
+    await expect(schema.invoke.renameUser('1', 'Jane')).resolves.toBe('1:Jane');
+  });
+
+  it('should reject with IpcValidationError without calling the handler', async () => {
+    const schema = createValidatedSchema();
+    const handler = vi.fn();
+    schema.registerHandler('rename-user', handler);
+
+    const error = await schema.invoke
+      .renameUser('1', 2 as any) // eslint-disable-line no-magic-numbers
+      .catch((error_: unknown) => error_);
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(error).toBeInstanceOf(IpcValidationError);
+    expect(error).toMatchObject({
+      channel: 'rename-user',
+      target: 'args',
+      issues: [{ message: 'Expected string', path: [1] }],
+    });
+  });
+
+  it('should validate the returned value when a return schema is declared', async () => {
+    const schema = createValidatedSchema();
+    schema.registerHandler('get-count', () => 'not-a-number' as any);
+
+    await expect(schema.invoke.getCount()).rejects.toMatchObject({
+      name: 'IpcValidationError',
+      target: 'return',
+    });
+  });
+
+  it('should unwrap validated responses in the preload invokers', async () => {
+    const schema = createValidatedSchema();
+    schema.registerHandler('rename-user', (_event, id, name) => `${id}:${name}`);
+    const api = schema.exposeInPreload(mockIpcRenderer);
+
+    await expect(api.renameUser('1', 'Jane')).resolves.toBe('1:Jane');
+    await expect(api.invoke.renameUser(1, 'Jane')).rejects.toBeInstanceOf(
+      IpcValidationError,
+    );
+  });
+
+  it('should drop event payloads that fail validation', async () => {
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const schema = createIpcSchema({
+      apiKey: 'validated-events',
+      events: {
+        'user-updated': defineEvent<[userId: string]>({ args: tupleOf('string') }),
+      },
+    });
+    const callback = vi.fn();
+
+    schema.exposeInPreload(mockIpcRenderer).events.onUserUpdated(callback);
+    const [[, listener]] = (mockIpcRenderer.on as any).mock.calls;
+    listener({}, 'user-1');
+    listener({}, 1);
+    await vi.waitFor(() => expect(consoleSpy).toHaveBeenCalled());
+
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(callback).toHaveBeenCalledWith('user-1');
+    expect(consoleSpy.mock.calls[0]![0]).toBeInstanceOf(IpcValidationError);
+    consoleSpy.mockRestore();
+  });
+});
+
+describe('createIpcSchema error transport', () => {
+  let mainHandlers: Record<string, (...args: any[]) => any>;
+  let mockIpcMain: any;
+  let mockIpcRenderer: IpcRenderer;
+
+  beforeEach(() => {
+    mainHandlers = {};
+    mockIpcMain = {
+      handle: vi.fn((channel: string, handler: (...args: any[]) => any) => {
+        mainHandlers[channel] = handler;
+      }),
+    };
+    mockIpcRenderer = {
+      invoke: vi.fn(async (channel: string, ...args: unknown[]) =>
+        // Mirror Electron, which structured-clones handler results
+        structuredClone(await mainHandlers[channel]!({ sender: {} }, ...args)),
+      ),
+    } as any;
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  class NotFoundError extends Error {
+    code = 'NOT_FOUND';
+    path: string;
+
+    constructor(path: string, options?: { cause?: unknown }) {
+      super(`File not found: ${path}`, options);
+      this.name = 'NotFoundError';
+      this.path = path;
+    }
+  }
+
+  const handlers = {
+    'load-file': defineHandler<
+      [path: string],
+      string,
+      { code: 'NOT_FOUND'; data: { path: string } }
+    >(),
+  };
+
+  function createFileSchema() {
+    const schema = createIpcSchema({ apiKey: 'file-api', handlers });
+    schema.registerMainHandlers(mockIpcMain);
+    vi.stubGlobal('window', { 'file-api': schema.exposeInPreload(mockIpcRenderer) });
+    return schema;
+  }
+
+  it('should wrap handler results in a response envelope', async () => {
+    const schema = createFileSchema();
+    schema.registerHandler('load-file', (_event, path) => `contents of ${path}`);
+
+    await expect(mainHandlers['load-file']!({}, 'a.txt')).resolves.toEqual({
+      __ipcResponse: true,
+      ok: true,
+      value: 'contents of a.txt',
+    });
+    await expect(schema.invoke.loadFile('a.txt')).resolves.toBe('contents of a.txt');
+  });
+
+  it('should rehydrate thrown errors with name, code, data and cause', async () => {
+    const schema = createFileSchema();
+    schema.registerHandler('load-file', (_event, path) => {
+      throw new NotFoundError(path, { cause: new Error('ENOENT') });
+    });
+
+    const error = await schema.invoke
+      .loadFile('a.txt')
+      .catch((error_: unknown) => error_);
+
+    expect(isIpcRemoteError<(typeof handlers)['load-file']>(error, 'load-file')).toBe(
+      true,
+    );
+    expect(error).toBeInstanceOf(IpcRemoteError);
+    expect(error).toMatchObject({
+      name: 'NotFoundError',
+      message: 'File not found: a.txt',
+      channel: 'load-file',
+      code: 'NOT_FOUND',
+      data: { path: 'a.txt' },
+    });
+    expect((error as Error).cause).toMatchObject({ name: 'Error', message: 'ENOENT' });
+    expect(console.error).toHaveBeenCalledWith(
+      "Error occurred in handler for 'load-file':",
+      expect.any(NotFoundError),
+    );
+  });
+
+  it('should rehydrate registered error classes as real instances', async () => {
+    registerIpcError(NotFoundError);
+    const schema = createFileSchema();
+    schema.registerHandler('load-file', (_event, path) => {
+      throw new NotFoundError(path);
+    });
+
+    const error = await schema.invoke
+      .loadFile('a.txt')
+      .catch((error_: unknown) => error_);
+
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect(error).toMatchObject({ code: 'NOT_FOUND', path: 'a.txt' });
+  });
+
+  it('should transport non-error throw values as messages', async () => {
+    const schema = createFileSchema();
+    schema.registerHandler('load-file', () => {
+      // eslint-disable-next-line no-throw-literal
+      throw 'plain failure';
+    });
+
+    await expect(schema.invoke.loadFile('a.txt')).rejects.toMatchObject({
+      name: 'Error',
+      message: 'plain failure',
+    });
+  });
+});
+
+describe('createIpcSchema cancellation', () => {
+  let mainHandlers: Record<string, (...args: any[]) => any>;
+  let mockIpcMain: any;
+  let mockIpcRenderer: IpcRenderer;
+
+  beforeEach(() => {
+    mainHandlers = {};
+    mockIpcMain = {
+      handle: vi.fn((channel: string, handler: (...args: any[]) => any) => {
+        mainHandlers[channel] = handler;
+      }),
+    };
+    mockIpcRenderer = {
+      invoke: vi.fn(async (channel: string, ...args: unknown[]) =>
+        structuredClone(await mainHandlers[channel]!({ sender: { id: 1 } }, ...args)),
+      ),
+    } as any;
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  const handlers = {
+    search: defineHandler<[query: string], string[]>(),
+  };
+
+  // Registers a search handler that only settles once its signal aborts
+  function createSearchSchema() {
+    const schema = createIpcSchema({ apiKey: 'search-api', handlers });
+    schema.registerMainHandlers(mockIpcMain);
+    const api = schema.exposeInPreload(mockIpcRenderer);
+    vi.stubGlobal('window', { 'search-api': api });
+    const signals: AbortSignal[] = [];
+    schema.registerHandler(
+      'search',
+      async (event) =>
+        new Promise((_resolve, reject) => {
+          signals.push(event.signal);
+          event.signal.addEventListener('abort', () => reject(event.signal.reason));
+        }),
+    );
+    return { schema, api, signals };
+  }
+
+  it('should reject with the abort reason and abort the handler signal', async () => {
+    const { schema, signals } = createSearchSchema();
+    const controller = new AbortController();
+
+    const result = schema.invoke.withOptions({ signal: controller.signal }).search('ipc');
+    await vi.waitFor(() => expect(signals).toHaveLength(1));
+    controller.abort(new Error('navigated away'));
+
+    await expect(result).rejects.toThrow('navigated away');
+    await vi.waitFor(() => expect(signals[0]!.aborted).toBe(true));
+    expect(signals[0]!.reason).toMatchObject({ code: 'IPC_CANCELLED' });
+  });
+
+  it('should only let the calling frame abort its calls', async () => {
+    const { schema, signals } = createSearchSchema();
+    const controller = new AbortController();
+
+    void schema.invoke.withOptions({ signal: controller.signal }).search('ipc');
+    await vi.waitFor(() => expect(signals).toHaveLength(1));
+    const [, request] = vi.mocked(mockIpcRenderer.invoke).mock.calls[0]!;
+    const otherFrame = { sender: { id: 1 }, processId: 1, frameId: 2 };
+    await mainHandlers.search!(otherFrame, { ...(request as object), abort: true });
+
+    expect(signals[0]!.aborted).toBe(false);
+  });
+
+  it('should abort calls exceeding the timeout', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { schema, signals } = createSearchSchema();
+
+    const error = await schema.invoke
+      .withOptions({ timeoutMs: 10 }) // eslint-disable-line no-magic-numbers
+      .search('ipc')
+      .catch((error_: unknown) => error_);
+
+    expect(error).toBeInstanceOf(IpcTimeoutError);
+    expect(error).toMatchObject({ channel: 'search', timeoutMs: 10 }); // eslint-disable-line no-magic-numbers
+    expect(signals[0]!.aborted).toBe(true);
+    expect(console.error).toHaveBeenCalledWith(
+      "Handler for 'search' timed out after 10ms",
+    );
+  });
+
+  it('should not reach main when the signal is already aborted', async () => {
+    const { schema } = createSearchSchema();
+
+    await expect(
+      schema.invoke.withOptions({ signal: AbortSignal.abort() }).search('ipc'),
+    ).rejects.toMatchObject({ name: 'AbortError' });
+    expect(mockIpcRenderer.invoke).not.toHaveBeenCalled();
+  });
+
+  it('should ignore aborts after the call completed', async () => {
+    const schema = createIpcSchema({ apiKey: 'search-api', handlers });
+    schema.registerMainHandlers(mockIpcMain);
+    vi.stubGlobal('window', { 'search-api': schema.exposeInPreload(mockIpcRenderer) });
+    schema.registerHandler('search', (_event, query) => [query]);
+    const controller = new AbortController();
+
+    await expect(
+      schema.invoke.withOptions({ signal: controller.signal }).search('ipc'),
+    ).resolves.toEqual(['ipc']);
+    controller.abort();
+
+    expect(mockIpcRenderer.invoke).toHaveBeenCalledTimes(1);
+  });
+
+  it('should give every handler call a signal', async () => {
+    const schema = createIpcSchema({ apiKey: 'search-api', handlers });
+    schema.registerMainHandlers(mockIpcMain);
+    vi.stubGlobal('window', { 'search-api': schema.exposeInPreload(mockIpcRenderer) });
+    schema.registerHandler('search', (event) => [String(event.signal.aborted)]);
+
+    await expect(schema.invoke.search('ipc')).resolves.toEqual(['false']);
+  });
+
+  it('should abort the calls of a page once it navigates or is closed', async () => {
+    const schema = createIpcSchema({ apiKey: 'search-api', handlers });
+    const loopback = createIpcLoopback();
+    schema.registerMainHandlers(loopback.ipcMain);
+    const signals: AbortSignal[] = [];
+    schema.registerHandler(
+      'search',
+      async (event) =>
+        new Promise((_resolve, reject) => {
+          signals.push(event.signal);
+          event.signal.addEventListener('abort', () => reject(event.signal.reason));
+        }),
+    );
+    const connect = () => {
+      const renderer = loopback.createRenderer();
+      const on = vi.spyOn(renderer.webContents, 'on');
+      renderer.contextBridge.exposeInMainWorld(
+        'search-api',
+        schema.exposeInPreload(renderer.ipcRenderer),
+      );
+      vi.stubGlobal('window', renderer.world);
+      void schema.invoke.search('ipc').catch(() => {});
+      return { renderer, on };
+    };
+
+    const navigated = connect();
+    await vi.waitFor(() => expect(signals).toHaveLength(1));
+    const listeners = navigated.on.mock.calls as unknown as [string, () => void][];
+    listeners.find(([name]) => name === 'did-navigate')?.[1]();
+    const closed = connect();
+    await vi.waitFor(() => expect(signals).toHaveLength(2)); // eslint-disable-line no-magic-numbers
+    closed.renderer.close();
+
+    expect(signals[0]!.aborted).toBe(true);
+    expect(signals[0]!.reason).toMatchObject({ code: 'IPC_CANCELLED' });
+    expect(signals[1]!.aborted).toBe(true);
+  });
+
+  it('should support options from preload code', async () => {
+    const { api, signals } = createSearchSchema();
+    const controller = new AbortController();
+
+    const result = api.invoke.withOptions({ signal: controller.signal }).search('ipc');
+    await vi.waitFor(() => expect(signals).toHaveLength(1));
+    controller.abort(new Error('closed'));
+
+    await expect(result).rejects.toThrow('closed');
+    await vi.waitFor(() => expect(signals[0]!.aborted).toBe(true));
+  });
+});
+
+describe('createIpcSchema timeouts', () => {
+  let mainHandlers: Record<string, (...args: any[]) => any>;
+  let mockIpcMain: any;
+  let mockIpcRenderer: IpcRenderer;
+
+  beforeEach(() => {
+    mainHandlers = {};
+    mockIpcMain = {
+      handle: vi.fn((channel: string, handler: (...args: any[]) => any) => {
+        mainHandlers[channel] = handler;
+      }),
+    };
+    mockIpcRenderer = {
+      invoke: vi.fn(async (channel: string, ...args: unknown[]) =>
+        structuredClone(await mainHandlers[channel]!({ sender: { id: 1 } }, ...args)),
+      ),
+    } as any;
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  const handlers = {
+    'slow-default': defineHandler<[], string>(),
+    'slow-override': defineHandler<[], string>({ timeoutMs: 10 }), // eslint-disable-line no-magic-numbers
+  };
+
+  // Handlers resolve after the given delay
+  function createSlowSchema(timeoutMs: number | undefined, delayMs: number) {
+    const schema = createIpcSchema({ apiKey: 'slow-api', handlers, timeoutMs });
+    schema.registerMainHandlers(mockIpcMain);
+    vi.stubGlobal('window', { 'slow-api': schema.exposeInPreload(mockIpcRenderer) });
+    const respond = async () =>
+      new Promise<string>((resolve) => setTimeout(() => resolve('done'), delayMs));
+    schema.registerHandler('slow-default', respond);
+    schema.registerHandler('slow-override', respond);
+    return schema;
+  }
+
+  it('should apply the schema default timeout', async () => {
+    const schema = createSlowSchema(10, 100); // eslint-disable-line no-magic-numbers
+
+    await expect(schema.invoke.slowDefault()).rejects.toBeInstanceOf(IpcTimeoutError);
+    expect(console.error).toHaveBeenCalledWith(
+      "Handler for 'slow-default' timed out after 10ms",
+    );
+  });
+
+  it('should let handlers override the schema default', async () => {
+    const schema = createSlowSchema(1000, 50); // eslint-disable-line no-magic-numbers
+
+    await expect(schema.invoke.slowDefault()).resolves.toBe('done');
+    await expect(schema.invoke.slowOverride()).rejects.toMatchObject({
+      name: 'IpcTimeoutError',
+      timeoutMs: 10, // eslint-disable-line no-magic-numbers
+    });
+  });
+
+  it('should let calls shorten the handler timeout but not extend it', async () => {
+    const schema = createSlowSchema(1000, 50); // eslint-disable-line no-magic-numbers
+
+    await expect(
+      schema.invoke.withOptions({ timeoutMs: 10_000 }).slowOverride(), // eslint-disable-line no-magic-numbers
+    ).rejects.toMatchObject({ timeoutMs: 10 }); // eslint-disable-line no-magic-numbers
+    await expect(
+      schema.invoke.withOptions({ timeoutMs: 10 }).slowDefault(), // eslint-disable-line no-magic-numbers
+    ).rejects.toMatchObject({ timeoutMs: 10 }); // eslint-disable-line no-magic-numbers
+  });
+
+  it('should apply call timeouts when no timeout is configured', async () => {
+    const schema = createSlowSchema(undefined, 50); // eslint-disable-line no-magic-numbers
+
+    await expect(
+      schema.invoke.withOptions({ timeoutMs: 1000 }).slowDefault(), // eslint-disable-line no-magic-numbers
+    ).resolves.toBe('done');
+    await expect(
+      schema.invoke.withOptions({ timeoutMs: 10 }).slowDefault(), // eslint-disable-line no-magic-numbers
+    ).rejects.toBeInstanceOf(IpcTimeoutError);
+  });
+
+  it('should ignore call timeouts that are not positive finite numbers', async () => {
+    const schema = createSlowSchema(10, 50); // eslint-disable-line no-magic-numbers
+
+    for (const timeoutMs of [Number.NaN, Infinity, 0, -1, '1000']) {
+      // eslint-disable-line no-magic-numbers
+      await expect(
+        schema.invoke.withOptions({ timeoutMs: timeoutMs as number }).slowDefault(),
+      ).rejects.toMatchObject({ timeoutMs: 10 }); // eslint-disable-line no-magic-numbers
+    }
+  });
+
+  it('should leave calls without a timeout unbounded', async () => {
+    const schema = createSlowSchema(undefined, 50); // eslint-disable-line no-magic-numbers
+
+    await expect(schema.invoke.slowDefault()).resolves.toBe('done');
+    expect(console.error).not.toHaveBeenCalled();
+  });
+});
+
+describe('createIpcSchema middleware', () => {
+  let mainHandlers: Record<string, (...args: any[]) => any>;
+  let mockIpcMain: any;
+  let mockIpcRenderer: IpcRenderer;
+  const senderFrame = { url: 'app://index.html' };
+
+  beforeEach(() => {
+    mainHandlers = {};
+    mockIpcMain = {
+      handle: vi.fn((channel: string, handler: (...args: any[]) => any) => {
+        mainHandlers[channel] = handler;
+      }),
+    };
+    mockIpcRenderer = {
+      invoke: vi.fn(async (channel: string, ...args: unknown[]) =>
+        structuredClone(
+          await mainHandlers[channel]!({ sender: { id: 1 }, senderFrame }, ...args),
+        ),
+      ),
+    } as any;
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  function createSchema(
+    config: Pick<Parameters<typeof createIpcSchema>[0], 'middleware'> = {},
+    channelMiddleware: IpcMiddleware<[name: string], string>[] = [],
+  ) {
+    const schema = createIpcSchema({
+      apiKey: 'mw-api',
+      handlers: {
+        greet: defineHandler<[name: string], string>({ middleware: channelMiddleware }),
+        ping: defineHandler<[], string>(),
+      },
+      ...config,
+    });
+    schema.registerMainHandlers(mockIpcMain);
+    vi.stubGlobal('window', { 'mw-api': schema.exposeInPreload(mockIpcRenderer) });
+    schema.registerHandler('greet', (_event, name) => `Hello ${name}`);
+    schema.registerHandler('ping', () => 'pong');
+    return schema;
+  }
+
+  it('should run global then per-channel middleware around the handler', async () => {
+    const calls: string[] = [];
+    const trace =
+      (name: string): IpcMiddleware<any, any> =>
+      async (_context, next) => {
+        calls.push(`${name}:before`);
+        const result = await next();
+        calls.push(`${name}:after`);
+        return result;
+      };
+    const schema = createSchema({ middleware: [trace('config')] }, [trace('define')]);
+    schema.use(trace('use'));
+    schema.use('greet', trace('use-greet'));
+
+    await expect(schema.invoke.greet('Ada')).resolves.toBe('Hello Ada');
+    expect(calls).toEqual([
+      'config:before',
+      'use:before',
+      'define:before',
+      'use-greet:before',
+      'use-greet:after',
+      'define:after',
+      'use:after',
+      'config:after',
+    ]);
+    calls.length = 0;
+    await schema.invoke.ping();
+    expect(calls).toEqual(['config:before', 'use:before', 'use:after', 'config:after']);
+  });
+
+  it('should expose channel, parsed args and sender frame', async () => {
+    const middleware = vi.fn(async (_context: IpcMiddlewareContext, next) => next());
+    const schema = createSchema({ middleware: [middleware] });
+
+    await schema.invoke.greet('Ada');
+
+    expect(middleware).toHaveBeenCalledWith(
+      expect.objectContaining({ channel: 'greet', args: ['Ada'], senderFrame }),
+      expect.any(Function),
+    );
+  });
+
+  it('should let middleware short-circuit or change arguments', async () => {
+    const schema = createSchema();
+    schema.use('greet', async (context, next) => {
+      if (context.args[0] === 'blocked') {
+        return 'Not allowed';
+      }
+      context.args = [context.args[0].toUpperCase()];
+      return next();
+    });
+
+    await expect(schema.invoke.greet('blocked')).resolves.toBe('Not allowed');
+    await expect(schema.invoke.greet('ada')).resolves.toBe('Hello ADA');
+  });
+
+  it('should let middleware map errors', async () => {
+    const schema = createSchema();
+    schema.registerHandler('ping', () => {
+      throw new Error('database offline');
+    });
+    schema.use(async (_context, next) => {
+      try {
+        return await next();
+      } catch (error) {
+        throw new IpcError('Service unavailable', { code: 'UNAVAILABLE', cause: error });
+      }
+    });
+
+    await expect(schema.invoke.ping()).rejects.toMatchObject({
+      name: 'IpcError',
+      code: 'UNAVAILABLE',
+      message: 'Service unavailable',
+    });
+  });
+
+  it('should stop running middleware after cleanup', async () => {
+    const middleware = vi.fn(async (_context, next: () => Promise<unknown>) => next());
+    const schema = createSchema();
+    const remove = schema.use(middleware);
+
+    remove();
+    await schema.invoke.ping();
+
+    expect(middleware).not.toHaveBeenCalled();
+  });
+
+  it('should reject calling next more than once', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const schema = createSchema();
+    schema.use(async (_context, next) => {
+      await next();
+      return next();
+    });
+
+    await expect(schema.invoke.ping()).rejects.toThrow(
+      "next() called multiple times in middleware for 'ping'",
+    );
+  });
+});
+
+describe('createIpcSchema security', () => {
+  let mainHandlers: Record<string, (...args: any[]) => any>;
+  let mockIpcMain: any;
+  let mockIpcRenderer: IpcRenderer;
+  let callEvent: any;
+
+  const mainFrame = { origin: 'app://index', parent: null };
+  const iframe = { origin: 'app://index', parent: mainFrame };
+  const foreignFrame = { origin: 'https://example.com', parent: null };
+
+  beforeEach(() => {
+    mainHandlers = {};
+    callEvent = { sender: { id: 1 }, senderFrame: mainFrame };
+    mockIpcMain = {
+      handle: vi.fn((channel: string, handler: (...args: any[]) => any) => {
+        mainHandlers[channel] = handler;
+      }),
+    };
+    mockIpcRenderer = {
+      invoke: vi.fn(async (channel: string, ...args: unknown[]) =>
+        structuredClone(await mainHandlers[channel]!({ ...callEvent }, ...args)),
+      ),
+    } as any;
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  const handlers = {
+    'delete-file': defineHandler<[path: string], boolean>(),
+    'open-window': defineHandler<[name: string], boolean>(),
+    ping: defineHandler<[], string>(),
+  };
+
+  function createSecuredSchema(onSecurityViolation = vi.fn()) {
+    const schema = createIpcSchema({
+      apiKey: 'secure-api',
+      windowNames: ['main', 'settings'],
+      handlers,
+      security: {
+        'delete-file': { allowedOrigins: ['app://index'], mainFrameOnly: true },
+        'open-window': { allowedWindows: ['main'] },
+      },
+    });
+    schema.registerMainHandlers(mockIpcMain, {
+      windows: {
+        getAllWindows: () => [],
+        getWindowName: (webContents: any) => (webContents.id === 1 ? 'main' : 'settings'),
+      },
+      onSecurityViolation,
+    });
+    vi.stubGlobal('window', { 'secure-api': schema.exposeInPreload(mockIpcRenderer) });
+    const handler = vi.fn(() => true);
+    schema.registerHandler('delete-file', handler);
+    schema.registerHandler('open-window', handler);
+    schema.registerHandler('ping', () => 'pong');
+    return { schema, handler, onSecurityViolation };
+  }
+
+  it('should allow calls matching the channel security', async () => {
+    const { schema, onSecurityViolation } = createSecuredSchema();
+
+    await expect(schema.invoke.deleteFile('a.txt')).resolves.toBe(true);
+    await expect(schema.invoke.openWindow('settings')).resolves.toBe(true);
+    expect(onSecurityViolation).not.toHaveBeenCalled();
+  });
+
+  it('should reject calls from disallowed origins and report them', async () => {
+    const { schema, handler, onSecurityViolation } = createSecuredSchema();
+    callEvent.senderFrame = foreignFrame;
+
+    const error = await schema.invoke
+      .deleteFile('a.txt')
+      .catch((error_: unknown) => error_);
+
+    expect(error).toBeInstanceOf(IpcSecurityError);
+    expect(error).toMatchObject({ code: 'IPC_FORBIDDEN', reason: 'origin' });
+    expect(handler).not.toHaveBeenCalled();
+    expect(onSecurityViolation).toHaveBeenCalledWith(
+      expect.objectContaining({
+        channel: 'delete-file',
+        reason: 'origin',
+        origin: 'https://example.com',
+      }),
+    );
+  });
+
+  it('should reject abort requests from disallowed senders', async () => {
+    const { onSecurityViolation } = createSecuredSchema();
+    const abortRequest = { __ipcRequest: true, id: 0, abort: true };
+
+    const response = await mainHandlers['delete-file']!(
+      { ...callEvent, senderFrame: foreignFrame },
+      abortRequest,
+    );
+
+    expect(response).toMatchObject({ ok: false, error: { code: 'IPC_FORBIDDEN' } });
+    expect(onSecurityViolation).toHaveBeenCalledWith(
+      expect.objectContaining({ channel: 'delete-file', reason: 'origin' }),
+    );
+  });
+
+  it('should reject calls from iframes and destroyed frames', async () => {
+    const { schema } = createSecuredSchema();
+
+    callEvent.senderFrame = iframe;
+    await expect(schema.invoke.deleteFile('a.txt')).rejects.toMatchObject({
+      reason: 'frame',
+    });
+    callEvent.senderFrame = null;
+    await expect(schema.invoke.deleteFile('a.txt')).rejects.toMatchObject({
+      reason: 'frame',
+    });
+  });
+
+  it('should reject calls from windows not on the allow-list', async () => {
+    const { schema, onSecurityViolation } = createSecuredSchema();
+    callEvent.sender = { id: 2 }; // eslint-disable-line no-magic-numbers
+
+    await expect(schema.invoke.openWindow('settings')).rejects.toMatchObject({
+      reason: 'window',
+    });
+    expect(onSecurityViolation).toHaveBeenCalledWith(
+      expect.objectContaining({ channel: 'open-window', windowName: 'settings' }),
+    );
+    await expect(schema.invoke.ping()).resolves.toBe('pong');
+  });
+
+  it('should still reject when the audit hook throws', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { schema } = createSecuredSchema(
+      vi.fn(() => {
+        throw new Error('audit log unavailable');
+      }),
+    );
+    callEvent.senderFrame = foreignFrame;
+
+    await expect(schema.invoke.deleteFile('a.txt')).rejects.toBeInstanceOf(
+      IpcSecurityError,
+    );
+    expect(console.error).toHaveBeenCalledWith(
+      "Error occurred in onSecurityViolation for 'delete-file':",
+      expect.any(Error),
+    );
+  });
+
+  it('should type allowed windows against window names', () => {
+    createIpcSchema({
+      apiKey: 'secure-api',
+      windowNames: ['main'],
+      handlers,
+      // @ts-expect-error window names are checked against `windowNames`
+      security: { 'open-window': { allowedWindows: ['unknown'] } },
+    });
+  });
+});
+
+describe('createIpcSchema missing handlers', () => {
+  let mockIpcMain: any;
+
+  beforeEach(() => {
+    mockIpcMain = { handle: vi.fn(), removeHandler: vi.fn(), on: vi.fn() };
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function createSchema() {
+    return createIpcSchema({
+      apiKey: 'wiring-api',
+      handlers: {
+        'get-user': defineHandler<[id: string], string>(),
+        'save-user': defineHandler<[name: string], void>(),
+        'delete-user': defineHandler<[id: string], void>(),
+      },
+      streams: {
+        'export-users': defineStream<[], string>(),
+      },
+    });
+  }
+
+  it('should list declared handlers and streams without an implementation', () => {
+    const schema = createSchema();
+    schema.registerHandler('get-user', async (_event, id) => id);
+
+    expect(schema.getMissingHandlers()).toEqual([
+      'save-user',
+      'delete-user',
+      'export-users',
+    ]);
+  });
+
+  it('should throw with every missing channel by default', () => {
+    const schema = createSchema();
+    schema.registerHandler('get-user', async (_event, id) => id);
+    schema.registerStream('export-users', async function* () {});
+
+    expect(() => schema.assertAllHandlersRegistered()).toThrow(IpcMissingHandlersError);
+    expect(() => schema.assertAllHandlersRegistered()).toThrow(
+      "No handler registered for IPC channels: 'save-user', 'delete-user'",
+    );
+  });
+
+  it('should warn instead of throwing in warn mode', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const schema = createSchema();
+
+    schema.assertAllHandlersRegistered('warn');
+
+    expect(warn).toHaveBeenCalledWith(
+      "No handler registered for IPC channels: 'get-user', 'save-user', 'delete-user', 'export-users'",
+    );
+  });
+
+  it('should pass once every handler is registered, and fail again after cleanup', () => {
+    const schema = createSchema();
+    schema.registerHandler('get-user', async (_event, id) => id);
+    schema.registerHandler('save-user', async () => {});
+    const cleanup = schema.registerHandler('delete-user', async () => {});
+    schema.registerStream('export-users', async function* () {});
+
+    expect(() => schema.assertAllHandlersRegistered()).not.toThrow();
+
+    cleanup();
+
+    expect(schema.getMissingHandlers()).toEqual(['delete-user']);
+  });
+
+  it('should check handlers when registering with ipcMain in strict mode', () => {
+    const schema = createSchema();
+
+    expect(() =>
+      schema.registerMainHandlers(mockIpcMain, { missingHandlers: 'throw' }),
+    ).toThrow(IpcMissingHandlersError);
+  });
+
+  it('should not check handlers when registering with ipcMain by default', () => {
+    const schema = createSchema();
+
+    expect(() => schema.registerMainHandlers(mockIpcMain)).not.toThrow();
+  });
+});
+
+describe('createIpcSchema compatibility', () => {
+  const mainHandlers = {
+    'get-user': defineHandler<[id: string], string>(),
+    'delete-user': defineHandler<[id: string], void>(),
+  };
+  const preloadHandlers = {
+    'get-user': defineHandler<[id: string], string>(),
+    'rename-user': defineHandler<[id: string, name: string], void>(),
+  };
+
+  type Schema = Pick<
+    IpcSchema<any, any, any>,
+    'registerMainHandlers' | 'exposeInPreload'
+  >;
+
+  function connect(mainSchema: Schema, preloadSchema: Schema) {
+    const loopback = createIpcLoopback();
+    mainSchema.registerMainHandlers(loopback.ipcMain);
+    const renderer = loopback.createRenderer({ name: 'main' });
+    renderer.contextBridge.exposeInMainWorld(
+      'appApi',
+      preloadSchema.exposeInPreload(renderer.ipcRenderer),
+    );
+    vi.stubGlobal('window', renderer.world);
+    return { loopback, renderer };
+  }
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('should give schemas with the same channels and version the same fingerprint', () => {
+    const create = (version?: string) =>
+      createIpcSchema({ apiKey: 'appApi', version, handlers: mainHandlers });
+
+    expect(create('1').fingerprint).toBe(create('1').fingerprint);
+    expect(create('1').fingerprint).not.toBe(create('2').fingerprint);
+    expect(create().fingerprint).not.toBe(
+      createIpcSchema({ apiKey: 'appApi', handlers: preloadHandlers }).fingerprint,
+    );
+  });
+
+  it('should reject invokes listing channels whose shape changed', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const create = (options: HandlerOptions<[id: string], string>) =>
+      createIpcSchema({
+        apiKey: 'appApi',
+        compatibility: 'throw',
+        handlers: {
+          ...mainHandlers,
+          'get-user': defineHandler<[id: string], string>(options),
+        },
+      });
+    const mainSchema = create({ args: tupleOf('string') });
+    const preloadSchema = create({ timeoutMs: 1000 }); // eslint-disable-line no-magic-numbers
+    mainSchema.registerHandler('get-user', async (_event, id) => id);
+    connect(mainSchema, preloadSchema);
+
+    const error = await preloadSchema.invoke.getUser('u1').catch((e) => e);
+
+    expect(mainSchema.fingerprint).not.toBe(preloadSchema.fingerprint);
+    expect(error).toBeInstanceOf(IpcSchemaMismatchError);
+    expect(error).toMatchObject({
+      added: [],
+      removed: [],
+      changed: [{ section: 'handlers', channel: 'get-user' }],
+    });
+    expect(error.message).toBe(
+      "IPC schema of the preload does not match main: changed handlers 'get-user'",
+    );
+    expect(create({ timeoutMs: 1 }).fingerprint).toBe(preloadSchema.fingerprint);
+  });
+
+  it('should invoke normally when main runs the same schema', async () => {
+    const create = () =>
+      createIpcSchema({
+        apiKey: 'appApi',
+        compatibility: 'throw',
+        handlers: mainHandlers,
+      });
+    const mainSchema = create();
+    mainSchema.registerHandler('get-user', async (_event, id) => `user ${id}`);
+    connect(mainSchema, create());
+
+    await expect(mainSchema.invoke.getUser('u1')).resolves.toBe('user u1');
+  });
+
+  it('should reject invokes listing added and removed channels in throw mode', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const mainSchema = createIpcSchema({
+      apiKey: 'appApi',
+      compatibility: 'throw',
+      handlers: mainHandlers,
+    });
+    const preloadSchema = createIpcSchema({
+      apiKey: 'appApi',
+      compatibility: 'throw',
+      handlers: preloadHandlers,
+    });
+    const handler = vi.fn(async (_event: IpcMainInvokeEvent, id: string) => id);
+    mainSchema.registerHandler('get-user', handler);
+    connect(mainSchema, preloadSchema);
+
+    const error = await preloadSchema.invoke.getUser('u1').catch((e) => e);
+
+    expect(error).toBeInstanceOf(IpcSchemaMismatchError);
+    expect(error).toMatchObject({
+      code: 'IPC_SCHEMA_MISMATCH',
+      added: [{ section: 'handlers', channel: 'rename-user' }],
+      removed: [{ section: 'handlers', channel: 'delete-user' }],
+    });
+    expect(error.message).toBe(
+      "IPC schema of the preload does not match main: added handlers 'rename-user'; removed handlers 'delete-user'",
+    );
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should report differing versions', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const create = (version: string) =>
+      createIpcSchema({
+        apiKey: 'appApi',
+        version,
+        compatibility: 'throw',
+        handlers: mainHandlers,
+      });
+    const preloadSchema = create('1.0.0');
+    connect(create('1.1.0'), preloadSchema);
+
+    await expect(preloadSchema.invoke.getUser('u1')).rejects.toThrow(
+      'version 1.0.0 in preload, 1.1.0 in main',
+    );
+  });
+
+  it('should warn once and keep invoking in warn mode', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const mainSchema = createIpcSchema({
+      apiKey: 'appApi',
+      compatibility: 'warn',
+      handlers: mainHandlers,
+    });
+    const preloadSchema = createIpcSchema({
+      apiKey: 'appApi',
+      compatibility: 'warn',
+      handlers: preloadHandlers,
+    });
+    mainSchema.registerHandler('get-user', async (_event, id) => `user ${id}`);
+    connect(mainSchema, preloadSchema);
+
+    await expect(preloadSchema.invoke.getUser('u1')).resolves.toBe('user u1');
+    await expect(preloadSchema.invoke.getUser('u2')).resolves.toBe('user u2');
+
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringContaining("added handlers 'rename-user'"),
+    );
+  });
+
+  it('should warn and keep invoking when main does not answer the check', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const mainSchema = createIpcSchema({ apiKey: 'appApi', handlers: mainHandlers });
+    const preloadSchema = createIpcSchema({
+      apiKey: 'appApi',
+      compatibility: 'throw',
+      handlers: mainHandlers,
+    });
+    mainSchema.registerHandler('get-user', async (_event, id) => `user ${id}`);
+    connect(mainSchema, preloadSchema);
+
+    await expect(preloadSchema.invoke.getUser('u1')).resolves.toBe('user u1');
+    expect(warn).toHaveBeenCalledWith(
+      'Could not verify the IPC schema against main:',
+      expect.any(Error),
+    );
+  });
+
+  it('should not exchange manifests unless enabled', () => {
+    const invoke = vi.fn();
+    const handle = vi.fn();
+    const schema = createIpcSchema({ apiKey: 'appApi', handlers: mainHandlers });
+
+    schema.registerMainHandlers({ handle } as any);
+    schema.exposeInPreload({ invoke } as unknown as IpcRenderer);
+
+    expect(handle).not.toHaveBeenCalledWith('$schema', expect.anything());
+    expect(invoke).not.toHaveBeenCalled();
+  });
+});
+
+describe('createIpcSchema batching and deduplication', () => {
+  function setup(batching: boolean) {
+    const schema = createIpcSchema({
+      apiKey: 'appApi',
+      batching,
+      handlers: {
+        'get-settings': defineHandler<[], { theme: string }>({ idempotent: true }),
+        'get-flag': defineHandler<[name: string], boolean>({ idempotent: true }),
+        'save-user': defineHandler<[name: string], string>(),
+        'delete-user': defineHandler<[id: string], void>(),
+      },
+      security: {
+        'delete-user': { allowedWindows: ['admin'] },
+      },
+    });
+    const loopback = createIpcLoopback();
+    schema.registerMainHandlers(loopback.ipcMain, { windows: loopback.windows });
+    const renderer = loopback.createRenderer({ name: 'main' });
+    const invoke = vi.spyOn(renderer.ipcRenderer, 'invoke');
+    renderer.contextBridge.exposeInMainWorld(
+      'appApi',
+      schema.exposeInPreload(renderer.ipcRenderer),
+    );
+    vi.stubGlobal('window', renderer.world);
+    return { schema, invoke };
+  }
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('should send the calls made in the same tick in one round trip', async () => {
+    const { schema, invoke } = setup(true);
+    schema.registerHandler('get-settings', async () => ({ theme: 'dark' }));
+    schema.registerHandler('get-flag', async (_event, name) => name === 'beta');
+    schema.registerHandler('save-user', async (_event, name) => `saved ${name}`);
+
+    const results = await Promise.all([
+      schema.invoke.getSettings(),
+      schema.invoke.getFlag('beta'),
+      schema.invoke.saveUser('Ada'),
+    ]);
+
+    expect(results).toEqual([{ theme: 'dark' }, true, 'saved Ada']);
+    expect(invoke).toHaveBeenCalledTimes(1);
+    expect(invoke).toHaveBeenCalledWith('$batch', [
+      { channel: 'get-settings', args: [] },
+      { channel: 'get-flag', args: ['beta'] },
+      { channel: 'save-user', args: ['Ada'] },
+    ]);
+  });
+
+  it('should send a call alone on its own channel', async () => {
+    const { schema, invoke } = setup(true);
+    schema.registerHandler('save-user', async (_event, name) => `saved ${name}`);
+
+    await expect(schema.invoke.saveUser('Ada')).resolves.toBe('saved Ada');
+    expect(invoke).toHaveBeenCalledWith('save-user', 'Ada');
+  });
+
+  it('should settle every batched call on its own', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { schema } = setup(true);
+    schema.registerHandler('save-user', async () => {
+      throw new IpcError('Name taken', { code: 'TAKEN' });
+    });
+    schema.registerHandler('delete-user', async () => {});
+
+    const [saved, deleted, flag] = await Promise.allSettled([
+      schema.invoke.saveUser('Ada'),
+      schema.invoke.deleteUser('u1'),
+      schema.invoke.getFlag('beta'),
+    ]);
+
+    expect(saved).toMatchObject({ status: 'rejected', reason: { code: 'TAKEN' } });
+    expect(deleted).toMatchObject({ status: 'rejected' });
+    expect((deleted as PromiseRejectedResult).reason).toBeInstanceOf(IpcSecurityError);
+    expect(flag).toMatchObject({
+      status: 'rejected',
+      reason: { message: "No handler registered for 'get-flag'" },
+    });
+  });
+
+  it('should share in-flight calls to idempotent handlers with the same arguments', async () => {
+    const { schema } = setup(false);
+    const getFlag = vi.fn(
+      async (_event: IpcMainInvokeEvent, name: string) => name === 'beta',
+    );
+    schema.registerHandler('get-flag', getFlag);
+
+    const results = await Promise.all([
+      schema.invoke.getFlag('beta'),
+      schema.invoke.getFlag('beta'),
+      schema.invoke.getFlag('alpha'),
+    ]);
+    await schema.invoke.getFlag('beta');
+
+    expect(results).toEqual([true, true, false]);
+    expect(getFlag).toHaveBeenCalledTimes(3); // eslint-disable-line no-magic-numbers
+  });
+
+  it('should not share calls to other handlers', async () => {
+    const { schema } = setup(false);
+    const saveUser = vi.fn(async (_event: IpcMainInvokeEvent, name: string) => name);
+    schema.registerHandler('save-user', saveUser);
+
+    await Promise.all([schema.invoke.saveUser('Ada'), schema.invoke.saveUser('Ada')]);
+
+    expect(saveUser).toHaveBeenCalledTimes(2); // eslint-disable-line no-magic-numbers
+  });
+});
@@ -0,0 +1,333 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { createIpcSchema } from '../src/create-ipc-schema';
+import { createIpcSerializer } from '../src/create-ipc-serializer';
+import { defineCodec } from '../src/define-codec';
+import { defineEvent } from '../src/define-event';
+import { defineHandler } from '../src/define-handler';
+import { defineStore } from '../src/define-store';
+import { defineStream } from '../src/define-stream';
+import { createIpcLoopback, createMockIpc } from '../src/testing';
+import { createSchema } from './fixtures/standard-schema';
+
+class Money {
+  constructor(
+    readonly cents: number,
+    readonly currency: string,
+  ) {}
+
+  format() {
+    return `${(this.cents / 100).toFixed(2)} ${this.currency}`; // eslint-disable-line no-magic-numbers
+  }
+}
+
+const moneyCodec = defineCodec({
+  name: 'Money',
+  is: (value) => value instanceof Money,
+  encode: (money: Money) => ({ cents: money.cents, currency: money.currency }),
+  decode: ({ cents, currency }) => new Money(cents, currency),
+});
+
+// Copies a value the way IPC does, dropping prototypes of class instances
+function roundTrip(serializer: ReturnType<typeof createIpcSerializer>, value: unknown) {
+  return serializer.deserialize(structuredClone(serializer.serialize(value)));
+}
+
+describe('createIpcSerializer', () => {
+  it('should carry built-in types nested in arrays and plain objects', () => {
+    const serializer = createIpcSerializer();
+    const value = {
+      at: new Date(0),
+      tags: new Set(['a', 'b']),
+      totals: new Map<string, unknown>([
+        ['x', 10n],
+        ['y', { since: new Date(1) }],
+      ]), // eslint-disable-line no-magic-numbers
+      pattern: /^a+$/giu,
+      list: [1, 'two', null, undefined],
+    };
+
+    expect(roundTrip(serializer, value)).toEqual(value);
+  });
+
+  it('should rebuild custom classes with their prototype', () => {
+    const serializer = createIpcSerializer({ codecs: [moneyCodec] });
+
+    const result = roundTrip(serializer, {
+      balances: new Map([['main', new Money(1250, 'EUR')]]), // eslint-disable-line no-magic-numbers
+    }) as { balances: Map<string, Money> };
+
+    expect(result.balances.get('main')).toBeInstanceOf(Money);
+    expect(result.balances.get('main')!.format()).toBe('12.50 EUR');
+  });
+
+  it('should encode JSON-safe data', () => {
+    const serializer = createIpcSerializer({ codecs: [moneyCodec] });
+
+    const serialized = serializer.serialize([new Money(1, 'USD'), 2n]); // eslint-disable-line no-magic-numbers
+
+    expect(JSON.parse(JSON.stringify(serialized))).toEqual(serialized);
+  });
+
+  it('should let custom codecs replace built-in ones of the same name', () => {
+    const serializer = createIpcSerializer({
+      codecs: [
+        defineCodec({
+          name: 'Date',
+          is: (value) => value instanceof Date,
+          encode: (date: Date) => date.toISOString(),
+          decode: (iso) => new Date(iso),
+        }),
+      ],
+    });
+
+    expect(serializer.serialize(new Date(0))).toEqual({
+      value: '1970-01-01T00:00:00.000Z',
+      types: [[[], 'Date']],
+    });
+  });
+
+  it('should reject duplicate codecs, circular values and unknown data', () => {
+    const serializer = createIpcSerializer();
+    const cyclic: Record<string, unknown> = {};
+    cyclic.self = cyclic;
+
+    expect(() => createIpcSerializer({ codecs: [moneyCodec, moneyCodec] })).toThrow(
+      "Codec 'Money' is registered twice",
+    );
+    expect(() => serializer.serialize(cyclic)).toThrow('circular');
+    expect(() => serializer.deserialize('plain')).toThrow(
+      'Received a value the serializer did not encode',
+    );
+    expect(() => serializer.deserialize({ value: {}, types: [[[], 'Money']] })).toThrow(
+      "No codec registered for 'Money'",
+    );
+  });
+
+  it('should reject paths that lead outside the received value', () => {
+    const serializer = createIpcSerializer();
+    const paths = [
+      ['__proto__', 'isAdmin'],
+      ['constructor', 'prototype', 'isAdmin'],
+      ['list', 0],
+      ['missing', 'at'],
+      ['at', 'toString'],
+    ];
+
+    paths.forEach((path) => {
+      expect(() =>
+        serializer.deserialize({
+          value: JSON.parse('{ "list": [], "at": 0 }'),
+          types: [[path, 'Date']],
+        }),
+      ).toThrow('Invalid path in serialized value');
+    });
+    expect(() =>
+      serializer.deserialize({
+        value: JSON.parse('{ "__proto__": 0 }'),
+        types: [[['__proto__'], 'Date']],
+      }),
+    ).toThrow('Invalid path in serialized value');
+    expect(({} as Record<string, unknown>).isAdmin).toBeUndefined();
+    expect(() =>
+      serializer.serialize(
+        JSON.parse('{ "__proto__": { "at": 1 } }', (_key, value) =>
+          typeof value === 'number' ? new Date(value) : value,
+        ),
+      ),
+    ).toThrow("Cannot serialize a Date under the key '__proto__'");
+  });
+});
+
+describe('createIpcSchema with a serializer', () => {
+  function setup() {
+    const api = createIpcSchema({
+      apiKey: 'appApi',
+      serializer: createIpcSerializer({ codecs: [moneyCodec] }),
+      handlers: {
+        'get-balance': defineHandler<[since: Date], Map<string, Money>>(),
+        'add-tags': defineHandler<[tags: Set<string>], number>({
+          args: createSchema<[Set<string>]>((args) =>
+            (args as unknown[])[0] instanceof Set
+              ? { value: args as [Set<string>] }
+              : { issues: [{ message: 'Expected a Set' }] },
+          ),
+        }),
+      },
+      events: {
+        'balance-changed': defineEvent<[balance: Money, at: Date]>(),
+      },
+      rendererEvents: {
+        'payment-requested': defineEvent<[amount: Money]>(),
+      },
+      relays: {
+        'payment-shared': defineEvent<[amount: Money]>(),
+      },
+      streams: {
+        'list-payments': defineStream<[since: Date], Money, Date>(),
+      },
+      stores: {
+        wallet: defineStore<{ balance: Money; updatedAt: Date }>(),
+      },
+      rendererHandlers: {
+        'get-total': defineHandler<[since: Date], Money>(),
+      },
+    });
+    const loopback = createIpcLoopback();
+    api.registerMainHandlers(loopback.ipcMain, { windows: loopback.windows });
+    const renderer = loopback.createRenderer({ name: 'main' });
+    renderer.contextBridge.exposeInMainWorld(
+      'appApi',
+      api.exposeInPreload(renderer.ipcRenderer),
+    );
+    vi.stubGlobal('window', renderer.world);
+    return { api, loopback, renderer };
+  }
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should decode arguments in main and results in the renderer', async () => {
+    const { api } = setup();
+    const since = vi.fn();
+    api.registerHandler('get-balance', (_event, date) => {
+      since(date);
+      return new Map([['main', new Money(500, 'EUR')]]); // eslint-disable-line no-magic-numbers
+    });
+
+    const balances = await api.invoke.getBalance(new Date(0));
+
+    expect(since).toHaveBeenCalledWith(new Date(0));
+    expect(balances.get('main')).toEqual(new Money(500, 'EUR')); // eslint-disable-line no-magic-numbers
+    expect(balances.get('main')).toBeInstanceOf(Money);
+  });
+
+  it('should reject arguments whose paths reach into prototypes', async () => {
+    const { api } = setup();
+    const handler = vi.fn(() => new Map());
+    api.registerHandler('get-balance', handler);
+
+    const call = (window as any).appApi.$invoke('get-balance', {
+      value: {},
+      types: [[['__proto__', 'isAdmin'], 'Date']],
+    });
+
+    await expect(call).resolves.toMatchObject({ ok: false });
+    expect(handler).not.toHaveBeenCalled();
+    expect(({} as Record<string, unknown>).isAdmin).toBeUndefined();
+  });
+
+  it('should validate the decoded arguments', async () => {
+    const { api } = setup();
+    api.registerHandler('add-tags', (_event, tags) => tags.size);
+
+    await expect(api.invoke.addTags(new Set(['a', 'b']))).resolves.toBe(2); // eslint-disable-line no-magic-numbers
+  });
+
+  it('should decode events in the renderer and renderer events in main', async () => {
+    const { api, loopback, renderer } = setup();
+    const received = vi.fn();
+    const requested = vi.fn();
+    api.events.onBalanceChanged(received);
+    api.onRendererEvent('payment-requested', (_event, amount) => requested(amount));
+
+    api.send.balanceChanged(renderer.window, new Money(1, 'USD'), new Date(1)); // eslint-disable-line no-magic-numbers
+    api.emit.paymentRequested(new Money(2, 'USD')); // eslint-disable-line no-magic-numbers
+    await loopback.flush();
+
+    expect(received.mock.calls[0]?.[0]).toBeInstanceOf(Money);
+    expect(received).toHaveBeenCalledWith(new Money(1, 'USD'), new Date(1)); // eslint-disable-line no-magic-numbers
+    expect(requested.mock.calls[0]?.[0]).toBeInstanceOf(Money);
+  });
+
+  it('should decode relayed messages and stream values in the renderer', async () => {
+    const { api, loopback } = setup();
+    const shared = vi.fn();
+    const since = vi.fn();
+    api.relays.onPaymentShared(shared);
+    api.registerStream('list-payments', async function* (_context, date) {
+      since(date);
+      yield new Money(6, 'EUR'); // eslint-disable-line no-magic-numbers
+      return new Date(7); // eslint-disable-line no-magic-numbers
+    });
+
+    api.relayTo('main').paymentShared(new Money(5, 'EUR')); // eslint-disable-line no-magic-numbers
+    await loopback.flush();
+    const stream = api.stream.listPayments(new Date(0));
+    const chunks: Money[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk);
+    }
+
+    expect(shared.mock.calls[0]?.[0]).toBeInstanceOf(Money);
+    expect(since).toHaveBeenCalledWith(new Date(0));
+    expect(chunks[0]).toBeInstanceOf(Money);
+    await expect(stream.result).resolves.toEqual(new Date(7)); // eslint-disable-line no-magic-numbers
+  });
+
+  it('should decode store snapshots and patches in the renderer', async () => {
+    const { api, loopback } = setup();
+    const wallet = api.registerStore('wallet', {
+      balance: new Money(1, 'EUR'),
+      updatedAt: new Date(0),
+    });
+    api.store.wallet.subscribe(() => {});
+    await loopback.flush();
+
+    expect(api.store.wallet.getSnapshot()?.balance).toBeInstanceOf(Money);
+
+    wallet.setState((state) => ({ ...state, balance: new Money(2, 'EUR') })); // eslint-disable-line no-magic-numbers
+    await loopback.flush();
+
+    expect(api.store.wallet.getSnapshot()?.balance).toBeInstanceOf(Money);
+    expect(api.store.wallet.getSnapshot()).toEqual({
+      balance: new Money(2, 'EUR'), // eslint-disable-line no-magic-numbers
+      updatedAt: new Date(0),
+    });
+  });
+
+  it('should decode ask arguments in the renderer and answers in main', async () => {
+    const { api, renderer } = setup();
+    const since = vi.fn();
+    api.answer('get-total', (date) => {
+      since(date);
+      return new Money(5, 'EUR'); // eslint-disable-line no-magic-numbers
+    });
+
+    const total = await api.ask.getTotal(renderer.window, new Date(0));
+
+    expect(since.mock.calls[0]?.[0]).toBeInstanceOf(Date);
+    expect(total).toBeInstanceOf(Money);
+    expect(total).toEqual(new Money(5, 'EUR')); // eslint-disable-line no-magic-numbers
+  });
+
+  it('should apply to mocked handlers and events', async () => {
+    const { api } = setup();
+    const ipc = createMockIpc(api, {
+      handlers: { 'get-balance': () => new Map([['main', new Money(3, 'EUR')]]) }, // eslint-disable-line no-magic-numbers
+    });
+    ipc.install();
+    const listener = vi.fn();
+    api.events.onBalanceChanged(listener);
+    api.answer('get-total', (date) => new Money(date.getTime(), 'EUR'));
+
+    const balances = await api.invoke.getBalance(new Date(0));
+    const total = await ipc.ask('get-total', new Date(1));
+    api.emit.paymentRequested(new Money(4, 'EUR')); // eslint-disable-line no-magic-numbers
+    api.relayTo('main').paymentShared(new Money(4, 'EUR')); // eslint-disable-line no-magic-numbers
+    ipc.emitEvent('balance-changed', new Money(5, 'EUR'), new Date(0)); // eslint-disable-line no-magic-numbers
+    ipc.uninstall();
+
+    expect(balances.get('main')).toBeInstanceOf(Money);
+    expect(total).toEqual(new Money(1, 'EUR'));
+    expect(total).toBeInstanceOf(Money);
+    expect(ipc.calls('get-balance')).toEqual([[new Date(0)]]);
+    expect(ipc.emitted('payment-requested')[0]?.[0]).toBeInstanceOf(Money);
+    expect(ipc.emitted('payment-shared' as any)[0]).toEqual([
+      'main',
+      new Money(4, 'EUR'),
+    ]); // eslint-disable-line no-magic-numbers
+    expect(listener.mock.calls[0]?.[0]).toBeInstanceOf(Money);
+  });
+});
@@ -0,0 +1,232 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { createIpcSchema } from '../src/create-ipc-schema';
+import { defineStore } from '../src/define-store';
+import { applyPatches, diffState } from '../src/store-patches';
+import { createIpcLoopback } from '../src/testing';
+
+interface Settings {
+  theme: 'light' | 'dark';
+  fontSize: number;
+  recent: string[];
+  window?: { width: number; height: number };
+}
+
+const initialSettings: Settings = {
+  theme: 'light',
+  fontSize: 14, // eslint-disable-line no-magic-numbers
+  recent: [],
+};
+
+describe('createIpcSchema stores', () => {
+  function setup() {
+    const api = createIpcSchema({
+      apiKey: 'appApi',
+      stores: {
+        settings: defineStore<Settings>(),
+      },
+    });
+    const loopback = createIpcLoopback();
+    api.registerMainHandlers(loopback.ipcMain, { windows: loopback.windows });
+
+    const connect = (name: string) => {
+      const renderer = loopback.createRenderer({ name });
+      renderer.contextBridge.exposeInMainWorld(
+        'appApi',
+        api.exposeInPreload(renderer.ipcRenderer),
+      );
+      vi.stubGlobal('window', renderer.world);
+      return renderer;
+    };
+
+    return { api, loopback, connect };
+  }
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('should send the current state to renderers when they subscribe', async () => {
+    const { api, loopback, connect } = setup();
+    const settings = api.registerStore('settings', initialSettings);
+    settings.setState((state) => ({ ...state, theme: 'dark' }));
+    connect('main');
+    const listener = vi.fn();
+
+    api.store.settings.subscribe(listener);
+    expect(api.store.settings.getSnapshot()).toBeUndefined();
+    await loopback.flush();
+
+    expect(listener).toHaveBeenCalledWith({ ...initialSettings, theme: 'dark' });
+    expect(api.store.settings.getSnapshot()).toEqual({
+      ...initialSettings,
+      theme: 'dark',
+    });
+  });
+
+  it('should send changes as patches', async () => {
+    const { api, loopback, connect } = setup();
+    const settings = api.registerStore('settings', initialSettings);
+    const renderer = connect('main');
+    const listener = vi.fn();
+    api.store.settings.subscribe(listener);
+    await loopback.flush();
+    const send = vi.spyOn(renderer.webContents, 'send');
+
+    settings.setState((state) => ({ ...state, recent: ['a.txt'] }));
+    await loopback.flush();
+
+    expect(send).toHaveBeenCalledWith('settings', {
+      type: 'patch',
+      version: 1,
+      patches: [{ op: 'set', path: ['recent'], value: ['a.txt'] }],
+    });
+    expect(listener).toHaveBeenLastCalledWith({ ...initialSettings, recent: ['a.txt'] });
+  });
+
+  it('should not send anything when the state did not change', async () => {
+    const { api, loopback, connect } = setup();
+    const settings = api.registerStore('settings', initialSettings);
+    const renderer = connect('main');
+    api.store.settings.subscribe(() => {});
+    await loopback.flush();
+    const send = vi.spyOn(renderer.webContents, 'send');
+
+    settings.setState((state) => state);
+    settings.setState({ ...initialSettings });
+
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it('should keep every window in sync, including windows opened later', async () => {
+    const { api, loopback, connect } = setup();
+    const settings = api.registerStore('settings', initialSettings);
+    connect('editor');
+    const editorListener = vi.fn();
+    const editorStore = api.store.settings;
+    editorStore.subscribe(editorListener);
+    await loopback.flush();
+
+    settings.setState((state) => ({ ...state, fontSize: 16 })); // eslint-disable-line no-magic-numbers
+    await loopback.flush();
+
+    // The schema object is shared here, so a second schema stands in for the new window
+    const later = createIpcSchema({
+      apiKey: 'appApi',
+      stores: { settings: defineStore<Settings>() },
+    });
+    const preview = loopback.createRenderer({ name: 'preview' });
+    preview.contextBridge.exposeInMainWorld(
+      'appApi',
+      later.exposeInPreload(preview.ipcRenderer),
+    );
+    vi.stubGlobal('window', preview.world);
+    const previewListener = vi.fn();
+    later.store.settings.subscribe(previewListener);
+    await loopback.flush();
+
+    expect(previewListener).toHaveBeenCalledWith({ ...initialSettings, fontSize: 16 }); // eslint-disable-line no-magic-numbers
+    expect(editorListener).toHaveBeenLastCalledWith({ ...initialSettings, fontSize: 16 }); // eslint-disable-line no-magic-numbers
+  });
+
+  it('should stop sending patches once the last listener unsubscribes', async () => {
+    const { api, loopback, connect } = setup();
+    const settings = api.registerStore('settings', initialSettings);
+    const renderer = connect('main');
+    const unsubscribe = api.store.settings.subscribe(() => {});
+    await loopback.flush();
+
+    unsubscribe();
+    await loopback.flush();
+    const send = vi.spyOn(renderer.webContents, 'send');
+    settings.setState((state) => ({ ...state, theme: 'dark' }));
+
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it('should drop the subscriptions of a page once it reloads or navigates', async () => {
+    const { api, loopback, connect } = setup();
+    const settings = api.registerStore('settings', initialSettings);
+    const renderer = connect('main');
+    const on = vi.spyOn(renderer.webContents, 'on');
+    api.store.settings.subscribe(() => {});
+    await loopback.flush();
+
+    const listeners = on.mock.calls as unknown as [string, () => void][];
+    const onNavigate = listeners.find(([name]) => name === 'did-navigate')?.[1];
+    onNavigate?.();
+    const send = vi.spyOn(renderer.webContents, 'send');
+    settings.setState((state) => ({ ...state, theme: 'dark' }));
+
+    expect(onNavigate).toBeDefined();
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it('should notify main-side listeners with the patches', () => {
+    const { api } = setup();
+    const settings = api.registerStore('settings', initialSettings);
+    const listener = vi.fn();
+    settings.subscribe(listener);
+
+    settings.setState({ ...initialSettings, window: { width: 800, height: 600 } }); // eslint-disable-line no-magic-numbers
+
+    expect(settings.getState().window).toEqual({ width: 800, height: 600 }); // eslint-disable-line no-magic-numbers
+    expect(listener).toHaveBeenCalledWith(settings.getState(), [
+      { op: 'set', path: ['window'], value: { width: 800, height: 600 } }, // eslint-disable-line no-magic-numbers
+    ]);
+  });
+
+  it('should report stores without an initial state as missing', () => {
+    const { api } = setup();
+
+    expect(api.getMissingHandlers()).toEqual(['settings']);
+    api.registerStore('settings', initialSettings);
+    expect(api.getMissingHandlers()).toEqual([]);
+    expect(() => api.registerStore('settings', initialSettings)).toThrow(
+      "Store 'settings' is already registered",
+    );
+  });
+});
+
+describe('diffState', () => {
+  it('should describe changed, added and removed properties by path', () => {
+    const previous = { a: 1, b: { c: 2, d: 3 }, list: [1, 2] }; // eslint-disable-line no-magic-numbers
+    const next = { a: 1, b: { c: 4 }, list: [1, 5], e: true }; // eslint-disable-line no-magic-numbers
+
+    const patches = diffState(previous, next);
+
+    expect(patches).toEqual([
+      { op: 'delete', path: ['b', 'd'] },
+      { op: 'set', path: ['b', 'c'], value: 4 }, // eslint-disable-line no-magic-numbers
+      { op: 'set', path: ['list', 1], value: 5 }, // eslint-disable-line no-magic-numbers
+      { op: 'set', path: ['e'], value: true },
+    ]);
+    expect(applyPatches(previous, patches)).toEqual(next);
+  });
+
+  it('should replace arrays of another length and values that are not plain objects', () => {
+    const date = new Date(0);
+    const list = [1, 2]; // eslint-disable-line no-magic-numbers
+
+    expect(diffState({ list: [1] }, { list })).toEqual([
+      { op: 'set', path: ['list'], value: list },
+    ]);
+    expect(diffState({ at: new Date(1) }, { at: date })).toEqual([
+      { op: 'set', path: ['at'], value: date },
+    ]);
+    expect(diffState(1, 2)).toEqual([{ op: 'set', path: [], value: 2 }]); // eslint-disable-line no-magic-numbers
+  });
+
+  it('should apply patches without mutating the state', () => {
+    const state = { user: { name: 'Ada' }, other: { kept: true } };
+
+    const next = applyPatches(state, [
+      { op: 'set', path: ['user', 'name'], value: 'Bob' },
+    ]);
+
+    expect(next).toEqual({ user: { name: 'Bob' }, other: { kept: true } });
+    expect(state.user.name).toBe('Ada');
+    expect(next.other).toBe(state.other);
+  });
+});
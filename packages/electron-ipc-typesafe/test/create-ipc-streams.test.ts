@@ -0,0 +1,235 @@
+import type { IpcRenderer } from 'electron';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { createIpcStreams } from '../src/create-ipc-streams';
+import { defineStream } from '../src/define-stream';
+import { IpcError, IpcRemoteError, IpcValidationError } from '../src/errors';
+import { tupleOf } from './fixtures/standard-schema';
+
+// Gives a DOM-style port the `on`/`start` interface of Electron's MessagePortMain
+function toMainPort(port: MessagePort) {
+  return {
+    on: (type: string, listener: (event: any) => void) =>
+      port.addEventListener(type as 'message', listener),
+    start: () => port.start(),
+    postMessage: (message: unknown) => port.postMessage(message),
+    close: () => port.close(),
+  };
+}
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const chunks: T[] = [];
+  for await (const chunk of iterable) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+describe('createIpcStreams', () => {
+  let mainListeners: Record<string, (...args: any[]) => void>;
+  let mockIpcMain: any;
+  let mockIpcRenderer: IpcRenderer;
+
+  const streams = {
+    'read-lines': defineStream<[count: number], string, { total: number }>({
+      args: tupleOf('number'),
+    }),
+    'tail-log': defineStream<[name: string], number>({ highWaterMark: 2 }),
+  };
+
+  beforeEach(() => {
+    mainListeners = {};
+    mockIpcMain = {
+      on: vi.fn((channel: string, listener: (...args: any[]) => void) => {
+        mainListeners[channel] = listener;
+      }),
+    };
+    // Deliver preload posts, with their transferred port, to the ipcMain listeners
+    mockIpcRenderer = {
+      postMessage: vi.fn((channel: string, data: unknown, ports: MessagePort[]) => {
+        mainListeners[channel]?.(
+          { sender: { id: 1 }, ports: ports.map(toMainPort) },
+          data,
+        );
+      }),
+    } as any;
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  function setup() {
+    const bridge = createIpcStreams('test-api', streams);
+    bridge.registerMainStreams(mockIpcMain);
+    vi.stubGlobal('window', {
+      'test-api': bridge.getExposeInPreloadStreamsPart(mockIpcRenderer),
+    });
+    return { bridge, stream: bridge.getStreamObject() };
+  }
+
+  it('should attach one ipcMain listener per declared stream', () => {
+    const { bridge } = setup();
+
+    bridge.registerMainStreams(mockIpcMain);
+
+    expect(mockIpcMain.on).toHaveBeenCalledTimes(2); // eslint-disable-line no-magic-numbers
+    expect(mockIpcMain.on).toHaveBeenCalledWith('read-lines', expect.any(Function));
+  });
+
+  it('should stream chunks written by the handler and resolve the final value', async () => {
+    const { bridge, stream } = setup();
+    bridge.registerStream('read-lines', async ({ write }, count) => {
+      for (let index = 0; index < count; index++) {
+        await write(`line ${index}`);
+      }
+      return { total: count };
+    });
+
+    const lines = stream.readLines(3); // eslint-disable-line no-magic-numbers
+
+    expect(await collect(lines)).toEqual(['line 0', 'line 1', 'line 2']);
+    await expect(lines.result).resolves.toEqual({ total: 3 });
+  });
+
+  it('should stream chunks yielded by an async generator', async () => {
+    const { bridge, stream } = setup();
+    bridge.registerStream('read-lines', async function* (_context, count) {
+      for (let index = 0; index < count; index++) {
+        yield `line ${index}`;
+      }
+      return { total: count };
+    });
+
+    const lines = stream.readLines(2); // eslint-disable-line no-magic-numbers
+
+    expect(await collect(lines)).toEqual(['line 0', 'line 1']);
+    await expect(lines.result).resolves.toEqual({ total: 2 });
+  });
+
+  it('should pause the handler until the renderer consumes chunks', async () => {
+    const { bridge, stream } = setup();
+    const values = [0, 1, 2, 3, 4]; // eslint-disable-line no-magic-numbers
+    let written = 0;
+    bridge.registerStream('tail-log', async ({ write }) => {
+      for (const value of values) {
+        await write(value);
+        written++;
+      }
+    });
+
+    const log = stream.tailLog('app');
+    await new Promise((resolve) => setTimeout(resolve, 20)); // eslint-disable-line no-magic-numbers
+
+    expect(written).toBe(2); // eslint-disable-line no-magic-numbers
+    expect(await collect(log)).toEqual(values);
+    expect(written).toBe(values.length);
+  });
+
+  it('should cancel the handler when the renderer stops iterating', async () => {
+    const { bridge, stream } = setup();
+    const finalize = vi.fn();
+    let signal: AbortSignal | undefined;
+    bridge.registerStream('tail-log', async function* (context) {
+      signal = context.signal;
+      try {
+        for (let index = 0; ; index++) {
+          yield index;
+        }
+      } finally {
+        finalize();
+      }
+    });
+
+    const log = stream.tailLog('app');
+    const received: number[] = [];
+    for await (const value of log) {
+      received.push(value);
+      if (received.length > 1) {
+        break;
+      }
+    }
+
+    expect(received).toEqual([0, 1]);
+    await vi.waitFor(() => expect(finalize).toHaveBeenCalled());
+    expect(signal?.aborted).toBe(true);
+    await expect(log.result).rejects.toMatchObject({ code: 'IPC_STREAM_CANCELLED' });
+  });
+
+  it('should ignore malformed control messages from the renderer', async () => {
+    const { bridge } = setup();
+    const aborted = vi.fn();
+    bridge.registerStream(
+      'tail-log',
+      async ({ signal }) =>
+        new Promise<void>((resolve) =>
+          signal.addEventListener('abort', () => {
+            aborted();
+            resolve();
+          }),
+        ),
+    );
+    const { port1, port2 } = new MessageChannel();
+
+    mainListeners['tail-log']!({ sender: { id: 1 }, ports: [toMainPort(port1)] }, [
+      'app',
+    ]);
+    [null, 'cancel', 1, { type: 'unknown' }].forEach((message) =>
+      port2.postMessage(message),
+    );
+    port2.postMessage({ type: 'cancel' });
+
+    await vi.waitFor(() => expect(aborted).toHaveBeenCalledTimes(1));
+    port2.close();
+  });
+
+  it('should rethrow handler errors after the chunks sent before them', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { bridge, stream } = setup();
+    bridge.registerStream('read-lines', async ({ write }) => {
+      await write('line 0');
+      throw Object.assign(new Error('Disk gone'), { code: 'EIO' });
+    });
+
+    const lines = stream.readLines(1);
+    const iterator = lines[Symbol.asyncIterator]();
+
+    await expect(iterator.next()).resolves.toEqual({ value: 'line 0', done: false });
+    const error = await iterator.next().catch((error_: unknown) => error_);
+    expect(error).toBeInstanceOf(IpcRemoteError);
+    expect(error).toMatchObject({ message: 'Disk gone', code: 'EIO' });
+    await expect(lines.result).rejects.toBe(error);
+  });
+
+  it('should reject arguments failing validation', async () => {
+    const { bridge, stream } = setup();
+    const handler = vi.fn();
+    bridge.registerStream('read-lines', handler);
+
+    await expect(collect(stream.readLines('many' as any))).rejects.toBeInstanceOf(
+      IpcValidationError,
+    );
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should reject streams without a registered handler', async () => {
+    const { bridge, stream } = setup();
+    const unregister = bridge.registerStream('read-lines', vi.fn());
+
+    unregister();
+
+    const error = await collect(stream.readLines(1)).catch((error_: unknown) => error_);
+    expect(error).toBeInstanceOf(IpcError);
+    expect(error).toMatchObject({ code: 'IPC_NO_HANDLER' });
+  });
+
+  it('should refuse unknown channels in preload', () => {
+    const bridge = createIpcStreams('test-api', streams);
+    const api = bridge.getExposeInPreloadStreamsPart(mockIpcRenderer);
+
+    expect(() => api.$stream('unknown', [], vi.fn())).toThrow(
+      "Unknown IPC channel 'unknown'",
+    );
+  });
+});
@@ -0,0 +1,248 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { createIpcSchema } from '../src/create-ipc-schema';
+import { createIpcTracer } from '../src/create-ipc-tracer';
+import { defineEvent } from '../src/define-event';
+import { defineHandler } from '../src/define-handler';
+import { IpcError } from '../src/errors';
+import { createIpcLoopback } from '../src/testing';
+
+describe('createIpcTracer', () => {
+  function setup(options?: { capacity?: number }) {
+    const api = createIpcSchema({
+      apiKey: 'appApi',
+      handlers: {
+        'get-user': defineHandler<[id: string], { id: string }>(),
+      },
+      events: {
+        'user-updated': defineEvent<[id: string]>(),
+      },
+    });
+    const tracer = createIpcTracer(options);
+    const loopback = createIpcLoopback();
+    api.registerMainHandlers(loopback.ipcMain, { windows: loopback.windows, tracer });
+    tracer.schema.registerMainHandlers(loopback.ipcMain);
+
+    const connect = (name: string) => {
+      const renderer = loopback.createRenderer({ name });
+      renderer.contextBridge.exposeInMainWorld(
+        'appApi',
+        api.exposeInPreload(renderer.ipcRenderer),
+      );
+      renderer.contextBridge.exposeInMainWorld(
+        'ipcTracer',
+        tracer.schema.exposeInPreload(renderer.ipcRenderer),
+      );
+      return renderer;
+    };
+
+    const editor = connect('editor');
+    vi.stubGlobal('window', editor.world);
+    return { api, tracer, loopback, editor, connect };
+  }
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('should record handler calls with their sender and payload size', async () => {
+    const { api, tracer, editor } = setup();
+    api.registerHandler('get-user', async (_event, id) => ({ id }));
+
+    await api.invoke.getUser('u1');
+
+    expect(tracer.getEntries()).toEqual([
+      {
+        id: 1,
+        channel: 'get-user',
+        kind: 'invoke',
+        direction: 'renderer-to-main',
+        webContentsId: editor.webContents.id,
+        window: 'editor',
+        startTime: expect.any(Number),
+        duration: expect.any(Number),
+        payloadSize: JSON.stringify(['u1']).length,
+        status: 'ok',
+      },
+    ]);
+  });
+
+  it('should record the error of failing calls', async () => {
+    const { api, tracer } = setup();
+    api.registerHandler('get-user', async () => {
+      throw new IpcError('Not found', { code: 'NOT_FOUND' });
+    });
+
+    await expect(api.invoke.getUser('u1')).rejects.toThrow('Not found');
+
+    expect(tracer.getEntries()[0]).toMatchObject({
+      status: 'error',
+      error: { name: 'IpcError', message: 'Not found', code: 'NOT_FOUND' },
+    });
+  });
+
+  it('should record one entry per window an event is sent to', async () => {
+    const { api, tracer, connect, loopback } = setup();
+    connect('preview');
+
+    api.broadcast.userUpdated('u1');
+    await loopback.flush();
+
+    expect(tracer.getEntries()).toMatchObject([
+      {
+        channel: 'user-updated',
+        kind: 'event',
+        direction: 'main-to-renderer',
+        window: 'editor',
+      },
+      {
+        channel: 'user-updated',
+        kind: 'event',
+        direction: 'main-to-renderer',
+        window: 'preview',
+      },
+    ]);
+  });
+
+  it('should keep only the most recent entries', () => {
+    const { api, tracer, editor } = setup({ capacity: 2 }); // eslint-disable-line no-magic-numbers
+
+    api.send.userUpdated(editor.window, 'u1');
+    api.send.userUpdated(editor.window, 'u2');
+    api.send.userUpdated(editor.window, 'u3');
+
+    expect(tracer.getEntries().map((entry) => entry.id)).toEqual([2, 3]); // eslint-disable-line no-magic-numbers
+    tracer.clear();
+    expect(tracer.getEntries()).toEqual([]);
+  });
+
+  it('should notify subscribers of new entries', () => {
+    const { api, tracer, editor } = setup();
+    const listener = vi.fn();
+    const unsubscribe = tracer.subscribe(listener);
+
+    api.send.userUpdated(editor.window, 'u1');
+    unsubscribe();
+    api.send.userUpdated(editor.window, 'u2');
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ id: 1 }));
+  });
+
+  it('should keep calls working when a subscriber throws', async () => {
+    const { api, tracer } = setup();
+    api.registerHandler('get-user', async (_event, id) => ({ id }));
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const listener = vi.fn();
+    tracer.subscribe(() => {
+      throw new Error('Logger down');
+    });
+    tracer.subscribe(listener);
+
+    await expect(api.invoke.getUser('u1')).resolves.toEqual({ id: 'u1' });
+
+    expect(tracer.getEntries()).toMatchObject([{ channel: 'get-user', status: 'ok' }]);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(error).toHaveBeenCalledWith(
+      "Error occurred in IPC tracer subscriber for 'get-user':",
+      expect.any(Error),
+    );
+  });
+
+  it('should export entries as Chrome trace events', () => {
+    const { tracer } = setup();
+    tracer.record({
+      channel: 'get-user',
+      kind: 'invoke',
+      direction: 'renderer-to-main',
+      webContentsId: 7, // eslint-disable-line no-magic-numbers
+      window: 'editor',
+      startTime: 1000, // eslint-disable-line no-magic-numbers
+      duration: 2.5, // eslint-disable-line no-magic-numbers
+      payloadSize: 6, // eslint-disable-line no-magic-numbers
+      status: 'ok',
+    });
+
+    expect(tracer.toChromeTrace()).toEqual({
+      displayTimeUnit: 'ms',
+      traceEvents: [
+        { name: 'thread_name', ph: 'M', pid: 1, tid: 0, args: { name: 'main' } },
+        { name: 'thread_name', ph: 'M', pid: 1, tid: 7, args: { name: 'editor' } }, // eslint-disable-line no-magic-numbers
+        {
+          name: 'get-user',
+          cat: 'ipc,invoke',
+          ph: 'X',
+          pid: 1,
+          tid: 7, // eslint-disable-line no-magic-numbers
+          ts: 1_000_000, // eslint-disable-line no-magic-numbers
+          dur: 2500, // eslint-disable-line no-magic-numbers
+          args: {
+            direction: 'renderer-to-main',
+            window: 'editor',
+            payloadSize: 6, // eslint-disable-line no-magic-numbers
+            status: 'ok',
+            error: undefined,
+          },
+        },
+      ],
+    });
+  });
+
+  it('should serve the trace to renderers over its own schema without tracing it', async () => {
+    const { api, tracer } = setup();
+    api.registerHandler('get-user', async (_event, id) => ({ id }));
+    await api.invoke.getUser('u1');
+
+    const entries = await tracer.schema.invoke.getEntries();
+    const trace = await tracer.schema.invoke.exportChromeTrace();
+
+    expect(entries).toEqual(tracer.getEntries());
+    expect(entries).toHaveLength(1);
+    expect(trace.traceEvents.filter((event) => event.ph === 'X')).toHaveLength(1);
+
+    await tracer.schema.invoke.clearEntries();
+    expect(tracer.getEntries()).toEqual([]);
+  });
+
+  it('should not clash with app handlers of the same names', async () => {
+    const api = createIpcSchema({
+      apiKey: 'appApi',
+      handlers: { 'get-entries': defineHandler<[], string[]>() },
+    });
+    const tracer = createIpcTracer();
+    const loopback = createIpcLoopback();
+    api.registerHandler('get-entries', async () => ['app']);
+    api.registerMainHandlers(loopback.ipcMain, { tracer });
+
+    expect(() => tracer.schema.registerMainHandlers(loopback.ipcMain)).not.toThrow();
+
+    const renderer = loopback.createRenderer();
+    renderer.contextBridge.exposeInMainWorld(
+      'appApi',
+      api.exposeInPreload(renderer.ipcRenderer),
+    );
+    renderer.contextBridge.exposeInMainWorld(
+      'ipcTracer',
+      tracer.schema.exposeInPreload(renderer.ipcRenderer),
+    );
+    vi.stubGlobal('window', renderer.world);
+
+    await expect(api.invoke.getEntries()).resolves.toEqual(['app']);
+    await expect(tracer.schema.invoke.getEntries()).resolves.toHaveLength(1);
+  });
+
+  it('should not record anything for schemas registered without it', () => {
+    const tracer = createIpcTracer();
+    const api = createIpcSchema({
+      apiKey: 'appApi',
+      events: { 'user-updated': defineEvent<[id: string]>() },
+    });
+    const loopback = createIpcLoopback();
+    api.registerMainHandlers(loopback.ipcMain);
+
+    api.send.userUpdated(loopback.createRenderer().window, 'u1');
+
+    expect(tracer.getEntries()).toEqual([]);
+  });
+});
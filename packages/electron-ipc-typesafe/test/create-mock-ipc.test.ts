@@ -0,0 +1,181 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { composeIpcSchemas, defineIpcModule } from '../src/compose-ipc-schemas';
+import { createIpcSchema } from '../src/create-ipc-schema';
+import { defineEvent } from '../src/define-event';
+import { defineHandler } from '../src/define-handler';
+import { defineStore } from '../src/define-store';
+import { IpcRemoteError } from '../src/errors';
+import { createMockIpc } from '../src/testing';
+
+describe('createMockIpc', () => {
+  const appApi = createIpcSchema({
+    apiKey: 'appApi',
+    handlers: {
+      'open-window': defineHandler<[name: string], { success: boolean }>(),
+      'get-count': defineHandler<[], number>(),
+    },
+    events: {
+      'settings-changed': defineEvent<[settings: { theme: string }]>(),
+    },
+    rendererEvents: {
+      'window-ready': defineEvent<[name: string]>(),
+    },
+    rendererHandlers: {
+      'has-unsaved-changes': defineHandler<[docId: string], boolean>(),
+    },
+    stores: {
+      settings: defineStore<{ theme: string }>(),
+    },
+  });
+
+  beforeEach(() => {
+    vi.stubGlobal('window', {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should answer invokes with mock handlers and record the calls', async () => {
+    const ipc = createMockIpc(appApi, {
+      handlers: { 'open-window': async (name) => ({ success: name === 'settings' }) },
+    });
+    ipc.install();
+
+    await expect(appApi.invoke.openWindow('settings')).resolves.toEqual({
+      success: true,
+    });
+    await appApi.invoke.openWindow('widget');
+
+    expect(ipc.calls('open-window')).toEqual([['settings'], ['widget']]);
+    expect(ipc.calls('get-count')).toEqual([]);
+  });
+
+  it('should replace handler implementations', async () => {
+    const ipc = createMockIpc(appApi);
+    ipc.install();
+    ipc.handle('get-count', () => 1);
+    ipc.handle('get-count', () => 2); // eslint-disable-line no-magic-numbers
+
+    await expect(appApi.invoke.getCount()).resolves.toBe(2); // eslint-disable-line no-magic-numbers
+  });
+
+  it('should reject like main for failing and missing handlers', async () => {
+    const ipc = createMockIpc(appApi, {
+      handlers: {
+        'open-window': async () => {
+          throw Object.assign(new Error('Window is locked'), { code: 'LOCKED' });
+        },
+      },
+    });
+    ipc.install();
+
+    const error = await appApi.invoke.openWindow('settings').catch((e) => e);
+    expect(error).toBeInstanceOf(IpcRemoteError);
+    expect(error).toMatchObject({ code: 'LOCKED', channel: 'open-window' });
+    await expect(appApi.invoke.getCount()).rejects.toThrow(
+      "No handler registered for 'get-count'",
+    );
+  });
+
+  it('should deliver emitted events to subscribers', () => {
+    const ipc = createMockIpc(appApi);
+    ipc.install();
+    const callback = vi.fn();
+
+    const unsubscribe = appApi.events.onSettingsChanged(callback);
+    ipc.emitEvent('settings-changed', { theme: 'dark' });
+
+    expect(callback).toHaveBeenCalledWith({ theme: 'dark' });
+    expect(ipc.listenerCount('settings-changed')).toBe(1);
+
+    unsubscribe();
+
+    expect(ipc.listenerCount('settings-changed')).toBe(0);
+  });
+
+  it('should record renderer-to-main events', () => {
+    const ipc = createMockIpc(appApi);
+    ipc.install();
+
+    appApi.emit.windowReady('settings');
+
+    expect(ipc.emitted('window-ready')).toEqual([['settings']]);
+  });
+
+  it('should call renderer handlers the way main would', async () => {
+    const ipc = createMockIpc(appApi);
+    ipc.install();
+
+    await expect(ipc.ask('has-unsaved-changes', 'doc-1')).rejects.toThrow(
+      "No renderer handler registered for 'has-unsaved-changes'",
+    );
+    appApi.answer('has-unsaved-changes', (docId) => docId === 'doc-1');
+
+    await expect(ipc.ask('has-unsaved-changes', 'doc-1')).resolves.toBe(true);
+  });
+
+  it('should serve store state to subscribers', async () => {
+    const ipc = createMockIpc(appApi, { stores: { settings: { theme: 'light' } } });
+    ipc.install();
+    const listener = vi.fn();
+
+    const unsubscribe = appApi.store.settings.subscribe(listener);
+    await vi.waitFor(() => expect(listener).toHaveBeenCalledWith({ theme: 'light' }));
+    ipc.setStoreState('settings', { theme: 'dark' });
+    unsubscribe();
+
+    expect(listener).toHaveBeenLastCalledWith({ theme: 'dark' });
+    expect(appApi.store.settings.getSnapshot()).toEqual({ theme: 'dark' });
+  });
+
+  it('should forget recorded calls on reset', async () => {
+    const ipc = createMockIpc(appApi, { handlers: { 'get-count': () => 0 } });
+    ipc.install();
+    await appApi.invoke.getCount();
+
+    ipc.reset();
+
+    expect(ipc.calls('get-count')).toEqual([]);
+  });
+
+  it('should restore the previous API on uninstall', () => {
+    const previous = { legacy: true };
+    const target: Record<string, any> = { appApi: previous };
+    const ipc = createMockIpc(appApi);
+
+    ipc.install(target);
+
+    expect(target.appApi).toBe(ipc.api);
+
+    ipc.uninstall();
+
+    expect(target.appApi).toBe(previous);
+  });
+
+  it('should throw when there is no window to install on', () => {
+    vi.unstubAllGlobals();
+    const ipc = createMockIpc(appApi);
+
+    expect(() => ipc.install()).toThrow('No window to install the mock IPC bridge on');
+  });
+
+  it('should install modules of a composed schema under their namespace', async () => {
+    const composed = composeIpcSchemas({
+      apiKey: 'app',
+      modules: {
+        settings: defineIpcModule({
+          handlers: { get: defineHandler<[key: string], string>() },
+        }),
+      },
+    });
+    const ipc = createMockIpc(composed.settings, {
+      handlers: { get: (key) => `value of ${key}` },
+    });
+    ipc.install();
+
+    await expect(composed.settings.invoke.get('theme')).resolves.toBe('value of theme');
+    expect(ipc.calls('get')).toEqual([['theme']]);
+  });
+});
@@ -1,6 +1,7 @@
 import { describe, expect, it } from 'vitest';
 
 import { defineHandler } from '../src/define-handler';
+import { tupleOf } from './fixtures/standard-schema';
 
 describe('defineHandler', () => {
   it('should return a type-safe handler schema', () => {
@@ -45,4 +46,12 @@ describe('defineHandler', () => {
     expect(handler).toBeUndefined();
     expect(typeof handler).toBe('undefined');
   });
+
+  it('should carry runtime validators when options are provided', () => {
+    const args = tupleOf<[userId: string]>('string');
+    const handler = defineHandler<[userId: string], boolean>({ args });
+
+    expect(handler).toEqual({ options: { args } });
+    expect(handler.options?.args).toBe(args);
+  });
 });
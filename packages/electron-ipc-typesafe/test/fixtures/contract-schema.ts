@@ -0,0 +1,50 @@
+import { composeIpcSchemas, defineIpcModule } from '../../src/compose-ipc-schemas';
+import { createIpcSchema } from '../../src/create-ipc-schema';
+import { defineEvent } from '../../src/define-event';
+import { defineHandler } from '../../src/define-handler';
+import { defineStore } from '../../src/define-store';
+import { defineStream } from '../../src/define-stream';
+
+export const appApi = createIpcSchema({
+  apiKey: 'appApi',
+  handlers: {
+    'open-window': defineHandler<
+      [name: 'settings' | 'widget', options?: { width: number }],
+      boolean
+    >(),
+    'load-file': defineHandler<
+      [path: string],
+      string,
+      { code: 'ENOENT'; data: { path: string } }
+    >(),
+  },
+  streams: {
+    'read-log': defineStream<[name: string], string, { lines: number }>(),
+  },
+  events: {
+    'user-updated': defineEvent<[userId: string, ...fields: string[]]>(),
+  },
+  rendererEvents: {
+    'window-ready': defineEvent<[]>(),
+  },
+  relays: {
+    'document-saved': defineEvent<[docId: string]>(),
+  },
+  stores: {
+    settings: defineStore<{ theme: 'light' | 'dark' }>(),
+  },
+  rendererHandlers: {
+    'has-unsaved-changes': defineHandler<[docId: string], boolean>(),
+  },
+});
+
+export const featureApi = composeIpcSchemas({
+  apiKey: 'featureApi',
+  modules: {
+    settings: defineIpcModule({
+      handlers: { get: defineHandler<[key: string], string | null>() },
+    }),
+  },
+});
+
+export const notASchema = { exposeInPreload: true };
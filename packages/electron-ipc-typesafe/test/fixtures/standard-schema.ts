@@ -0,0 +1,32 @@
+import type { StandardSchemaProps, StandardSchemaV1 } from '../../src/types';
+
+// Minimal Standard Schema implementation standing in for zod/valibot in tests
+export function createSchema<T>(
+  validate: StandardSchemaProps<unknown, T>['validate'],
+): StandardSchemaV1<unknown, T> {
+  return { '~standard': { version: 1, vendor: 'test', validate } };
+}
+
+// Accepts tuples whose items all match the given `typeof` names
+export function tupleOf<T extends readonly unknown[]>(
+  ...types: string[]
+): StandardSchemaV1<unknown, T> {
+  return createSchema<T>((value) => {
+    const items = value as unknown[];
+    const issues = types.flatMap((type, index) =>
+      typeof items[index] === type
+        ? []
+        : [{ message: `Expected ${type}`, path: [index] }],
+    );
+    return issues.length > 0 ? { issues } : { value: value as T };
+  });
+}
+
+// Accepts a single value matching the given `typeof` name
+export function valueOf<T>(type: string): StandardSchemaV1<unknown, T> {
+  return createSchema<T>((value) =>
+    typeof value === type
+      ? { value: value as T }
+      : { issues: [{ message: `Expected ${type}` }] },
+  );
+}
@@ -0,0 +1,174 @@
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import {
+  generateIpcContract,
+  renderIpcContractMarkdown,
+  writeIpcContract,
+} from '../src/contract';
+
+const entry = fileURLToPath(new URL('./fixtures/contract-schema.ts', import.meta.url));
+
+describe('generateIpcContract', () => {
+  // Type-checking the fixture is slow, so every test shares one contract
+  const contract = generateIpcContract({ entry });
+
+  it('should describe every exported schema', () => {
+    expect(contract.version).toBe(1);
+    expect(
+      contract.schemas.map(({ exportName, apiKey, namespace }) => ({
+        exportName,
+        apiKey,
+        namespace,
+      })),
+    ).toEqual([
+      { exportName: 'appApi', apiKey: 'appApi', namespace: undefined },
+      { exportName: 'featureApi', apiKey: 'featureApi', namespace: 'settings' },
+    ]);
+  });
+
+  it('should list channels with their kind and direction', () => {
+    const channels = contract.schemas[0]!.channels.map(({ channel, kind, direction }) => [
+      channel,
+      kind,
+      direction,
+    ]);
+
+    expect(channels).toEqual([
+      ['open-window', 'handler', 'renderer-to-main'],
+      ['load-file', 'handler', 'renderer-to-main'],
+      ['read-log', 'stream', 'renderer-to-main'],
+      ['user-updated', 'event', 'main-to-renderer'],
+      ['window-ready', 'renderer-event', 'renderer-to-main'],
+      ['document-saved', 'relay', 'renderer-to-renderer'],
+      ['settings', 'store', 'main-to-renderer'],
+      ['has-unsaved-changes', 'renderer-handler', 'main-to-renderer'],
+    ]);
+  });
+
+  it('should read argument names and types from the declarations', () => {
+    const [openWindow, loadFile, readLog, userUpdated] = contract.schemas[0]!.channels;
+
+    expect(openWindow).toMatchObject({
+      args: [
+        { name: 'name', type: '"settings" | "widget"', optional: false, rest: false },
+        { name: 'options', type: '{ width: number; }', optional: true, rest: false },
+      ],
+      returns: 'boolean',
+    });
+    expect(openWindow).not.toHaveProperty('errors');
+    expect(loadFile).toMatchObject({
+      returns: 'string',
+      errors: '{ code: "ENOENT"; data: { path: string; }; }',
+    });
+    expect(readLog).toMatchObject({ chunk: 'string', returns: '{ lines: number; }' });
+    expect(userUpdated!.args).toEqual([
+      { name: 'userId', type: 'string', optional: false, rest: false },
+      { name: 'fields', type: 'string[]', optional: false, rest: true },
+    ]);
+  });
+
+  it('should read the state type of stores', () => {
+    expect(contract.schemas[0]!.channels.at(-2)).toEqual({
+      channel: 'settings',
+      kind: 'store',
+      direction: 'main-to-renderer',
+      args: [],
+      state: '{ theme: "light" | "dark"; }',
+    });
+  });
+
+  it('should describe renderer handlers like handlers', () => {
+    expect(contract.schemas[0]!.channels.at(-1)).toEqual({
+      channel: 'has-unsaved-changes',
+      kind: 'renderer-handler',
+      direction: 'main-to-renderer',
+      args: [{ name: 'docId', type: 'string', optional: false, rest: false }],
+      returns: 'boolean',
+    });
+  });
+
+  it('should describe modules of composed schemas', () => {
+    expect(contract.schemas[1]!.channels).toEqual([
+      {
+        channel: 'get',
+        kind: 'handler',
+        direction: 'renderer-to-main',
+        args: [{ name: 'key', type: 'string', optional: false, rest: false }],
+        returns: 'string | null',
+      },
+    ]);
+  });
+
+  it('should render the contract as Markdown tables', () => {
+    const markdown = renderIpcContractMarkdown(contract);
+
+    expect(markdown).toContain('## appApi\n\nAPI key: `appApi`');
+    expect(markdown).toContain('### Handlers (renderer → main)');
+    expect(markdown).toContain(
+      '| `open-window` | `name: "settings" \\| "widget", options?: { width: number; }` | `boolean` | — |',
+    );
+    expect(markdown).toContain(
+      '| `user-updated` | `userId: string, ...fields: string[]` |',
+    );
+    expect(markdown).toContain('| `window-ready` | — |');
+    expect(markdown).toContain(
+      '### Stores (main → renderer)\n\n| Channel | Arguments | State |',
+    );
+    expect(markdown).toContain(
+      '### Renderer handlers (main → renderer)\n\n| Channel | Arguments | Returns | Errors |',
+    );
+    expect(markdown).toContain('## featureApi.settings');
+  });
+});
+
+describe('writeIpcContract', () => {
+  let outDir: string;
+
+  beforeEach(async () => {
+    outDir = await mkdtemp(path.join(tmpdir(), 'ipc-contract-'));
+  });
+
+  afterEach(async () => {
+    await rm(outDir, { recursive: true, force: true });
+  });
+
+  it('should write JSON and Markdown, then report them up to date', async () => {
+    const written = await writeIpcContract({ entry, exports: ['appApi'], outDir });
+    const checked = await writeIpcContract({
+      entry,
+      exports: ['appApi'],
+      outDir,
+      check: true,
+    });
+
+    const json = JSON.parse(await readFile(written.files[0]!, 'utf8'));
+    expect(json.schemas).toHaveLength(1);
+    expect(written.changed).toHaveLength(2); // eslint-disable-line no-magic-numbers
+    expect(checked.changed).toEqual([]);
+  });
+
+  it('should report outdated files without writing them in check mode', async () => {
+    const file = path.join(outDir, 'ipc-contract.md');
+    await writeFile(file, '# Outdated\n');
+
+    const result = await writeIpcContract({
+      entry,
+      exports: ['appApi'],
+      outDir,
+      check: true,
+    });
+
+    expect(result.changed).toEqual([path.join(outDir, 'ipc-contract.json'), file]);
+    await expect(readFile(file, 'utf8')).resolves.toBe('# Outdated\n');
+  });
+
+  it('should throw for exports that are not schemas', async () => {
+    await expect(
+      writeIpcContract({ entry, exports: ['notASchema'], outDir }),
+    ).rejects.toThrow("No IPC schema exported as 'notASchema'");
+  });
+});
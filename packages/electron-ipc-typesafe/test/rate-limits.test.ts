@@ -0,0 +1,189 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { createCallLimiter } from '../src/call-limiter';
+import { createIpcSchema } from '../src/create-ipc-schema';
+import { defineHandler } from '../src/define-handler';
+import { IpcRateLimitError } from '../src/errors';
+import { createIpcLoopback } from '../src/testing';
+
+describe('createIpcSchema rate and concurrency limits', () => {
+  const intervalMs = 1000;
+
+  function setup() {
+    const api = createIpcSchema({
+      apiKey: 'appApi',
+      handlers: {
+        'show-notification': defineHandler<[title: string], void>({
+          rateLimit: { limit: 2, intervalMs }, // eslint-disable-line no-magic-numbers
+        }),
+        'export-pdf': defineHandler<[], string>({ maxConcurrency: 1 }),
+      },
+    });
+    const loopback = createIpcLoopback();
+    const onRateLimit = vi.fn();
+    api.registerMainHandlers(loopback.ipcMain, {
+      windows: loopback.windows,
+      onRateLimit,
+    });
+
+    const connect = (name: string) => {
+      const renderer = loopback.createRenderer({ name });
+      renderer.contextBridge.exposeInMainWorld(
+        'appApi',
+        api.exposeInPreload(renderer.ipcRenderer),
+      );
+      vi.stubGlobal('window', renderer.world);
+      return renderer;
+    };
+
+    return { api, connect, onRateLimit };
+  }
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('should reject calls beyond the rate limit until the interval has passed', async () => {
+    const { api, connect } = setup();
+    const handler = vi.fn();
+    api.registerHandler('show-notification', handler);
+    connect('main');
+    const now = vi.spyOn(Date, 'now').mockReturnValue(0);
+
+    await api.invoke.showNotification('a');
+    now.mockReturnValue(intervalMs / 2); // eslint-disable-line no-magic-numbers
+    await api.invoke.showNotification('b');
+    const error = await api.invoke.showNotification('c').catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(IpcRateLimitError);
+    expect(error).toMatchObject({
+      code: 'IPC_RATE_LIMITED',
+      reason: 'rate',
+      retryAfterMs: intervalMs / 2, // eslint-disable-line no-magic-numbers
+    });
+    expect(handler).toHaveBeenCalledTimes(2); // eslint-disable-line no-magic-numbers
+
+    now.mockReturnValue(intervalMs);
+    await expect(api.invoke.showNotification('d')).resolves.toBeUndefined();
+  });
+
+  it('should limit each window on its own', async () => {
+    const { api, connect } = setup();
+    api.registerHandler('show-notification', () => {});
+    vi.spyOn(Date, 'now').mockReturnValue(0);
+    connect('main');
+    await api.invoke.showNotification('a');
+    await api.invoke.showNotification('b');
+
+    connect('settings');
+
+    await expect(api.invoke.showNotification('c')).resolves.toBeUndefined();
+  });
+
+  it('should reject calls beyond the concurrency limit while others run', async () => {
+    const { api, connect } = setup();
+    const running: (() => void)[] = [];
+    api.registerHandler(
+      'export-pdf',
+      async () =>
+        new Promise<string>((resolve) => running.push(() => resolve('out.pdf'))),
+    );
+    connect('main');
+
+    const first = api.invoke.exportPdf();
+    await vi.waitFor(() => expect(running).toHaveLength(1));
+    await expect(api.invoke.exportPdf()).rejects.toMatchObject({ reason: 'concurrency' });
+
+    running[0]!();
+    await expect(first).resolves.toBe('out.pdf');
+    const second = api.invoke.exportPdf();
+    await vi.waitFor(() => expect(running).toHaveLength(2)); // eslint-disable-line no-magic-numbers
+    running[1]!();
+    await expect(second).resolves.toBe('out.pdf');
+  });
+
+  it('should keep the concurrency slot of a timed-out call until its handler settles', async () => {
+    const { api, connect } = setup();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const running: (() => void)[] = [];
+    api.registerHandler(
+      'export-pdf',
+      async () =>
+        new Promise<string>((resolve) => running.push(() => resolve('out.pdf'))),
+    );
+    connect('main');
+    const exportPdf = () => api.invoke.withOptions({ timeoutMs: 10 }).exportPdf(); // eslint-disable-line no-magic-numbers
+
+    await expect(exportPdf()).rejects.toMatchObject({ code: 'IPC_TIMEOUT' });
+    await expect(exportPdf()).rejects.toMatchObject({ reason: 'concurrency' });
+
+    running[0]!();
+    const next = api.invoke.exportPdf();
+    await vi.waitFor(() => expect(running).toHaveLength(2)); // eslint-disable-line no-magic-numbers
+    running[1]!();
+    await expect(next).resolves.toBe('out.pdf');
+  });
+
+  it('should report rejected calls to the onRateLimit hook', async () => {
+    const { api, connect, onRateLimit } = setup();
+    api.registerHandler('show-notification', () => {});
+    connect('main');
+    vi.spyOn(Date, 'now').mockReturnValue(0);
+    onRateLimit.mockImplementation(() => {
+      throw new Error('Logger down');
+    });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await api.invoke.showNotification('a');
+    await api.invoke.showNotification('b');
+    await expect(api.invoke.showNotification('c')).rejects.toBeInstanceOf(
+      IpcRateLimitError,
+    );
+
+    expect(onRateLimit).toHaveBeenCalledTimes(1);
+    expect(onRateLimit).toHaveBeenCalledWith(
+      expect.objectContaining({
+        channel: 'show-notification',
+        reason: 'rate',
+        limit: 2, // eslint-disable-line no-magic-numbers
+        windowName: 'main',
+      }),
+    );
+  });
+
+  it('should not limit calls made from main', async () => {
+    const { api } = setup();
+    api.registerHandler('show-notification', () => {});
+    vi.spyOn(Date, 'now').mockReturnValue(0);
+    const client = api.createDirectClient();
+
+    await client.showNotification('a');
+    await client.showNotification('b');
+
+    await expect(client.showNotification('c')).resolves.toBeUndefined();
+  });
+});
+
+describe('createCallLimiter', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should forget senders once their calls left the interval and finished', () => {
+    vi.useFakeTimers();
+    const limiter = createCallLimiter();
+    const intervalMs = 1000;
+    const limits = { rateLimit: { limit: 1, intervalMs }, maxConcurrency: 1 };
+
+    const endFirst = limiter.acquire('save', 1, limits) as () => void;
+    limiter.acquire('save', 2, { rateLimit: limits.rateLimit }); // eslint-disable-line no-magic-numbers
+    expect(limiter.size()).toBe(2); // eslint-disable-line no-magic-numbers
+
+    endFirst();
+    vi.advanceTimersByTime(intervalMs);
+
+    expect(limiter.size()).toBe(0);
+    expect(limiter.acquire('save', 1, limits)).toBeTypeOf('function');
+  });
+});
@@ -0,0 +1,261 @@
+// @vitest-environment jsdom
+import type { MockIpcOptions } from '../src/testing';
+
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { createIpcSchema } from '../src/create-ipc-schema';
+import { defineEvent } from '../src/define-event';
+import { defineHandler } from '../src/define-handler';
+import { IpcRemoteError } from '../src/errors';
+import { useIpcEvent, useIpcMutation, useIpcQuery } from '../src/react';
+import { createMockIpc } from '../src/testing';
+
+const appApi = createIpcSchema({
+  apiKey: 'appApi',
+  handlers: {
+    'get-user': defineHandler<[id: number], { id: number; name: string }>(),
+    'save-user': defineHandler<[name: string], boolean>(),
+  },
+  events: {
+    'user-updated': defineEvent<[id: number]>(),
+  },
+});
+
+function setup(options: MockIpcOptions<typeof appApi.definition.handlers> = {}) {
+  const ipc = createMockIpc(appApi, options);
+  ipc.install();
+  return ipc;
+}
+
+describe('react hooks', () => {
+  let ipc: ReturnType<typeof setup> | undefined;
+
+  afterEach(() => {
+    ipc?.uninstall();
+    ipc = undefined;
+  });
+
+  describe('useIpcQuery', () => {
+    it('should track loading until the result arrives', async () => {
+      ipc = setup({ handlers: { 'get-user': async (id) => ({ id, name: 'Ada' }) } });
+
+      const { result } = renderHook(() => useIpcQuery(appApi.invoke.getUser, [1]));
+
+      expect(result.current).toMatchObject({ isLoading: true, data: undefined });
+      await waitFor(() => expect(result.current.isLoading).toBe(false));
+      expect(result.current.data).toEqual({ id: 1, name: 'Ada' });
+      expect(result.current.error).toBeUndefined();
+    });
+
+    it('should expose errors thrown by the handler', async () => {
+      ipc = setup({
+        handlers: {
+          'get-user': async () => {
+            throw new Error('User not found');
+          },
+        },
+      });
+
+      const { result } = renderHook(() => useIpcQuery(appApi.invoke.getUser, [1]));
+
+      await waitFor(() => expect(result.current.isLoading).toBe(false));
+      expect(result.current.error).toBeInstanceOf(IpcRemoteError);
+      expect((result.current.error as Error).message).toBe('User not found');
+    });
+
+    it('should fetch again when the arguments change, ignoring stale results', async () => {
+      const pending = new Map<number, (name: string) => void>();
+      ipc = setup({
+        handlers: {
+          'get-user': async (id) =>
+            new Promise((resolve) => {
+              pending.set(id, (name) => resolve({ id, name }));
+            }),
+        },
+      });
+      const { result, rerender } = renderHook(
+        ({ id }) => useIpcQuery(appApi.invoke.getUser, [id]),
+        { initialProps: { id: 1 } },
+      );
+      await waitFor(() => expect(pending.has(1)).toBe(true));
+
+      rerender({ id: 2 }); // eslint-disable-line no-magic-numbers
+      await waitFor(() => expect(pending.has(2)).toBe(true)); // eslint-disable-line no-magic-numbers
+      await act(async () => {
+        pending.get(2)!('Bob'); // eslint-disable-line no-magic-numbers
+        pending.get(1)!('Ada');
+      });
+
+      await waitFor(() => expect(result.current.isLoading).toBe(false));
+      expect(result.current.data).toEqual({ id: 2, name: 'Bob' }); // eslint-disable-line no-magic-numbers
+      expect(ipc.calls('get-user')).toEqual([[1], [2]]); // eslint-disable-line no-magic-numbers
+    });
+
+    it('should not fetch again when inline arguments are equal', async () => {
+      ipc = setup({ handlers: { 'get-user': async (id) => ({ id, name: 'Ada' }) } });
+      const { result, rerender } = renderHook(() =>
+        useIpcQuery(appApi.invoke.getUser, [1]),
+      );
+      await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+      rerender();
+
+      expect(ipc.calls('get-user')).toHaveLength(1);
+    });
+
+    it('should compare Dates, Sets and BigInts in arguments by value', async () => {
+      const invoker = vi.fn(
+        async (_since: Date, _ids: Set<number>, _limit: bigint) => [],
+      );
+      const { result, rerender } = renderHook(
+        ({ since }) => useIpcQuery(invoker, [new Date(since), new Set([1]), 10n]), // eslint-disable-line no-magic-numbers
+        { initialProps: { since: 0 } },
+      );
+      await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+      rerender({ since: 0 });
+      expect(invoker).toHaveBeenCalledTimes(1);
+      rerender({ since: 1 });
+
+      await waitFor(() => expect(invoker).toHaveBeenCalledTimes(2)); // eslint-disable-line no-magic-numbers
+      expect(invoker).toHaveBeenLastCalledWith(new Date(1), new Set([1]), 10n); // eslint-disable-line no-magic-numbers
+    });
+
+    it('should identify arguments by the key option when given', async () => {
+      const invoker = vi.fn(async (_filter: { matches: () => boolean }) => []);
+      const { result, rerender } = renderHook(
+        ({ key }) => useIpcQuery(invoker, [{ matches: () => true }], { key }),
+        { initialProps: { key: 'all' } },
+      );
+      await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+      rerender({ key: 'all' });
+      expect(invoker).toHaveBeenCalledTimes(1);
+      rerender({ key: 'none' });
+
+      await waitFor(() => expect(invoker).toHaveBeenCalledTimes(2)); // eslint-disable-line no-magic-numbers
+    });
+
+    it('should fetch again when an invalidating event arrives', async () => {
+      let name = 'Ada';
+      ipc = setup({ handlers: { 'get-user': async (id) => ({ id, name }) } });
+      const { result } = renderHook(() =>
+        useIpcQuery(appApi.invoke.getUser, [1], {
+          invalidateOn: appApi.events.onUserUpdated,
+        }),
+      );
+      await waitFor(() => expect(result.current.data?.name).toBe('Ada'));
+
+      name = 'Bob';
+      act(() => ipc!.emitEvent('user-updated', 1));
+
+      await waitFor(() => expect(result.current.data?.name).toBe('Bob'));
+    });
+
+    it('should wait while disabled', async () => {
+      ipc = setup({ handlers: { 'get-user': async (id) => ({ id, name: 'Ada' }) } });
+      const { result, rerender } = renderHook(
+        ({ enabled }) => useIpcQuery(appApi.invoke.getUser, [1], { enabled }),
+        { initialProps: { enabled: false } },
+      );
+
+      expect(result.current.isLoading).toBe(false);
+      expect(ipc.calls('get-user')).toEqual([]);
+
+      rerender({ enabled: true });
+      await waitFor(() => expect(result.current.data).toEqual({ id: 1, name: 'Ada' }));
+    });
+
+    it('should unsubscribe from invalidating events on unmount', async () => {
+      ipc = setup({ handlers: { 'get-user': async (id) => ({ id, name: 'Ada' }) } });
+      const { result, unmount } = renderHook(() =>
+        useIpcQuery(appApi.invoke.getUser, [1], {
+          invalidateOn: [appApi.events.onUserUpdated],
+        }),
+      );
+      await waitFor(() => expect(result.current.isLoading).toBe(false));
+      expect(ipc.listenerCount('user-updated')).toBe(1);
+
+      unmount();
+
+      expect(ipc.listenerCount('user-updated')).toBe(0);
+    });
+  });
+
+  describe('useIpcMutation', () => {
+    it('should call the handler only when mutating, tracking its state', async () => {
+      let resolve: (saved: boolean) => void = () => {};
+      const onSuccess = vi.fn();
+      ipc = setup({
+        handlers: {
+          'save-user': async () =>
+            new Promise<boolean>((done) => {
+              resolve = done;
+            }),
+        },
+      });
+      const { result } = renderHook(() =>
+        useIpcMutation(appApi.invoke.saveUser, { onSuccess }),
+      );
+      expect(result.current.isLoading).toBe(false);
+      expect(ipc.calls('save-user')).toEqual([]);
+
+      act(() => result.current.mutate('Ada'));
+      expect(result.current.isLoading).toBe(true);
+      await waitFor(() => expect(ipc!.calls('save-user')).toEqual([['Ada']]));
+      await act(async () => resolve(true));
+
+      expect(result.current).toMatchObject({ isLoading: false, data: true });
+      expect(onSuccess).toHaveBeenCalledWith(true, ['Ada']);
+    });
+
+    it('should keep errors in state from mutate and reject from mutateAsync', async () => {
+      const onError = vi.fn();
+      ipc = setup({
+        handlers: {
+          'save-user': async () => {
+            throw new Error('Name taken');
+          },
+        },
+      });
+      const { result } = renderHook(() =>
+        useIpcMutation(appApi.invoke.saveUser, { onError }),
+      );
+
+      await act(async () => result.current.mutate('Ada'));
+      await waitFor(() => expect(result.current.isLoading).toBe(false));
+      expect((result.current.error as Error).message).toBe('Name taken');
+      expect(onError).toHaveBeenCalledWith(result.current.error, ['Ada']);
+
+      await act(async () => {
+        await expect(result.current.mutateAsync('Bob')).rejects.toThrow('Name taken');
+      });
+
+      act(() => result.current.reset());
+      expect(result.current).toMatchObject({ error: undefined, isLoading: false });
+    });
+  });
+
+  describe('useIpcEvent', () => {
+    it('should call the latest listener and unsubscribe on unmount', () => {
+      ipc = setup();
+      const first = vi.fn();
+      const second = vi.fn();
+      const { rerender, unmount } = renderHook(
+        ({ listener }) => useIpcEvent(appApi.events.onUserUpdated, listener),
+        { initialProps: { listener: first } },
+      );
+
+      rerender({ listener: second });
+      ipc.emitEvent('user-updated', 1);
+
+      expect(first).not.toHaveBeenCalled();
+      expect(second).toHaveBeenCalledWith(1);
+      expect(ipc.listenerCount('user-updated')).toBe(1);
+
+      unmount();
+      expect(ipc.listenerCount('user-updated')).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+
+import { IpcRemoteError, IpcValidationError } from '../src/errors';
+import { deserializeError, serializeError } from '../src/serialize-error';
+
+describe('serializeError', () => {
+  it('should capture name, message, code and custom properties', () => {
+    const error = Object.assign(new TypeError('Bad input'), {
+      code: 'E_BAD',
+      field: 'email',
+    });
+
+    expect(serializeError(error, 'save-user')).toEqual({
+      name: 'TypeError',
+      message: 'Bad input',
+      channel: 'save-user',
+      code: 'E_BAD',
+      data: { field: 'email' },
+    });
+  });
+
+  it('should drop properties that cannot be structured-cloned', () => {
+    const error = Object.assign(new Error('Oops'), {
+      callback: () => {},
+      retryable: true,
+    });
+
+    expect(serializeError(error).data).toEqual({ retryable: true });
+  });
+
+  it('should serialize the cause chain', () => {
+    const error = new Error('Outer', {
+      cause: new Error('Inner', { cause: 'root' }),
+    });
+
+    expect(serializeError(error).cause).toEqual({
+      name: 'Error',
+      message: 'Inner',
+      cause: { name: 'Error', message: 'root' },
+    });
+  });
+
+  it('should stop at self-referencing causes', () => {
+    const error = new Error('Loop');
+    error.cause = error;
+
+    let depth = 0;
+    let current = serializeError(error).cause;
+    while (current) {
+      depth++;
+      current = current.cause;
+    }
+
+    expect(depth).toBe(10); // eslint-disable-line no-magic-numbers
+  });
+});
+
+describe('deserializeError', () => {
+  it('should create an IpcRemoteError for unknown error names', () => {
+    const error = deserializeError({
+      name: 'NotFoundError',
+      message: 'Missing',
+      channel: 'load-file',
+      code: 'NOT_FOUND',
+      data: { path: 'a.txt' },
+      cause: { name: 'Error', message: 'ENOENT' },
+    });
+
+    expect(error).toBeInstanceOf(IpcRemoteError);
+    expect(error).toMatchObject({
+      name: 'NotFoundError',
+      message: 'Missing',
+      channel: 'load-file',
+      code: 'NOT_FOUND',
+      data: { path: 'a.txt' },
+    });
+    expect(error.cause).toBeInstanceOf(IpcRemoteError);
+  });
+
+  it('should round-trip library errors as their own class', () => {
+    const original = new IpcValidationError('save-user', 'args', [
+      { message: 'Required', path: [0] },
+    ]);
+
+    const error = deserializeError(structuredClone(serializeError(original)));
+
+    expect(error).toBeInstanceOf(IpcValidationError);
+    expect(error).toMatchObject({
+      name: 'IpcValidationError',
+      code: 'IPC_VALIDATION_FAILED',
+      channel: 'save-user',
+      target: 'args',
+      issues: [{ message: 'Required', path: [0] }],
+      message: original.message,
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import type { Transfer } from '../src';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { createIpcSchema } from '../src/create-ipc-schema';
+import { defineEvent } from '../src/define-event';
+import { defineHandler } from '../src/define-handler';
+import { createIpcLoopback } from '../src/testing';
+import { collectTransferables } from '../src/transfer-port';
+
+describe('createIpcSchema transferable payloads', () => {
+  const size = 1024;
+
+  function setup() {
+    const api = createIpcSchema({
+      apiKey: 'appApi',
+      handlers: {
+        'save-image': defineHandler<[name: string, data: Transfer<Uint8Array>], number>({
+          transfer: true,
+        }),
+        'get-name': defineHandler<[], string>(),
+      },
+      rendererEvents: {
+        'frame-captured': defineEvent<[frame: Transfer]>({ transfer: true }),
+      },
+    });
+    const loopback = createIpcLoopback();
+    api.registerMainHandlers(loopback.ipcMain, { windows: loopback.windows });
+    const renderer = loopback.createRenderer({ name: 'main' });
+    renderer.contextBridge.exposeInMainWorld(
+      'appApi',
+      api.exposeInPreload(renderer.ipcRenderer),
+    );
+    vi.stubGlobal('window', renderer.world);
+    return { api, loopback, renderer };
+  }
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should move the arguments of a call, detaching the caller buffer', async () => {
+    const { api, renderer } = setup();
+    const received: number[] = [];
+    api.registerHandler('save-image', (_event, _name, data) => {
+      received.push(...data.slice(0, 3)); // eslint-disable-line no-magic-numbers
+      return data.byteLength;
+    });
+    const invoke = vi.spyOn(renderer.ipcRenderer, 'invoke');
+    const data = new Uint8Array(size).fill(7); // eslint-disable-line no-magic-numbers
+
+    await expect(api.invoke.saveImage('photo.png', data)).resolves.toBe(size);
+
+    expect(data.byteLength).toBe(0);
+    expect(received).toEqual([7, 7, 7]); // eslint-disable-line no-magic-numbers
+    expect(invoke).not.toHaveBeenCalled();
+  });
+
+  it('should reuse the port and keep other handlers on invoke', async () => {
+    const { api, renderer } = setup();
+    api.registerHandler('save-image', (_event, name) => name.length);
+    api.registerHandler('get-name', () => 'main');
+    const postMessage = vi.spyOn(renderer.ipcRenderer, 'postMessage');
+    const invoke = vi.spyOn(renderer.ipcRenderer, 'invoke');
+
+    const lengths = await Promise.all([
+      api.invoke.saveImage('a.png', new Uint8Array(size)),
+      api.invoke.saveImage('bb.png', new Uint8Array(size)),
+    ]);
+    await expect(api.invoke.getName()).resolves.toBe('main');
+
+    expect(lengths).toEqual([5, 6]); // eslint-disable-line no-magic-numbers
+    expect(postMessage).toHaveBeenCalledTimes(1);
+    expect(invoke).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject with the error thrown by the handler', async () => {
+    const { api } = setup();
+    api.registerHandler('save-image', () => {
+      throw new Error('Disk full');
+    });
+
+    await expect(api.invoke.saveImage('a.png', new Uint8Array(size))).rejects.toThrow(
+      'Disk full',
+    );
+  });
+
+  it('should move the payload of renderer events', async () => {
+    const { api } = setup();
+    const listener = vi.fn();
+    api.onRendererEvent('frame-captured', (_event, frame) => listener(frame.byteLength));
+    const frame = new ArrayBuffer(size);
+
+    api.emit.frameCaptured(frame);
+
+    await vi.waitFor(() => expect(listener).toHaveBeenCalledWith(size));
+    expect(frame.byteLength).toBe(0);
+  });
+});
+
+describe('collectTransferables', () => {
+  it('should find buffers behind views, arrays and plain objects once', () => {
+    const buffer = new ArrayBuffer(8); // eslint-disable-line no-magic-numbers
+    const other = new ArrayBuffer(4); // eslint-disable-line no-magic-numbers
+    const view = new Uint8Array(buffer, 2, 4); // eslint-disable-line no-magic-numbers
+
+    const found = collectTransferables([
+      view,
+      { nested: { buffer, list: [new DataView(other)] } },
+      'text',
+      new Date(0),
+    ]);
+
+    expect(found).toEqual([buffer, other]);
+  });
+
+  it('should leave shared buffers and cycles alone', () => {
+    const cyclic: Record<string, unknown> = {
+      shared: new Int32Array(new SharedArrayBuffer(4)), // eslint-disable-line no-magic-numbers
+    };
+    cyclic.self = cyclic;
+
+    expect(collectTransferables(cyclic)).toEqual([]);
+  });
+});
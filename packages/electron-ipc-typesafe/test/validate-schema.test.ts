@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+
+import { IpcValidationError } from '../src/errors';
+import { validateSchema } from '../src/validate-schema';
+import { createSchema } from './fixtures/standard-schema';
+
+describe('validateSchema', () => {
+  it('should return the parsed value when validation succeeds', async () => {
+    const schema = createSchema<number>((value) => ({ value: Number(value) }));
+
+    await expect(
+      validateSchema(schema, '42', { channel: 'get-number', target: 'args' }),
+    ).resolves.toBe(42); // eslint-disable-line no-magic-numbers
+  });
+
+  it('should support asynchronous validators', async () => {
+    const schema = createSchema<string>(async (value) => ({ value: String(value) }));
+
+    await expect(
+      validateSchema(schema, 'ok', { channel: 'get-text', target: 'return' }),
+    ).resolves.toBe('ok');
+  });
+
+  it('should throw an IpcValidationError listing every issue', async () => {
+    const symbolKey = Symbol('secret');
+    const schema = createSchema<string>(() => ({
+      issues: [
+        { message: 'Expected string', path: [0, { key: 'name' }] },
+        { message: 'Unexpected key', path: [symbolKey] },
+        { message: 'Too many arguments' },
+      ],
+    }));
+
+    const error = await validateSchema(schema, [1], {
+      channel: 'save-user',
+      target: 'args',
+    }).catch((error_: unknown) => error_);
+
+    expect(error).toBeInstanceOf(IpcValidationError);
+    expect(error).toMatchObject({
+      code: 'IPC_VALIDATION_FAILED',
+      channel: 'save-user',
+      target: 'args',
+      issues: [
+        { message: 'Expected string', path: [0, 'name'] },
+        { message: 'Unexpected key', path: ['Symbol(secret)'] },
+        { message: 'Too many arguments', path: [] },
+      ],
+    });
+    expect((error as Error).message).toBe(
+      "Invalid arguments for 'save-user': 0.name: Expected string; Symbol(secret): Unexpected key; Too many arguments",
+    );
+  });
+});
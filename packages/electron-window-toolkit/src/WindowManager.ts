@@ -105,6 +105,27 @@ class WindowManager {
     return undefined;
   }
 
+  /**
+   * Returns every open window, including windows not created by this manager.
+   */
+  getAllWindows(): BrowserWindow[] {
+    return BrowserWindow.getAllWindows().filter((win) => !win.isDestroyed());
+  }
+
+  /**
+   * Returns the name a window was created under, looked up by its webContents.
+   * Together with {@link WindowManager.getAllWindows} this lets IPC layers address
+   * windows by name.
+   */
+  getWindowName(webContents: Electron.WebContents): string | undefined {
+    for (const [windowName, win] of this.#windowRegistry) {
+      if (!win.isDestroyed() && win.webContents === webContents) {
+        return windowName;
+      }
+    }
+    return undefined;
+  }
+
   async openWindow(name: string, options?: WindowOptions): Promise<BrowserWindow> {
     const win = (await this.getWindow(name)) ?? (await this.createWindow(name, options));
     win.show();
@@ -5,7 +5,7 @@ import { WindowStateManager } from '../src/WindowStateManager';
 
 // Mock electron modules
 vi.mock('electron', () => ({
-  BrowserWindow: vi.fn(),
+  BrowserWindow: Object.assign(vi.fn(), { getAllWindows: vi.fn(() => []) }),
   app: {
     whenReady: vi.fn(),
     on: vi.fn(),
@@ -71,7 +71,7 @@ describe('windowManager', () => {
 
     // Mock BrowserWindow constructor
     (BrowserWindow as any).mockImplementation(() => mockWindow);
-    (BrowserWindow as any).getAllWindows = vi.fn(() => []);
+    vi.spyOn(BrowserWindow, 'getAllWindows').mockReturnValue([] as any);
 
     // Mock WindowStateManager
     mockStateManager = {
@@ -98,6 +98,7 @@ describe('windowManager', () => {
 
   afterEach(() => {
     vi.resetAllMocks();
+    vi.restoreAllMocks();
   });
 
   describe('constructor', () => {
@@ -204,6 +205,35 @@ describe('windowManager', () => {
     });
   });
 
+  describe('getWindowName', () => {
+    it('should return the name of a window created by the manager', async () => {
+      await windowManager.createWindow('settings');
+
+      expect(windowManager.getWindowName(mockWindow.webContents)).toBe('settings');
+    });
+
+    it('should return undefined for unknown or destroyed windows', async () => {
+      expect(windowManager.getWindowName({} as any)).toBeUndefined();
+
+      await windowManager.createWindow('settings');
+      mockWindow.isDestroyed.mockReturnValue(true);
+
+      expect(windowManager.getWindowName(mockWindow.webContents)).toBeUndefined();
+    });
+  });
+
+  describe('getAllWindows', () => {
+    it('should return open windows only', () => {
+      const destroyedWindow = { isDestroyed: vi.fn(() => true) };
+      vi.spyOn(BrowserWindow, 'getAllWindows').mockReturnValue([
+        mockWindow,
+        destroyedWindow,
+      ] as any);
+
+      expect(windowManager.getAllWindows()).toEqual([mockWindow]);
+    });
+  });
+
   describe('openWindow', () => {
     it('should return existing window and show/focus it', async () => {
       // First create a window
@@ -442,7 +472,10 @@ describe('windowManager', () => {
         isDestroyed: vi.fn(() => false),
         close: vi.fn(),
       };
-      (BrowserWindow as any).getAllWindows = vi.fn(() => [mockWindow, otherWindow]);
+      vi.spyOn(BrowserWindow, 'getAllWindows').mockReturnValue([
+        mockWindow,
+        otherWindow,
+      ] as any);
 
       await windowManager.createWindow('main');
 
@@ -495,7 +528,7 @@ describe('windowManager', () => {
     });
 
     it('should return existing window without showing', async () => {
-      (BrowserWindow as any).getAllWindows = vi.fn(() => [mockWindow]);
+      vi.spyOn(BrowserWindow, 'getAllWindows').mockReturnValue([mockWindow] as any);
 
       const window = await windowManager.restoreOrCreateWindow(false);
       expect(window).toBe(mockWindow);